@@ -1,21 +1,33 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClient, QueryClientProvider, useQueryClient } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { useRoles } from "@/hooks/use-roles";
+import { type AppRole, hasAnyRole, homePath, PAGE_ROLES } from "@/lib/roles";
 import RunCommissions from "./pages/RunCommissions";
+import BatchRun from "./pages/BatchRun";
 import Settings from "./pages/Settings";
+import Integration from "./pages/Integration";
 import Logs from "./pages/Logs";
+import Statements from "./pages/Statements";
+import Periods from "./pages/Periods";
+import Reps from "./pages/Reps";
+import Users from "./pages/Users";
+import MyCommissions from "./pages/MyCommissions";
 import Login from "./pages/Login";
+import Welcome from "./pages/Welcome";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
-function ProtectedRoute({ children }: { children: React.ReactNode }) {
+function ProtectedRoute({ roles: allowed, children }: { roles: AppRole[]; children: React.ReactNode }) {
+  const queryClient = useQueryClient();
   const [session, setSession] = useState<any>(null);
   const [loading, setLoading] = useState(true);
+  const { data: roles, isLoading: isLoadingRoles } = useRoles();
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -27,12 +39,13 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
       data: { subscription },
     } = supabase.auth.onAuthStateChange((_event, session) => {
       setSession(session);
+      queryClient.invalidateQueries({ queryKey: ["user-roles"] });
     });
 
     return () => subscription.unsubscribe();
-  }, []);
+  }, [queryClient]);
 
-  if (loading) {
+  if (loading || (session && isLoadingRoles)) {
     return <div className="flex h-screen items-center justify-center">Loading...</div>;
   }
 
@@ -40,6 +53,19 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
     return <Navigate to="/login" />;
   }
 
+  if (!hasAnyRole(roles, allowed)) {
+    const home = homePath(roles);
+    if (home) {
+      return <Navigate to={home} replace />;
+    }
+    return (
+      <div className="flex h-screen flex-col items-center justify-center gap-2 text-center">
+        <p className="text-lg font-semibold">You don't have access yet</p>
+        <p className="text-muted-foreground">Ask an admin to give your account a role.</p>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 }
 
@@ -51,30 +77,87 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/login" element={<Login />} />
+          <Route path="/welcome" element={<Welcome />} />
           <Route
             path="/"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute roles={PAGE_ROLES["/"]}>
                 <RunCommissions />
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/batch"
+            element={
+              <ProtectedRoute roles={PAGE_ROLES["/batch"]}>
+                <BatchRun />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/settings"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute roles={PAGE_ROLES["/settings"]}>
                 <Settings />
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/reps"
+            element={
+              <ProtectedRoute roles={PAGE_ROLES["/reps"]}>
+                <Reps />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/statements"
+            element={
+              <ProtectedRoute roles={PAGE_ROLES["/statements"]}>
+                <Statements />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/periods"
+            element={
+              <ProtectedRoute roles={PAGE_ROLES["/periods"]}>
+                <Periods />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/integration"
+            element={
+              <ProtectedRoute roles={PAGE_ROLES["/integration"]}>
+                <Integration />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/logs"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute roles={PAGE_ROLES["/logs"]}>
                 <Logs />
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/users"
+            element={
+              <ProtectedRoute roles={PAGE_ROLES["/users"]}>
+                <Users />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/my-commissions"
+            element={
+              <ProtectedRoute roles={PAGE_ROLES["/my-commissions"]}>
+                <MyCommissions />
+              </ProtectedRoute>
+            }
+          />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
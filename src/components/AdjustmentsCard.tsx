@@ -0,0 +1,176 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { eachMonthOfInterval, format, parseISO } from "date-fns";
+import type { AdjustmentType } from "@/lib/commissionEngine";
+import { ADJUSTMENT_TYPE_LABELS, signedAmount } from "@/lib/adjustments";
+
+interface AdjustmentsCardProps {
+  repId: string;
+  repName: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+export default function AdjustmentsCard({ repId, repName, startDate, endDate }: AdjustmentsCardProps) {
+  const queryClient = useQueryClient();
+  const months = useMemo(
+    () =>
+      startDate <= endDate
+        ? eachMonthOfInterval({ start: startDate, end: endDate }).map((m) => format(m, "yyyy-MM-dd"))
+        : [],
+    [startDate, endDate]
+  );
+  const [month, setMonth] = useState(months[0] ?? "");
+  const [type, setType] = useState<AdjustmentType>("spiff");
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (!months.includes(month)) setMonth(months[0] ?? "");
+  }, [months, month]);
+
+  const { data: adjustments, isLoading } = useQuery({
+    queryKey: ["commission-adjustments", repId, months[0], months[months.length - 1]],
+    enabled: months.length > 0,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("commission_adjustments")
+        .select("*")
+        .eq("rep_id", repId)
+        .gte("month", months[0])
+        .lte("month", months[months.length - 1])
+        .order("created_at");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from("commission_adjustments").insert({
+        rep_id: repId,
+        month,
+        type,
+        amount: signedAmount(type, parseFloat(amount)),
+        reason: reason.trim(),
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["commission-adjustments", repId] });
+      setAmount("");
+      setReason("");
+      toast.success("Adjustment added. Run the calculation again to include it.");
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to add adjustment");
+    },
+  });
+
+  const parsedAmount = parseFloat(amount);
+  const canAdd = !!month && !isNaN(parsedAmount) && parsedAmount !== 0 && !!reason.trim();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Adjustments</CardTitle>
+        <CardDescription>
+          SPIFFs, corrections, draws and clawbacks for {repName}, paid as separate lines on top of the calculated
+          commission. Adjustments can't be edited; enter a correction to fix one.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div>Loading...</div>
+        ) : adjustments && adjustments.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Month</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Added By</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {adjustments.map((adjustment) => (
+                <TableRow key={adjustment.id}>
+                  <TableCell>{format(parseISO(adjustment.month), "MMM yyyy")}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{ADJUSTMENT_TYPE_LABELS[adjustment.type as AdjustmentType] || adjustment.type}</Badge>
+                  </TableCell>
+                  <TableCell className={Number(adjustment.amount) < 0 ? "text-destructive" : ""}>
+                    ${Number(adjustment.amount).toLocaleString()}
+                  </TableCell>
+                  <TableCell>{adjustment.reason}</TableCell>
+                  <TableCell>{adjustment.created_by_email || "—"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">No adjustments for this period.</p>
+        )}
+
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+          <div>
+            <Label>Month</Label>
+            <Select value={month} onValueChange={setMonth}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a month" />
+              </SelectTrigger>
+              <SelectContent>
+                {months.map((m) => (
+                  <SelectItem key={m} value={m}>
+                    {format(parseISO(m), "MMMM yyyy")}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Type</Label>
+            <Select value={type} onValueChange={(value) => setType(value as AdjustmentType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ADJUSTMENT_TYPE_LABELS) as AdjustmentType[]).map((t) => (
+                  <SelectItem key={t} value={t}>
+                    {ADJUSTMENT_TYPE_LABELS[t]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Amount ($)</Label>
+            <Input
+              type="number"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder={type === "correction" ? "Negative to reduce" : "0"}
+            />
+          </div>
+          <div>
+            <Label>Reason</Label>
+            <Input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Why this adjustment" />
+          </div>
+        </div>
+        <Button onClick={() => addMutation.mutate()} disabled={!canAdd || addMutation.isPending}>
+          {addMutation.isPending ? "Adding..." : "Add Adjustment"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,15 +1,25 @@
 import { Link, useLocation } from "react-router-dom";
 import { cn } from "@/lib/utils";
-import { DollarSign, Settings, Play, FileText } from "lucide-react";
+import { useRoles } from "@/hooks/use-roles";
+import { hasAnyRole, PAGE_ROLES } from "@/lib/roles";
+import { DollarSign, Settings, Play, FileText, Users, ClipboardCheck, Lock, ListChecks, Plug, UserCog, Wallet } from "lucide-react";
 
 const navigation = [
+  { name: "My Commissions", href: "/my-commissions", icon: Wallet },
   { name: "Run Commissions", href: "/", icon: Play },
+  { name: "Run All Reps", href: "/batch", icon: ListChecks },
+  { name: "Reps", href: "/reps", icon: Users },
+  { name: "Statements", href: "/statements", icon: ClipboardCheck },
+  { name: "Periods", href: "/periods", icon: Lock },
   { name: "Settings", href: "/settings", icon: Settings },
+  { name: "Integration", href: "/integration", icon: Plug },
+  { name: "Users", href: "/users", icon: UserCog },
   { name: "Logs", href: "/logs", icon: FileText },
 ];
 
 export default function Layout({ children }: { children: React.ReactNode }) {
   const location = useLocation();
+  const { data: roles } = useRoles();
 
   return (
     <div className="min-h-screen bg-background">
@@ -21,25 +31,27 @@ export default function Layout({ children }: { children: React.ReactNode }) {
               <h1 className="text-xl font-bold text-foreground">Commission Hub</h1>
             </div>
             <div className="flex gap-1">
-              {navigation.map((item) => {
-                const Icon = item.icon;
-                const isActive = location.pathname === item.href;
-                return (
-                  <Link
-                    key={item.name}
-                    to={item.href}
-                    className={cn(
-                      "flex items-center gap-2 rounded-md px-4 py-2 text-sm font-medium transition-colors",
-                      isActive
-                        ? "bg-primary text-primary-foreground"
-                        : "text-muted-foreground hover:bg-secondary hover:text-foreground"
-                    )}
-                  >
-                    <Icon className="h-4 w-4" />
-                    {item.name}
-                  </Link>
-                );
-              })}
+              {navigation
+                .filter((item) => hasAnyRole(roles, PAGE_ROLES[item.href]))
+                .map((item) => {
+                  const Icon = item.icon;
+                  const isActive = location.pathname === item.href;
+                  return (
+                    <Link
+                      key={item.name}
+                      to={item.href}
+                      className={cn(
+                        "flex items-center gap-2 rounded-md px-4 py-2 text-sm font-medium transition-colors",
+                        isActive
+                          ? "bg-primary text-primary-foreground"
+                          : "text-muted-foreground hover:bg-secondary hover:text-foreground"
+                      )}
+                    >
+                      <Icon className="h-4 w-4" />
+                      {item.name}
+                    </Link>
+                  );
+                })}
             </div>
           </div>
         </div>
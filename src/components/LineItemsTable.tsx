@@ -0,0 +1,69 @@
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { CommissionLineItem, LineItemRule } from "@/lib/commissionEngine";
+import { ADJUSTMENT_TYPE_LABELS } from "@/lib/adjustments";
+
+const RULE_LABELS: Record<LineItemRule, string> = {
+  ae_bracket: "AE bracket",
+  ae_payment_term_bonus: "Payment term bonus",
+  sdr_meeting_tier: "Meeting tier",
+  sdr_closed_won: "SDR closed won",
+  marketing_inbound: "Marketing inbound",
+  ...ADJUSTMENT_TYPE_LABELS,
+};
+
+const SOURCE_LABELS: Record<CommissionLineItem["sourceType"], string> = {
+  deal: "Deal",
+  meeting: "Meeting",
+  adjustment: "Adjustment",
+};
+
+interface LineItemsTableProps {
+  lineItems: CommissionLineItem[];
+}
+
+export default function LineItemsTable({ lineItems }: LineItemsTableProps) {
+  if (lineItems.length === 0) {
+    return <p className="text-sm text-muted-foreground">No deals, meetings or adjustments were credited in this run.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Source</TableHead>
+          <TableHead>HubSpot ID</TableHead>
+          <TableHead>Rule</TableHead>
+          <TableHead>Amount</TableHead>
+          <TableHead>Rate</TableHead>
+          <TableHead>Commission</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {lineItems.map((line, idx) => (
+          <TableRow key={idx}>
+            <TableCell>
+              <Badge variant="outline" className="mr-2">
+                {SOURCE_LABELS[line.sourceType]}
+              </Badge>
+              {line.description}
+            </TableCell>
+            <TableCell className="font-mono text-xs">{line.hubspotId || "—"}</TableCell>
+            <TableCell>{RULE_LABELS[line.rule] || line.rule}</TableCell>
+            <TableCell>{line.amount === null ? "—" : `$${line.amount.toLocaleString()}`}</TableCell>
+            <TableCell>
+              {line.sourceType === "adjustment"
+                ? "—"
+                : line.sourceType === "meeting"
+                  ? `$${line.rate.toLocaleString()} / meeting`
+                  : `${line.rate.toLocaleString(undefined, { maximumFractionDigits: 2 })}%`}
+            </TableCell>
+            <TableCell className="font-semibold">
+              ${line.commission.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useReps } from "@/hooks/use-reps";
+
+interface PlanAssignmentsCardProps {
+  planId: string;
+  planName: string;
+}
+
+export default function PlanAssignmentsCard({ planId, planName }: PlanAssignmentsCardProps) {
+  const queryClient = useQueryClient();
+  const [selectedTeamId, setSelectedTeamId] = useState<string>("");
+  const { data: reps } = useReps();
+
+  const { data: assignments, isLoading } = useQuery({
+    queryKey: ["commission-plan-assignments", planId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("commission_plan_assignments")
+        .select("*")
+        .eq("plan_id", planId)
+        .order("assignee_name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Every HubSpot team any rep belongs to
+  const teams = new Map<string, string>();
+  for (const rep of reps || []) {
+    for (const team of rep.hubspot_teams) {
+      if (team.id) teams.set(team.id, team.name);
+    }
+  }
+
+  // Reps paid on this plan directly, set on the Reps page
+  const directReps = reps?.filter((rep) => rep.plan_id === planId) || [];
+
+  const assignMutation = useMutation({
+    mutationFn: async () => {
+      const teamName = teams.get(selectedTeamId);
+      if (!teamName) throw new Error("Select a team to assign");
+
+      // A team can only be on one plan, so assigning moves it here
+      const { error } = await supabase
+        .from("commission_plan_assignments")
+        .upsert(
+          { plan_id: planId, assignee_type: "team", assignee_id: selectedTeamId, assignee_name: teamName },
+          { onConflict: "assignee_type,assignee_id" }
+        );
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["commission-plan-assignments"] });
+      setSelectedTeamId("");
+      toast.success("Assignment saved");
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to save assignment");
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (assignmentId: string) => {
+      const { error } = await supabase.from("commission_plan_assignments").delete().eq("id", assignmentId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["commission-plan-assignments"] });
+      toast.success("Assignment removed");
+    },
+    onError: () => {
+      toast.error("Failed to remove assignment");
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Plan Assignments</CardTitle>
+        <CardDescription>
+          HubSpot teams paid on {planName}. A plan set on a rep overrides their team's; anyone unassigned is paid on
+          the default plan for their role.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div>Loading...</div>
+        ) : assignments && assignments.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Team</TableHead>
+                <TableHead className="w-16"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {assignments.map((assignment) => (
+                <TableRow key={assignment.id}>
+                  <TableCell>{assignment.assignee_name || assignment.assignee_id}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="destructive"
+                      size="icon"
+                      onClick={() => removeMutation.mutate(assignment.id)}
+                      disabled={removeMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-sm text-muted-foreground">No teams are assigned to this plan yet.</div>
+        )}
+
+        {directReps.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+            Reps on this plan directly:
+            {directReps.map((rep) => (
+              <Badge key={rep.id} variant="outline">{rep.name}</Badge>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-4 items-end">
+          <div className="flex-1">
+            <Label>Assign Team</Label>
+            <Select value={selectedTeamId} onValueChange={setSelectedTeamId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a HubSpot team" />
+              </SelectTrigger>
+              <SelectContent>
+                {[...teams].map(([id, name]) => (
+                  <SelectItem key={id} value={id}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => assignMutation.mutate()}
+            disabled={!selectedTeamId || assignMutation.isPending}
+          >
+            Assign
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { useReps } from "@/hooks/use-reps";
+
+type QuotaDraft = { period: "monthly" | "quarterly"; quota_amount: string };
+
+export default function RepQuotasCard() {
+  const queryClient = useQueryClient();
+  const [drafts, setDrafts] = useState<Record<string, QuotaDraft>>({});
+
+  const { data: reps, isLoading: isLoadingReps } = useReps();
+
+  const { data: quotas, isLoading: isLoadingQuotas } = useQuery({
+    queryKey: ["rep-quotas"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("rep_quotas").select("*");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const activeReps = reps?.filter((rep) => rep.active) || [];
+
+  useEffect(() => {
+    if (quotas) {
+      const next: Record<string, QuotaDraft> = {};
+      quotas.forEach((q) => {
+        next[q.rep_id] = {
+          period: q.period === "quarterly" ? "quarterly" : "monthly",
+          quota_amount: String(q.quota_amount),
+        };
+      });
+      setDrafts(next);
+    }
+  }, [quotas]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const toUpsert = [];
+      const toDelete = [];
+
+      for (const rep of activeReps) {
+        const draft = drafts[rep.hubspot_owner_id];
+        const amount = parseFloat(draft?.quota_amount ?? "");
+        if (draft && !isNaN(amount) && amount > 0) {
+          toUpsert.push({ rep_id: rep.hubspot_owner_id, rep_name: rep.name, period: draft.period, quota_amount: amount });
+        } else if (quotas?.some((q) => q.rep_id === rep.hubspot_owner_id)) {
+          toDelete.push(rep.hubspot_owner_id);
+        }
+      }
+
+      if (toUpsert.length > 0) {
+        const { error } = await supabase.from("rep_quotas").upsert(toUpsert, { onConflict: "rep_id" });
+        if (error) throw error;
+      }
+      if (toDelete.length > 0) {
+        const { error } = await supabase.from("rep_quotas").delete().in("rep_id", toDelete);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["rep-quotas"] });
+      toast.success("Quotas saved successfully");
+    },
+    onError: () => {
+      toast.error("Failed to save quotas");
+    },
+  });
+
+  const updateDraft = (repId: string, patch: Partial<QuotaDraft>) => {
+    setDrafts({
+      ...drafts,
+      [repId]: { period: "monthly", quota_amount: "", ...drafts[repId], ...patch },
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Rep Quotas</CardTitle>
+        <CardDescription>
+          Monthly or quarterly quota per rep, used for attainment and attainment-based brackets. Leave empty for no quota.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoadingReps || isLoadingQuotas ? (
+          <div>Loading...</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rep</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead>Quota ($)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {activeReps.map((rep) => (
+                <TableRow key={rep.hubspot_owner_id}>
+                  <TableCell>
+                    {rep.name} ({rep.role})
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={drafts[rep.hubspot_owner_id]?.period ?? "monthly"}
+                      onValueChange={(value) => updateDraft(rep.hubspot_owner_id, { period: value as QuotaDraft["period"] })}
+                    >
+                      <SelectTrigger className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="monthly">Monthly</SelectItem>
+                        <SelectItem value="quarterly">Quarterly</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      value={drafts[rep.hubspot_owner_id]?.quota_amount ?? ""}
+                      onChange={(e) => updateDraft(rep.hubspot_owner_id, { quota_amount: e.target.value })}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        <Button variant="outline" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? "Saving..." : "Save Quotas"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
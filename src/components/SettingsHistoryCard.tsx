@@ -0,0 +1,137 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { diffSettings, type SettingsSnapshot } from "@/lib/settingsHistory";
+
+interface SettingsHistoryCardProps {
+  planId: string;
+  /** When a revert takes effect: the date picked for the next version in the editor */
+  effectiveFrom: Date;
+}
+
+export default function SettingsHistoryCard({ planId, effectiveFrom }: SettingsHistoryCardProps) {
+  const queryClient = useQueryClient();
+
+  const { data: history, isLoading } = useQuery({
+    queryKey: ["commission-settings-history", planId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("commission_settings_history")
+        .select("*")
+        .eq("plan_id", planId)
+        .order("version", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Reverting saves the earlier version's rates as a new version, so nothing is lost
+  const revertMutation = useMutation({
+    mutationFn: async (settingsId: string) => {
+      const { data, error } = await supabase.rpc("revert_commission_settings", {
+        p_settings_id: settingsId,
+        p_effective_from: effectiveFrom.toISOString(),
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (version) => {
+      queryClient.invalidateQueries({ queryKey: ["commission-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["commission-settings-history"] });
+      toast.success(`Reverted as v${version.version}, effective ${format(effectiveFrom, "PPP")}`);
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to revert settings");
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Change History</CardTitle>
+        <CardDescription>
+          Who saved each version and what changed. Reverting saves an earlier version's rates as a new version effective{" "}
+          {format(effectiveFrom, "PPP")}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div>Loading...</div>
+        ) : !history || history.length === 0 ? (
+          <div className="text-sm text-muted-foreground">No saved versions yet.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Saved</TableHead>
+                <TableHead>Changes</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {history.map((entry, index) => {
+                const changes = entry.before
+                  ? diffSettings(entry.before as SettingsSnapshot, entry.after as SettingsSnapshot)
+                  : [];
+                return (
+                  <TableRow key={entry.id}>
+                    <TableCell className="align-top">
+                      v{entry.version}{" "}
+                      {entry.reverted_to_version !== null && (
+                        <Badge variant="outline">Revert to v{entry.reverted_to_version}</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <div>{format(new Date(entry.changed_at), "PPP p")}</div>
+                      <div className="text-sm text-muted-foreground">{entry.changed_by_email || "Unknown user"}</div>
+                    </TableCell>
+                    <TableCell className="align-top">
+                      {!entry.before ? (
+                        <span className="text-sm text-muted-foreground">First version</span>
+                      ) : changes.length === 0 ? (
+                        <span className="text-sm text-muted-foreground">No rate changes</span>
+                      ) : (
+                        <ul className="space-y-1 text-sm">
+                          {changes.map((change, i) => (
+                            <li key={i}>
+                              <span className="font-medium">{change.label}</span>{" "}
+                              {change.before === null
+                                ? `added: ${change.after}`
+                                : change.after === null
+                                  ? `removed: ${change.before}`
+                                  : `${change.before} → ${change.after}`}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right align-top">
+                      {index > 0 && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => revertMutation.mutate(entry.settings_id)}
+                          disabled={revertMutation.isPending}
+                        >
+                          <RotateCcw className="mr-2 h-4 w-4" />
+                          Revert to v{entry.version}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,31 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { CommissionLineItem, LineItemRule } from "@/lib/commissionEngine";
+
+/** A recorded run's line items, shaped like the engine's; pass null to read nothing. */
+export function useLineItems(runLogId: string | null | undefined) {
+  return useQuery({
+    queryKey: ["commission-line-items", runLogId],
+    enabled: !!runLogId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("commission_line_items")
+        .select("*")
+        .eq("run_log_id", runLogId!)
+        .order("created_at");
+      if (error) throw error;
+      return data.map(
+        (row): CommissionLineItem => ({
+          sourceType: row.source_type as CommissionLineItem["sourceType"],
+          hubspotId: row.hubspot_id ?? undefined,
+          adjustmentId: row.adjustment_id ?? undefined,
+          description: row.description,
+          amount: row.amount,
+          rule: row.rule as LineItemRule,
+          rate: row.rate,
+          commission: row.commission,
+        })
+      );
+    },
+  });
+}
@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export type HubSpotTeamRef = { id: string; name: string };
+
+/** The rep directory, kept in sync with HubSpot owners by the fetch-hubspot-owners function. */
+export function useReps() {
+  return useQuery({
+    queryKey: ["reps"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("reps").select("*").order("name");
+      if (error) throw error;
+      return data.map((rep) => ({
+        ...rep,
+        hubspot_teams: (Array.isArray(rep.hubspot_teams) ? rep.hubspot_teams : []) as HubSpotTeamRef[],
+      }));
+    },
+  });
+}
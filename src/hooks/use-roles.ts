@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { AppRole } from "@/lib/roles";
+
+/** The signed-in user's roles; empty when signed out or before an admin grants any. */
+export function useRoles() {
+  return useQuery({
+    queryKey: ["user-roles"],
+    queryFn: async () => {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      if (!session) return [] as AppRole[];
+
+      const { data, error } = await supabase.from("user_roles").select("role").eq("user_id", session.user.id);
+      if (error) throw error;
+      return data.map((row) => row.role as AppRole);
+    },
+  });
+}
@@ -14,14 +14,368 @@ export type Database = {
   }
   public: {
     Tables: {
+      access_settings: {
+        Row: {
+          allowed_email_domains: string[]
+          created_at: string
+          id: string
+          updated_at: string
+        }
+        Insert: {
+          allowed_email_domains?: string[]
+          created_at?: string
+          id?: string
+          updated_at?: string
+        }
+        Update: {
+          allowed_email_domains?: string[]
+          created_at?: string
+          id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      commission_adjustments: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          id: string
+          month: string
+          reason: string
+          rep_id: string
+          type: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          id?: string
+          month: string
+          reason: string
+          rep_id: string
+          type: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          id?: string
+          month?: string
+          reason?: string
+          rep_id?: string
+          type?: string
+        }
+        Relationships: []
+      }
+      commission_job_tasks: {
+        Row: {
+          attempts: number
+          created_at: string
+          error: string | null
+          finished_at: string | null
+          id: string
+          idempotency_key: string
+          job_id: string
+          locked_at: string | null
+          rep_id: string
+          rep_name: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          idempotency_key: string
+          job_id: string
+          locked_at?: string | null
+          rep_id: string
+          rep_name: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          idempotency_key?: string
+          job_id?: string
+          locked_at?: string | null
+          rep_id?: string
+          rep_name?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commission_job_tasks_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "commission_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      commission_jobs: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          crm_sync_run_id: number | null
+          finished_at: string | null
+          id: string
+          period_end: string
+          period_start: string
+          source: string
+          started_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          crm_sync_run_id?: number | null
+          finished_at?: string | null
+          id?: string
+          period_end: string
+          period_start: string
+          source?: string
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          crm_sync_run_id?: number | null
+          finished_at?: string | null
+          id?: string
+          period_end?: string
+          period_start?: string
+          source?: string
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commission_jobs_crm_sync_run_id_fkey"
+            columns: ["crm_sync_run_id"]
+            isOneToOne: false
+            referencedRelation: "crm_sync_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      commission_line_items: {
+        Row: {
+          adjustment_id: string | null
+          amount: number | null
+          commission: number
+          created_at: string
+          description: string
+          hubspot_id: string | null
+          id: string
+          rate: number
+          rule: string
+          run_log_id: string
+          source_type: string
+        }
+        Insert: {
+          adjustment_id?: string | null
+          amount?: number | null
+          commission: number
+          created_at?: string
+          description: string
+          hubspot_id?: string | null
+          id?: string
+          rate: number
+          rule: string
+          run_log_id: string
+          source_type: string
+        }
+        Update: {
+          adjustment_id?: string | null
+          amount?: number | null
+          commission?: number
+          created_at?: string
+          description?: string
+          hubspot_id?: string | null
+          id?: string
+          rate?: number
+          rule?: string
+          run_log_id?: string
+          source_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commission_line_items_adjustment_id_fkey"
+            columns: ["adjustment_id"]
+            isOneToOne: false
+            referencedRelation: "commission_adjustments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "commission_line_items_run_log_id_fkey"
+            columns: ["run_log_id"]
+            isOneToOne: false
+            referencedRelation: "commission_run_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      commission_period_events: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          created_at: string
+          id: string
+          period_id: string
+          reason: string | null
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          period_id: string
+          reason?: string | null
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          period_id?: string
+          reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commission_period_events_period_id_fkey"
+            columns: ["period_id"]
+            isOneToOne: false
+            referencedRelation: "commission_periods"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      commission_periods: {
+        Row: {
+          closed_at: string | null
+          closed_by: string | null
+          created_at: string
+          id: string
+          month: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string
+          id?: string
+          month: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string
+          id?: string
+          month?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      commission_plan_assignments: {
+        Row: {
+          assignee_id: string
+          assignee_name: string
+          assignee_type: string
+          created_at: string
+          id: string
+          plan_id: string
+        }
+        Insert: {
+          assignee_id: string
+          assignee_name: string
+          assignee_type: string
+          created_at?: string
+          id?: string
+          plan_id: string
+        }
+        Update: {
+          assignee_id?: string
+          assignee_name?: string
+          assignee_type?: string
+          created_at?: string
+          id?: string
+          plan_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commission_plan_assignments_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "commission_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      commission_plans: {
+        Row: {
+          created_at: string
+          id: string
+          is_default: boolean
+          name: string
+          role: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          name: string
+          role: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          name?: string
+          role?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       commission_run_logs: {
         Row: {
           commission_json: Json
           created_at: string
+          crm_sync_run_id: number | null
           error_message: string | null
           id: string
+          job_task_id: string | null
           period_end: string
           period_start: string
+          plan_id: string | null
+          plan_version_id: string | null
           rep_id: string
           rep_name: string
           run_date: string
@@ -31,10 +385,14 @@ export type Database = {
         Insert: {
           commission_json: Json
           created_at?: string
+          crm_sync_run_id?: number | null
           error_message?: string | null
           id?: string
+          job_task_id?: string | null
           period_end: string
           period_start: string
+          plan_id?: string | null
+          plan_version_id?: string | null
           rep_id: string
           rep_name: string
           run_date?: string
@@ -44,60 +402,616 @@ export type Database = {
         Update: {
           commission_json?: Json
           created_at?: string
+          crm_sync_run_id?: number | null
           error_message?: string | null
           id?: string
+          job_task_id?: string | null
           period_end?: string
           period_start?: string
+          plan_id?: string | null
+          plan_version_id?: string | null
           rep_id?: string
           rep_name?: string
           run_date?: string
           success?: boolean
           team?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "commission_run_logs_crm_sync_run_id_fkey"
+            columns: ["crm_sync_run_id"]
+            isOneToOne: false
+            referencedRelation: "crm_sync_runs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "commission_run_logs_job_task_id_fkey"
+            columns: ["job_task_id"]
+            isOneToOne: true
+            referencedRelation: "commission_job_tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "commission_run_logs_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "commission_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "commission_run_logs_plan_version_id_fkey"
+            columns: ["plan_version_id"]
+            isOneToOne: false
+            referencedRelation: "commission_settings"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       commission_settings: {
         Row: {
+          ae_bracket_basis: string
+          ae_bracket_mode: string
           ae_brackets: Json
           ae_payment_term_bonuses: Json
           ae_revenue_multiplier_brackets: Json
+          clawback_percent: number
+          clawback_window_days: number
           created_at: string
+          effective_from: string
+          effective_to: string | null
           id: string
           marketing_inbound_percent: number
           marketing_revenue_multiplier_brackets: Json
           marketing_same_as_sdr: boolean
+          plan_id: string
           sdr_closed_won_percent: number
           sdr_meeting_tiers: Json
           sdr_revenue_multiplier_brackets: Json
           updated_at: string
+          version: number
         }
         Insert: {
+          ae_bracket_basis?: string
+          ae_bracket_mode?: string
           ae_brackets?: Json
           ae_payment_term_bonuses?: Json
           ae_revenue_multiplier_brackets?: Json
+          clawback_percent?: number
+          clawback_window_days?: number
           created_at?: string
+          effective_from: string
+          effective_to?: string | null
           id?: string
           marketing_inbound_percent?: number
           marketing_revenue_multiplier_brackets?: Json
           marketing_same_as_sdr?: boolean
+          plan_id: string
           sdr_closed_won_percent?: number
           sdr_meeting_tiers?: Json
           sdr_revenue_multiplier_brackets?: Json
           updated_at?: string
+          version?: number
         }
         Update: {
+          ae_bracket_basis?: string
+          ae_bracket_mode?: string
           ae_brackets?: Json
           ae_payment_term_bonuses?: Json
           ae_revenue_multiplier_brackets?: Json
+          clawback_percent?: number
+          clawback_window_days?: number
           created_at?: string
+          effective_from?: string
+          effective_to?: string | null
           id?: string
           marketing_inbound_percent?: number
           marketing_revenue_multiplier_brackets?: Json
           marketing_same_as_sdr?: boolean
+          plan_id?: string
           sdr_closed_won_percent?: number
           sdr_meeting_tiers?: Json
           sdr_revenue_multiplier_brackets?: Json
           updated_at?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commission_settings_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "commission_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      commission_settings_history: {
+        Row: {
+          after: Json
+          before: Json | null
+          changed_at: string
+          changed_by: string | null
+          changed_by_email: string | null
+          id: string
+          plan_id: string
+          reverted_to_version: number | null
+          settings_id: string
+          version: number
+        }
+        Insert: {
+          after: Json
+          before?: Json | null
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_email?: string | null
+          id?: string
+          plan_id: string
+          reverted_to_version?: number | null
+          settings_id: string
+          version: number
+        }
+        Update: {
+          after?: Json
+          before?: Json | null
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_email?: string | null
+          id?: string
+          plan_id?: string
+          reverted_to_version?: number | null
+          settings_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commission_settings_history_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "commission_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "commission_settings_history_settings_id_fkey"
+            columns: ["settings_id"]
+            isOneToOne: true
+            referencedRelation: "commission_settings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      commission_statement_transitions: {
+        Row: {
+          actor_email: string | null
+          actor_id: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          note: string | null
+          statement_id: string
+          to_status: string
+        }
+        Insert: {
+          actor_email?: string | null
+          actor_id?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          statement_id: string
+          to_status: string
+        }
+        Update: {
+          actor_email?: string | null
+          actor_id?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          statement_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commission_statement_transitions_statement_id_fkey"
+            columns: ["statement_id"]
+            isOneToOne: false
+            referencedRelation: "commission_statements"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      commission_statements: {
+        Row: {
+          created_at: string
+          hubspot_record_id: string | null
+          hubspot_synced_at: string | null
+          hubspot_synced_hash: string | null
+          id: string
+          period_end: string
+          period_start: string
+          rep_id: string
+          rep_name: string
+          run_log_id: string
+          status: string
+          status_changed_at: string
+          status_changed_by: string | null
+          team: string
+          total_commission: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          hubspot_record_id?: string | null
+          hubspot_synced_at?: string | null
+          hubspot_synced_hash?: string | null
+          id?: string
+          period_end: string
+          period_start: string
+          rep_id: string
+          rep_name: string
+          run_log_id: string
+          status?: string
+          status_changed_at?: string
+          status_changed_by?: string | null
+          team: string
+          total_commission: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          hubspot_record_id?: string | null
+          hubspot_synced_at?: string | null
+          hubspot_synced_hash?: string | null
+          id?: string
+          period_end?: string
+          period_start?: string
+          rep_id?: string
+          rep_name?: string
+          run_log_id?: string
+          status?: string
+          status_changed_at?: string
+          status_changed_by?: string | null
+          team?: string
+          total_commission?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commission_statements_run_log_id_fkey"
+            columns: ["run_log_id"]
+            isOneToOne: true
+            referencedRelation: "commission_run_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      crm_deals: {
+        Row: {
+          archived: boolean
+          closedate: string | null
+          hubspot_id: string
+          last_modified_at: string | null
+          properties: Json
+          sync_run_id: number
+        }
+        Insert: {
+          archived?: boolean
+          closedate?: string | null
+          hubspot_id: string
+          last_modified_at?: string | null
+          properties: Json
+          sync_run_id: number
+        }
+        Update: {
+          archived?: boolean
+          closedate?: string | null
+          hubspot_id?: string
+          last_modified_at?: string | null
+          properties?: Json
+          sync_run_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "crm_deals_sync_run_id_fkey"
+            columns: ["sync_run_id"]
+            isOneToOne: false
+            referencedRelation: "crm_sync_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      crm_meetings: {
+        Row: {
+          archived: boolean
+          deal_ids: string[]
+          hubspot_id: string
+          last_modified_at: string | null
+          properties: Json
+          start_time: string | null
+          sync_run_id: number
+        }
+        Insert: {
+          archived?: boolean
+          deal_ids?: string[]
+          hubspot_id: string
+          last_modified_at?: string | null
+          properties: Json
+          start_time?: string | null
+          sync_run_id: number
+        }
+        Update: {
+          archived?: boolean
+          deal_ids?: string[]
+          hubspot_id?: string
+          last_modified_at?: string | null
+          properties?: Json
+          start_time?: string | null
+          sync_run_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "crm_meetings_sync_run_id_fkey"
+            columns: ["sync_run_id"]
+            isOneToOne: false
+            referencedRelation: "crm_sync_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      crm_sync_runs: {
+        Row: {
+          deal_properties: string[] | null
+          deals_archived: number
+          deals_cursor: string | null
+          deals_synced: number
+          error_message: string | null
+          finished_at: string | null
+          id: number
+          meeting_properties: string[] | null
+          meetings_archived: number
+          meetings_cursor: string | null
+          meetings_synced: number
+          owners_synced: number
+          started_at: string
+          status: string
+        }
+        Insert: {
+          deal_properties?: string[] | null
+          deals_archived?: number
+          deals_cursor?: string | null
+          deals_synced?: number
+          error_message?: string | null
+          finished_at?: string | null
+          id?: number
+          meeting_properties?: string[] | null
+          meetings_archived?: number
+          meetings_cursor?: string | null
+          meetings_synced?: number
+          owners_synced?: number
+          started_at?: string
+          status?: string
+        }
+        Update: {
+          deal_properties?: string[] | null
+          deals_archived?: number
+          deals_cursor?: string | null
+          deals_synced?: number
+          error_message?: string | null
+          finished_at?: string | null
+          id?: number
+          meeting_properties?: string[] | null
+          meetings_archived?: number
+          meetings_cursor?: string | null
+          meetings_synced?: number
+          owners_synced?: number
+          started_at?: string
+          status?: string
+        }
+        Relationships: []
+      }
+      hubspot_mapping: {
+        Row: {
+          created_at: string
+          deal_amount_property: string
+          deal_channel_property: string
+          deal_payment_terms_property: string
+          deal_sdr_owner_property: string
+          id: string
+          meeting_outcome_property: string
+          meeting_type_property: string
+          statement_object_type: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          deal_amount_property?: string
+          deal_channel_property?: string
+          deal_payment_terms_property?: string
+          deal_sdr_owner_property?: string
+          id?: string
+          meeting_outcome_property?: string
+          meeting_type_property?: string
+          statement_object_type?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          deal_amount_property?: string
+          deal_channel_property?: string
+          deal_payment_terms_property?: string
+          deal_sdr_owner_property?: string
+          id?: string
+          meeting_outcome_property?: string
+          meeting_type_property?: string
+          statement_object_type?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      hubspot_statement_sync_claims: {
+        Row: {
+          claimed_at: string
+          period_end: string
+          period_start: string
+          rep_id: string
+        }
+        Insert: {
+          claimed_at?: string
+          period_end: string
+          period_start: string
+          rep_id: string
+        }
+        Update: {
+          claimed_at?: string
+          period_end?: string
+          period_start?: string
+          rep_id?: string
+        }
+        Relationships: []
+      }
+      rep_quotas: {
+        Row: {
+          created_at: string
+          id: string
+          period: string
+          quota_amount: number
+          rep_id: string
+          rep_name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          period?: string
+          quota_amount: number
+          rep_id: string
+          rep_name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          period?: string
+          quota_amount?: number
+          rep_id?: string
+          rep_name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      reps: {
+        Row: {
+          active: boolean
+          created_at: string
+          email: string | null
+          hubspot_owner_id: string
+          hubspot_teams: Json
+          id: string
+          last_synced_at: string | null
+          manager_id: string | null
+          name: string
+          plan_id: string | null
+          role: string
+          start_date: string | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          email?: string | null
+          hubspot_owner_id: string
+          hubspot_teams?: Json
+          id?: string
+          last_synced_at?: string | null
+          manager_id?: string | null
+          name: string
+          plan_id?: string | null
+          role: string
+          start_date?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          email?: string | null
+          hubspot_owner_id?: string
+          hubspot_teams?: Json
+          id?: string
+          last_synced_at?: string | null
+          manager_id?: string | null
+          name?: string
+          plan_id?: string | null
+          role?: string
+          start_date?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reps_manager_id_fkey"
+            columns: ["manager_id"]
+            isOneToOne: false
+            referencedRelation: "reps"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reps_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "commission_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_invites: {
+        Row: {
+          accepted_at: string | null
+          email: string
+          id: string
+          invited_at: string
+          invited_by: string | null
+          roles: Database["public"]["Enums"]["app_role"][]
+          user_id: string | null
+        }
+        Insert: {
+          accepted_at?: string | null
+          email: string
+          id?: string
+          invited_at?: string
+          invited_by?: string | null
+          roles: Database["public"]["Enums"]["app_role"][]
+          user_id?: string | null
+        }
+        Update: {
+          accepted_at?: string | null
+          email?: string
+          id?: string
+          invited_at?: string
+          invited_by?: string | null
+          roles?: Database["public"]["Enums"]["app_role"][]
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
         }
         Relationships: []
       }
@@ -106,10 +1020,207 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      can_view_rep: { Args: { _rep_id: string }; Returns: boolean }
+      claim_commission_job_tasks: {
+        Args: { p_limit: number; p_max_attempts: number; p_stale_after?: unknown }
+        Returns: {
+          attempts: number
+          created_at: string
+          error: string | null
+          finished_at: string | null
+          id: string
+          idempotency_key: string
+          job_id: string
+          locked_at: string | null
+          rep_id: string
+          rep_name: string
+          status: string
+          updated_at: string
+        }[]
+      }
+      claim_hubspot_statement_sync: {
+        Args: {
+          p_period_end: string
+          p_period_start: string
+          p_rep_id: string
+          p_stale_after?: unknown
+        }
+        Returns: boolean
+      }
+      close_commission_period: {
+        Args: { p_month: string; p_reason?: string }
+        Returns: {
+          closed_at: string | null
+          closed_by: string | null
+          created_at: string
+          id: string
+          month: string
+          status: string
+          updated_at: string
+        }
+      }
+      commission_settings_snapshot: {
+        Args: { s: Database["public"]["Tables"]["commission_settings"]["Row"] }
+        Returns: Json
+      }
+      crm_deals_as_of: {
+        Args: { p_sync_run_id: number }
+        Returns: {
+          archived: boolean
+          closedate: string | null
+          hubspot_id: string
+          last_modified_at: string | null
+          properties: Json
+          sync_run_id: number
+        }[]
+      }
+      crm_meetings_as_of: {
+        Args: { p_sync_run_id: number }
+        Returns: {
+          archived: boolean
+          deal_ids: string[]
+          hubspot_id: string
+          last_modified_at: string | null
+          properties: Json
+          start_time: string | null
+          sync_run_id: number
+        }[]
+      }
+      enqueue_commission_job: {
+        Args: {
+          p_crm_sync_run_id?: number
+          p_period_end: string
+          p_period_start: string
+          p_rep_ids: string[]
+          p_source?: string
+        }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          crm_sync_run_id: number | null
+          finished_at: string | null
+          id: string
+          period_end: string
+          period_start: string
+          source: string
+          started_at: string | null
+          status: string
+          updated_at: string
+        }
+      }
+      finish_commission_job_task: {
+        Args: { p_error?: string; p_status: string; p_task_id: string }
+        Returns: {
+          attempts: number
+          created_at: string
+          error: string | null
+          finished_at: string | null
+          id: string
+          idempotency_key: string
+          job_id: string
+          locked_at: string | null
+          rep_id: string
+          rep_name: string
+          status: string
+          updated_at: string
+        }
+      }
+      has_any_role: {
+        Args: { _roles: Database["public"]["Enums"]["app_role"][]; _user_id: string }
+        Returns: boolean
+      }
+      has_role: {
+        Args: { _role: Database["public"]["Enums"]["app_role"]; _user_id: string }
+        Returns: boolean
+      }
+      list_users_with_access: {
+        Args: never
+        Returns: {
+          created_at: string
+          email: string
+          last_sign_in_at: string | null
+          rep_id: string | null
+          rep_name: string | null
+          roles: Database["public"]["Enums"]["app_role"][]
+          user_id: string
+        }[]
+      }
+      manages_rep: { Args: { _rep_id: string }; Returns: boolean }
+      record_commission_run: {
+        Args: { p_line_items: Json; p_run: Json; p_total_commission: number }
+        Returns: Json
+      }
+      reopen_commission_period: {
+        Args: { p_month: string; p_reason: string }
+        Returns: {
+          closed_at: string | null
+          closed_by: string | null
+          created_at: string
+          id: string
+          month: string
+          status: string
+          updated_at: string
+        }
+      }
+      release_hubspot_statement_sync: {
+        Args: { p_period_end: string; p_period_start: string; p_rep_id: string }
+        Returns: undefined
+      }
+      revert_commission_settings: {
+        Args: { p_effective_from: string; p_settings_id: string }
+        Returns: {
+          ae_bracket_basis: string
+          ae_bracket_mode: string
+          ae_brackets: Json
+          ae_payment_term_bonuses: Json
+          ae_revenue_multiplier_brackets: Json
+          clawback_percent: number
+          clawback_window_days: number
+          created_at: string
+          effective_from: string
+          effective_to: string | null
+          id: string
+          marketing_inbound_percent: number
+          marketing_revenue_multiplier_brackets: Json
+          marketing_same_as_sdr: boolean
+          plan_id: string
+          sdr_closed_won_percent: number
+          sdr_meeting_tiers: Json
+          sdr_revenue_multiplier_brackets: Json
+          updated_at: string
+          version: number
+        }
+      }
+      transition_commission_statement: {
+        Args: { p_note?: string; p_statement_id: string; p_to_status: string }
+        Returns: {
+          created_at: string
+          id: string
+          period_end: string
+          period_start: string
+          rep_id: string
+          rep_name: string
+          run_log_id: string
+          status: string
+          status_changed_at: string
+          status_changed_by: string | null
+          team: string
+          total_commission: number
+          updated_at: string
+        }
+      }
+      update_user_access: {
+        Args: {
+          p_rep_id?: string
+          p_roles: Database["public"]["Enums"]["app_role"][]
+          p_user_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin" | "finance" | "manager" | "rep"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -236,6 +1347,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin", "finance", "manager", "rep"],
+    },
   },
 } as const
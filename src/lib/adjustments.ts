@@ -0,0 +1,15 @@
+import type { AdjustmentType } from "@/lib/commissionEngine";
+
+export const ADJUSTMENT_TYPE_LABELS: Record<AdjustmentType, string> = {
+  spiff: "SPIFF",
+  correction: "Correction",
+  draw: "Draw",
+  clawback: "Clawback",
+};
+
+/** SPIFFs and draws are always paid out and clawbacks always taken back; corrections keep their sign. */
+export function signedAmount(type: AdjustmentType, amount: number): number {
+  if (type === "clawback") return -Math.abs(amount);
+  if (type === "correction") return amount;
+  return Math.abs(amount);
+}
@@ -0,0 +1,37 @@
+// The mapping's shape comes from the edge functions that read it and check it against HubSpot.
+export type { HubSpotMapping, HubSpotMappingField, MappingProblem } from "../../supabase/functions/_shared/hubspotMapping.ts";
+import type { HubSpotMappingField } from "../../supabase/functions/_shared/hubspotMapping.ts";
+
+export interface HubSpotMappingFieldInfo {
+  field: HubSpotMappingField;
+  label: string;
+  description: string;
+}
+
+export const HUBSPOT_MAPPING_SECTIONS: { title: string; description: string; fields: HubSpotMappingFieldInfo[] }[] = [
+  {
+    title: "Deals",
+    description: "Deal properties commissions are calculated from",
+    fields: [
+      { field: "deal_amount_property", label: "Amount", description: "Number property with the deal's value" },
+      { field: "deal_sdr_owner_property", label: "SDR owner", description: "The SDR's name, email or owner id; empty for marketing deals" },
+      { field: "deal_channel_property", label: "Channel", description: "Marketing is credited for deals whose channel is inbound" },
+      { field: "deal_payment_terms_property", label: "Payment terms", description: "Matched against the plan's payment term bonuses" },
+    ],
+  },
+  {
+    title: "Meetings",
+    description: "Meeting properties that decide which meetings count toward SDR bonuses",
+    fields: [
+      { field: "meeting_type_property", label: "Meeting type", description: "Meetings count when the type is sales discovery" },
+      { field: "meeting_outcome_property", label: "Outcome", description: "Meetings count when the outcome is completed" },
+    ],
+  },
+  {
+    title: "Statements",
+    description: "The custom object approved statements are written to",
+    fields: [
+      { field: "statement_object_type", label: "Object type id", description: "Such as 2-12345678, from the object's settings in HubSpot" },
+    ],
+  },
+];
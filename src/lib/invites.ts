@@ -0,0 +1,2 @@
+// Invite checks are shared with the invite-user function, which runs them again before sending.
+export { isEmailDomainAllowed, normalizeDomains } from "../../supabase/functions/_shared/invites.ts";
@@ -0,0 +1,27 @@
+// Job shapes come from the edge functions that queue and report on commission jobs.
+export type {
+  CommissionJobStatus,
+  CommissionJobTaskStatus,
+  JobStatus,
+  JobTaskStatus,
+} from "../../supabase/functions/_shared/jobs.ts";
+import type { CommissionJobStatus, CommissionJobTaskStatus } from "../../supabase/functions/_shared/jobs.ts";
+
+export const JOB_STATUS_LABELS: Record<CommissionJobStatus, string> = {
+  queued: "Queued",
+  running: "Running",
+  succeeded: "Finished",
+  failed: "Finished with failures",
+};
+
+export const JOB_TASK_STATUS_LABELS: Record<CommissionJobTaskStatus, string> = {
+  pending: "Queued",
+  running: "Running",
+  succeeded: "Done",
+  failed: "Failed",
+  skipped: "Skipped",
+};
+
+export function isJobFinished(status: CommissionJobStatus): boolean {
+  return status === "succeeded" || status === "failed";
+}
@@ -0,0 +1,41 @@
+// Roles are checked again by row level security and the edge functions; these only decide
+// which pages and actions to offer.
+export { APP_ROLES, type AppRole } from "../../supabase/functions/_shared/auth.ts";
+import type { AppRole } from "../../supabase/functions/_shared/auth.ts";
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  admin: "Admin",
+  finance: "Finance",
+  manager: "Manager",
+  rep: "Rep",
+};
+
+export const ROLE_DESCRIPTIONS: Record<AppRole, string> = {
+  admin: "Edits plans, settings and the HubSpot mapping, and manages users",
+  finance: "Runs, approves and pays commissions for everyone",
+  manager: "Sees their team's commissions and submits them for review",
+  rep: "Sees their own commissions",
+};
+
+/** Who can open each page, in navigation order. */
+export const PAGE_ROLES: Record<string, AppRole[]> = {
+  "/my-commissions": ["manager", "rep"],
+  "/": ["admin", "finance"],
+  "/batch": ["admin", "finance"],
+  "/reps": ["admin"],
+  "/statements": ["admin", "finance", "manager", "rep"],
+  "/periods": ["admin", "finance"],
+  "/settings": ["admin"],
+  "/integration": ["admin"],
+  "/users": ["admin"],
+  "/logs": ["admin", "finance", "manager"],
+};
+
+export function hasAnyRole(roles: AppRole[] | undefined, allowed: AppRole[]): boolean {
+  return !!roles?.some((role) => allowed.includes(role));
+}
+
+/** The first page the user can open, or null if they have no role yet. */
+export function homePath(roles: AppRole[] | undefined): string | null {
+  return Object.keys(PAGE_ROLES).find((path) => hasAnyRole(roles, PAGE_ROLES[path])) ?? null;
+}
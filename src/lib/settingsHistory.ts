@@ -0,0 +1,2 @@
+// Diffs are worked out from the snapshots the database records with each saved plan version.
+export { diffSettings, type SettingsChange, type SettingsSnapshot } from "../../supabase/functions/_shared/settingsHistory.ts";
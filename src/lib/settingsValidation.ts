@@ -0,0 +1,2 @@
+// The same checks run server-side before any calculation uses a plan version.
+export { validateSettings, type SettingsProblem } from "../../supabase/functions/_shared/settingsValidation.ts";
@@ -0,0 +1,71 @@
+import type { AppRole } from "@/lib/roles";
+
+export type StatementStatus = "draft" | "submitted" | "approved" | "locked" | "paid" | "superseded";
+
+export const STATEMENT_STATUS_LABELS: Record<StatementStatus, string> = {
+  draft: "Draft",
+  submitted: "Submitted for review",
+  approved: "Approved",
+  locked: "Locked",
+  paid: "Paid",
+  superseded: "Superseded",
+};
+
+export interface StatementAction {
+  to: StatementStatus;
+  label: string;
+  variant?: "default" | "outline";
+  /** Who may make the move; transition_commission_statement checks this too. */
+  roles: AppRole[];
+}
+
+/** The moves transition_commission_statement allows from each status. */
+export const STATEMENT_ACTIONS: Record<StatementStatus, StatementAction[]> = {
+  draft: [{ to: "submitted", label: "Submit for review", roles: ["admin", "finance", "manager"] }],
+  submitted: [
+    { to: "approved", label: "Approve", roles: ["admin", "finance"] },
+    { to: "draft", label: "Send back", variant: "outline", roles: ["admin", "finance"] },
+  ],
+  approved: [{ to: "locked", label: "Lock", roles: ["admin", "finance"] }],
+  locked: [{ to: "paid", label: "Mark paid", roles: ["admin", "finance"] }],
+  paid: [],
+  // Replaced by a newer run's statement for the same rep and period
+  superseded: [],
+};
+
+export type HubSpotSyncStatus = "synced" | "out_of_date" | "never_synced";
+
+export const HUBSPOT_SYNC_STATUS_LABELS: Record<HubSpotSyncStatus, string> = {
+  synced: "Synced",
+  out_of_date: "Out of date",
+  never_synced: "Never synced",
+};
+
+export interface StatementSyncState {
+  rep_id: string;
+  period_start: string;
+  period_end: string;
+  hubspot_synced_hash: string | null;
+  hubspot_synced_at: string | null;
+}
+
+/**
+ * Whether HubSpot holds this statement's figures. A rep's statements for a period share one
+ * HubSpot record, so it's the latest sync among them that counts.
+ */
+export function hubSpotSyncStatus(statement: StatementSyncState, synced: StatementSyncState[]): HubSpotSyncStatus {
+  let latest: StatementSyncState | undefined;
+  for (const other of synced) {
+    if (
+      other.rep_id === statement.rep_id &&
+      other.period_start === statement.period_start &&
+      other.period_end === statement.period_end &&
+      other.hubspot_synced_at &&
+      (!latest || other.hubspot_synced_at > latest.hubspot_synced_at!)
+    ) {
+      latest = other;
+    }
+  }
+  if (!latest) return "never_synced";
+  return statement.hubspot_synced_hash === latest.hubspot_synced_hash ? "synced" : "out_of_date";
+}
@@ -0,0 +1,393 @@
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CalendarIcon } from "lucide-react";
+import { toast } from "sonner";
+import { endOfMonth, format, startOfMonth, subMonths } from "date-fns";
+import Layout from "@/components/Layout";
+import { useReps } from "@/hooks/use-reps";
+import {
+  type CommissionJobStatus,
+  isJobFinished,
+  JOB_STATUS_LABELS,
+  JOB_TASK_STATUS_LABELS,
+  type JobStatus,
+} from "@/lib/jobs";
+
+const ROLES = ["AE", "SDR", "Marketing"];
+const POLL_INTERVAL_MS = 2000;
+
+export default function BatchRun() {
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const jobId = searchParams.get("job");
+  const [startDate, setStartDate] = useState<Date>(startOfMonth(subMonths(new Date(), 1)));
+  const [endDate, setEndDate] = useState<Date>(endOfMonth(subMonths(new Date(), 1)));
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const { data: reps, isLoading: isLoadingReps } = useReps();
+  const activeReps = reps?.filter((rep) => rep.active) || [];
+  const hubspotTeams = [...new Set(activeReps.flatMap((rep) => rep.hubspot_teams.map((team) => team.name)))].sort();
+
+  const { data: recentJobs } = useQuery({
+    queryKey: ["commission-jobs"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("commission_jobs")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(10);
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // The worker runs the job in the background; poll its status until every rep is done
+  const { data: jobStatus } = useQuery({
+    queryKey: ["commission-job", jobId],
+    enabled: !!jobId,
+    queryFn: async () => {
+      const response = await supabase.functions.invoke("commission-job-status", { body: { jobId } });
+      if (response.error) throw response.error;
+      return response.data as JobStatus;
+    },
+    refetchInterval: (query) =>
+      query.state.data && isJobFinished(query.state.data.job.status) ? false : POLL_INTERVAL_MS,
+  });
+
+  const jobFinished = !!jobStatus && isJobFinished(jobStatus.job.status);
+
+  useEffect(() => {
+    if (jobFinished) {
+      queryClient.invalidateQueries({ queryKey: ["commission-jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["commission-statements"] });
+    }
+  }, [jobFinished, queryClient]);
+
+  const enqueueMutation = useMutation({
+    mutationFn: async ({
+      repIds,
+      periodStart,
+      periodEnd,
+      crmSyncRunId,
+    }: {
+      repIds: string[];
+      periodStart: string;
+      periodEnd: string;
+      /** The CRM snapshot to calculate from; the latest completed one when left out */
+      crmSyncRunId?: number;
+    }) => {
+      const { data: job, error } = await supabase.rpc("enqueue_commission_job", {
+        p_period_start: periodStart,
+        p_period_end: periodEnd,
+        p_rep_ids: repIds,
+        p_crm_sync_run_id: crmSyncRunId,
+      });
+      if (error) throw error;
+
+      // Start the worker now rather than waiting for its next scheduled run
+      const response = await supabase.functions.invoke("process-commission-jobs");
+      if (response.error) throw response.error;
+      return job;
+    },
+    onSuccess: (job) => {
+      setSearchParams({ job: job.id });
+      queryClient.invalidateQueries({ queryKey: ["commission-jobs"] });
+      toast.success("Commission job queued");
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to queue commission job");
+    },
+  });
+
+  const toggleRep = (repId: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(repId);
+    else next.delete(repId);
+    setSelected(next);
+  };
+
+  // Adds every active rep with the given role or HubSpot team to the selection
+  const selectTeam = (matches: (rep: (typeof activeReps)[number]) => boolean) => {
+    setSelected(new Set([...selected, ...activeReps.filter(matches).map((rep) => rep.hubspot_owner_id)]));
+  };
+
+  const startRun = () => {
+    enqueueMutation.mutate({
+      repIds: [...selected],
+      periodStart: startDate.toISOString(),
+      periodEnd: endDate.toISOString(),
+    });
+  };
+
+  // Failed reps go into a new job for the same period and CRM snapshot as the one they failed in,
+  // so their figures line up with the reps that succeeded
+  const retryFailed = () => {
+    if (!jobStatus) return;
+    enqueueMutation.mutate({
+      repIds: jobStatus.tasks.filter((task) => task.status === "failed").map((task) => task.repId),
+      periodStart: jobStatus.job.period_start,
+      periodEnd: jobStatus.job.period_end,
+      crmSyncRunId: jobStatus.job.crm_sync_run_id,
+    });
+  };
+
+  const tasks = jobStatus?.tasks || [];
+  const counts = jobStatus?.counts;
+  const finished = counts ? counts.succeeded + counts.failed + counts.skipped : 0;
+  const totals = tasks.reduce(
+    (sum, task) => ({
+      revenue: sum.revenue + (task.totalRevenue ?? 0),
+      commission: sum.commission + (task.totalCommission ?? 0),
+    }),
+    { revenue: 0, commission: 0 }
+  );
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground">Run All Reps</h2>
+          <p className="mt-2 text-muted-foreground">
+            Calculate a period for many reps at once; each rep gets its own run log and draft statement
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Batch Parameters</CardTitle>
+            <CardDescription>Choose the period and the reps or teams to calculate</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Start Date</Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button variant="outline" className="w-full justify-start text-left font-normal">
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {format(startDate, "PPP")}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0">
+                    <Calendar mode="single" selected={startDate} onSelect={(date) => date && setStartDate(date)} />
+                  </PopoverContent>
+                </Popover>
+              </div>
+              <div>
+                <Label>End Date</Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button variant="outline" className="w-full justify-start text-left font-normal">
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {format(endDate, "PPP")}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0">
+                    <Calendar mode="single" selected={endDate} onSelect={(date) => date && setEndDate(date)} />
+                  </PopoverContent>
+                </Popover>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Add a team</Label>
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" variant="outline" onClick={() => selectTeam(() => true)}>
+                  All active reps
+                </Button>
+                {ROLES.map((role) => (
+                  <Button key={role} size="sm" variant="outline" onClick={() => selectTeam((rep) => rep.role === role)}>
+                    {role}
+                  </Button>
+                ))}
+                {hubspotTeams.map((team) => (
+                  <Button
+                    key={team}
+                    size="sm"
+                    variant="outline"
+                    onClick={() => selectTeam((rep) => rep.hubspot_teams.some((t) => t.name === team))}
+                  >
+                    {team}
+                  </Button>
+                ))}
+                <Button size="sm" variant="ghost" onClick={() => setSelected(new Set())}>
+                  Clear
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>
+                Reps ({selected.size} of {activeReps.length} selected)
+              </Label>
+              {isLoadingReps ? (
+                <div>Loading reps...</div>
+              ) : (
+                <div className="grid grid-cols-1 gap-2 sm:grid-cols-2 lg:grid-cols-3">
+                  {activeReps.map((rep) => (
+                    <label key={rep.hubspot_owner_id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={selected.has(rep.hubspot_owner_id)}
+                        onCheckedChange={(checked) => toggleRep(rep.hubspot_owner_id, checked === true)}
+                      />
+                      {rep.name}
+                      <Badge variant="outline">{rep.role}</Badge>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <Button onClick={startRun} disabled={selected.size === 0 || enqueueMutation.isPending} className="w-full">
+              {enqueueMutation.isPending ? "Queueing..." : `Run ${selected.size} Reps`}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {jobStatus && counts && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <div>
+                <CardTitle>Summary</CardTitle>
+                <CardDescription>
+                  {format(new Date(jobStatus.job.period_start), "MMM d, yyyy")} to{" "}
+                  {format(new Date(jobStatus.job.period_end), "MMM d, yyyy")} - {JOB_STATUS_LABELS[jobStatus.job.status]},{" "}
+                  {finished} of {tasks.length} reps finished
+                </CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                onClick={retryFailed}
+                disabled={!jobFinished || counts.failed === 0 || enqueueMutation.isPending}
+              >
+                Retry {counts.failed} Failed
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Progress value={tasks.length > 0 ? (finished / tasks.length) * 100 : 100} />
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rep</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Plan</TableHead>
+                    <TableHead>Revenue</TableHead>
+                    <TableHead>Commission</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tasks.map((task) => (
+                    <TableRow key={task.id}>
+                      <TableCell className="font-medium">{task.repName}</TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={
+                            task.status === "failed" ? "destructive" : task.status === "succeeded" ? "default" : "secondary"
+                          }
+                        >
+                          {JOB_TASK_STATUS_LABELS[task.status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{task.planName || "—"}</TableCell>
+                      <TableCell>{task.totalRevenue === null ? "—" : `$${task.totalRevenue.toLocaleString()}`}</TableCell>
+                      <TableCell className="font-semibold">
+                        {task.totalCommission === null
+                          ? "—"
+                          : `$${task.totalCommission.toLocaleString(undefined, { maximumFractionDigits: 2 })}`}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {task.error ? (
+                          <span className={task.status === "failed" ? "text-destructive" : ""}>
+                            {task.error}
+                            {task.status === "pending" && ` (retrying, attempt ${task.attempts})`}
+                          </span>
+                        ) : task.statementStatus === "superseded" ? (
+                          "Statement superseded by an approved or newer one"
+                        ) : task.statementId ? (
+                          "Draft statement created"
+                        ) : (
+                          "—"
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={3}>Total ({counts.succeeded} reps)</TableCell>
+                    <TableCell>${totals.revenue.toLocaleString()}</TableCell>
+                    <TableCell className="font-semibold">
+                      ${totals.commission.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                    </TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Jobs</CardTitle>
+            <CardDescription>Last 10 batch runs, including the monthly cron's</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {recentJobs && recentJobs.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Queued</TableHead>
+                    <TableHead>Period</TableHead>
+                    <TableHead>By</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {recentJobs.map((job) => (
+                    <TableRow key={job.id}>
+                      <TableCell>{format(new Date(job.created_at), "PPP p")}</TableCell>
+                      <TableCell>
+                        {format(new Date(job.period_start), "MMM d")} - {format(new Date(job.period_end), "MMM d, yyyy")}
+                      </TableCell>
+                      <TableCell>{job.source === "cron" ? "Monthly cron" : job.created_by_email || "—"}</TableCell>
+                      <TableCell>
+                        <Badge variant={job.status === "failed" ? "destructive" : "secondary"}>
+                          {JOB_STATUS_LABELS[job.status as CommissionJobStatus]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant={job.id === jobId ? "default" : "ghost"}
+                          onClick={() => setSearchParams({ job: job.id })}
+                        >
+                          View
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground">No batch runs yet.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+}
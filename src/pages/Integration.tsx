@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import Layout from "@/components/Layout";
+import {
+  HUBSPOT_MAPPING_SECTIONS,
+  type HubSpotMapping,
+  type HubSpotMappingField,
+  type MappingProblem,
+} from "@/lib/hubspotMapping";
+
+interface MappingCheck {
+  valid: boolean;
+  problems: MappingProblem[];
+  saved: boolean;
+}
+
+export default function Integration() {
+  const queryClient = useQueryClient();
+  const [values, setValues] = useState<Partial<HubSpotMapping>>({});
+  const [check, setCheck] = useState<MappingCheck | null>(null);
+
+  const { data: mapping, isLoading } = useQuery({
+    queryKey: ["hubspot-mapping"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("hubspot_mapping").select("*").limit(1).maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  useEffect(() => {
+    if (mapping) setValues(mapping);
+  }, [mapping]);
+
+  // The function checks every name against HubSpot and only saves a mapping with no problems
+  const checkMutation = useMutation({
+    mutationFn: async (save: boolean) => {
+      const response = await supabase.functions.invoke("hubspot-mapping", {
+        body: { mapping: values, save },
+      });
+      if (response.error) throw response.error;
+      return response.data as MappingCheck;
+    },
+    onSuccess: (result) => {
+      setCheck(result);
+      if (result.saved) {
+        queryClient.invalidateQueries({ queryKey: ["hubspot-mapping"] });
+        toast.success("HubSpot mapping saved");
+      } else if (result.valid) {
+        toast.success("Every property was found in HubSpot");
+      } else {
+        toast.error(`${result.problems.length} problem${result.problems.length === 1 ? "" : "s"} found; nothing was saved`);
+      }
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to check the mapping against HubSpot");
+    },
+  });
+
+  const problemsFor = (field: HubSpotMappingField) => check?.problems.filter((problem) => problem.field === field) ?? [];
+
+  const setValue = (field: HubSpotMappingField, value: string) => {
+    setValues((current) => ({ ...current, [field]: value }));
+    setCheck(null);
+  };
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <div>Loading...</div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground">Integration</h2>
+          <p className="mt-2 text-muted-foreground">
+            Map our HubSpot portal's objects and property names. Pointing a field at a property no earlier sync read
+            makes the next CRM sync read every deal and meeting again.
+          </p>
+        </div>
+
+        {HUBSPOT_MAPPING_SECTIONS.map((section) => (
+          <Card key={section.title}>
+            <CardHeader>
+              <CardTitle>{section.title}</CardTitle>
+              <CardDescription>{section.description}</CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-4 md:grid-cols-2">
+              {section.fields.map(({ field, label, description }) => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={field}>{label}</Label>
+                  <Input
+                    id={field}
+                    value={values[field] ?? ""}
+                    onChange={(e) => setValue(field, e.target.value)}
+                    className={problemsFor(field).length > 0 ? "border-destructive" : undefined}
+                  />
+                  <p className="text-xs text-muted-foreground">{description}</p>
+                  {problemsFor(field).map((problem) => (
+                    <p key={problem.message} className="text-sm text-destructive">
+                      {problem.message}
+                    </p>
+                  ))}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        ))}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" disabled={checkMutation.isPending} onClick={() => checkMutation.mutate(false)}>
+            Check Against HubSpot
+          </Button>
+          <Button disabled={checkMutation.isPending} onClick={() => checkMutation.mutate(true)}>
+            {checkMutation.isPending ? "Checking..." : "Save Mapping"}
+          </Button>
+        </div>
+      </div>
+    </Layout>
+  );
+}
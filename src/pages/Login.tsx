@@ -13,30 +13,19 @@ export default function Login() {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
-  const [isSignUp, setIsSignUp] = useState(false);
 
   const handleAuth = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
     try {
-      if (isSignUp) {
-        const { error } = await supabase.auth.signUp({
-          email,
-          password,
-        });
-        if (error) throw error;
-        toast.success("Account created! Please log in.");
-        setIsSignUp(false);
-      } else {
-        const { error } = await supabase.auth.signInWithPassword({
-          email,
-          password,
-        });
-        if (error) throw error;
-        toast.success("Logged in successfully");
-        navigate("/");
-      }
+      const { error } = await supabase.auth.signInWithPassword({
+        email,
+        password,
+      });
+      if (error) throw error;
+      toast.success("Logged in successfully");
+      navigate("/");
     } catch (error: any) {
       toast.error(error.message);
     } finally {
@@ -51,7 +40,7 @@ export default function Login() {
           <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-primary">
             <DollarSign className="h-6 w-6 text-primary-foreground" />
           </div>
-          <CardTitle>{isSignUp ? "Create Account" : "Sign In"}</CardTitle>
+          <CardTitle>Sign In</CardTitle>
           <CardDescription>Commission Hub - Automated Commission Management</CardDescription>
         </CardHeader>
         <CardContent>
@@ -77,16 +66,11 @@ export default function Login() {
               />
             </div>
             <Button type="submit" className="w-full" disabled={isLoading}>
-              {isLoading ? "Loading..." : isSignUp ? "Sign Up" : "Sign In"}
-            </Button>
-            <Button
-              type="button"
-              variant="ghost"
-              className="w-full"
-              onClick={() => setIsSignUp(!isSignUp)}
-            >
-              {isSignUp ? "Already have an account? Sign In" : "Need an account? Sign Up"}
+              {isLoading ? "Loading..." : "Sign In"}
             </Button>
+            <p className="text-center text-sm text-muted-foreground">
+              Accounts are by invitation. Ask an admin to invite you.
+            </p>
           </form>
         </CardContent>
       </Card>
@@ -1,18 +1,25 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import LineItemsTable from "@/components/LineItemsTable";
+import { useLineItems } from "@/hooks/use-line-items";
 import { format } from "date-fns";
 import Layout from "@/components/Layout";
 
 export default function Logs() {
+  const [selectedLog, setSelectedLog] = useState<{ id: string; rep_name: string } | null>(null);
+
   const { data: logs, isLoading } = useQuery({
     queryKey: ["commission-logs"],
     queryFn: async () => {
       const { data, error } = await supabase
         .from("commission_run_logs")
-        .select("*")
+        .select("*, commission_settings(version)")
         .order("run_date", { ascending: false })
         .limit(50);
       if (error) throw error;
@@ -20,6 +27,8 @@ export default function Logs() {
     },
   });
 
+  const { data: lineItems, isLoading: isLoadingLineItems } = useLineItems(selectedLog?.id);
+
   return (
     <Layout>
       <div className="space-y-6">
@@ -45,7 +54,10 @@ export default function Logs() {
                     <TableHead>Team</TableHead>
                     <TableHead>Period</TableHead>
                     <TableHead>Total Commission</TableHead>
+                    <TableHead>Plan</TableHead>
+                    <TableHead>CRM Snapshot</TableHead>
                     <TableHead>Status</TableHead>
+                    <TableHead></TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -65,6 +77,10 @@ export default function Logs() {
                         <TableCell className="font-semibold">
                           ${commission?.totalCommission?.toLocaleString() || 0}
                         </TableCell>
+                        <TableCell>
+                          {log.commission_settings ? `v${log.commission_settings.version}` : "—"}
+                        </TableCell>
+                        <TableCell>{log.crm_sync_run_id ? `#${log.crm_sync_run_id}` : "—"}</TableCell>
                         <TableCell>
                           {log.success ? (
                             <Badge variant="default" className="bg-success">Success</Badge>
@@ -72,6 +88,13 @@ export default function Logs() {
                             <Badge variant="destructive">Failed</Badge>
                           )}
                         </TableCell>
+                        <TableCell>
+                          {log.success && (
+                            <Button variant="ghost" size="sm" onClick={() => setSelectedLog(log)}>
+                              Line items
+                            </Button>
+                          )}
+                        </TableCell>
                       </TableRow>
                     );
                   })}
@@ -80,6 +103,16 @@ export default function Logs() {
             )}
           </CardContent>
         </Card>
+
+        <Dialog open={!!selectedLog} onOpenChange={(open) => !open && setSelectedLog(null)}>
+          <DialogContent className="max-w-4xl">
+            <DialogHeader>
+              <DialogTitle>Line Items</DialogTitle>
+              <DialogDescription>Every deal, meeting and adjustment credited to {selectedLog?.rep_name} in this run</DialogDescription>
+            </DialogHeader>
+            {isLoadingLineItems ? <div>Loading...</div> : <LineItemsTable lineItems={lineItems || []} />}
+          </DialogContent>
+        </Dialog>
       </div>
     </Layout>
   );
@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { format } from "date-fns";
+import Layout from "@/components/Layout";
+import LineItemsTable from "@/components/LineItemsTable";
+import { useLineItems } from "@/hooks/use-line-items";
+import type { BracketStanding, CommissionResult } from "@/lib/commissionEngine";
+import { STATEMENT_STATUS_LABELS, type StatementStatus } from "@/lib/statements";
+
+interface RunningTotal {
+  rep: { id: string; name: string; role: string } | null;
+  result?: CommissionResult;
+  standing?: BracketStanding | null;
+  syncedAt?: string | null;
+}
+
+// Brackets and tiers in the unit they're measured in
+function formatMeasure(measure: BracketStanding["measure"], value: number): string {
+  if (measure === "revenue") return `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+  if (measure === "attainment") return `${value.toLocaleString(undefined, { maximumFractionDigits: 1 })}%`;
+  return `${value} meeting${value === 1 ? "" : "s"}`;
+}
+
+function formatRate(measure: BracketStanding["measure"], rate: number): string {
+  return measure === "weekly_meetings" ? `$${rate.toLocaleString()} per meeting` : `${rate}%`;
+}
+
+const MEASURE_LABELS: Record<BracketStanding["measure"], string> = {
+  revenue: "Closed won revenue this month",
+  attainment: "Quota attained this month",
+  weekly_meetings: "Qualifying meetings this week",
+};
+
+function StandingCard({ standing }: { standing: BracketStanding }) {
+  const { measure, value, current, next, toNext } = standing;
+  // How far through the current bracket the rep is, towards the next one
+  const from = current?.min ?? 0;
+  const progress = next ? ((value - from) / (next.min - from)) * 100 : 100;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Where You Stand</CardTitle>
+        <CardDescription>{MEASURE_LABELS[measure]}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end justify-between">
+          <p className="text-2xl font-bold text-foreground">{formatMeasure(measure, value)}</p>
+          {current ? (
+            <Badge variant="secondary">
+              {formatMeasure(measure, current.min)} - {current.max === null ? "and up" : formatMeasure(measure, current.max)}{" "}
+              at {formatRate(measure, current.rate)}
+            </Badge>
+          ) : (
+            <Badge variant="outline">Below the first {measure === "weekly_meetings" ? "tier" : "bracket"}</Badge>
+          )}
+        </div>
+        <Progress value={Math.max(0, Math.min(progress, 100))} />
+        <p className="text-sm text-muted-foreground">
+          {next && toNext !== null
+            ? `${formatMeasure(measure, toNext)} more ${measure === "weekly_meetings" ? "this week " : ""}reaches ${formatRate(measure, next.rate)}.`
+            : `You're in the top ${measure === "weekly_meetings" ? "tier" : "bracket"}.`}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function MyCommissions() {
+  const [selectedStatement, setSelectedStatement] = useState<{ run_log_id: string; period_start: string } | null>(null);
+
+  // Calculated on the fly from the latest CRM sync; nothing is recorded
+  const { data: running, isLoading, error } = useQuery({
+    queryKey: ["my-commissions"],
+    queryFn: async () => {
+      const response = await supabase.functions.invoke("my-commissions");
+      if (response.error) throw response.error;
+      return response.data as RunningTotal;
+    },
+  });
+
+  const repId = running?.rep?.id;
+  const { data: statements, isLoading: isLoadingStatements } = useQuery({
+    queryKey: ["commission-statements", "mine", repId],
+    enabled: !!repId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("commission_statements")
+        .select("*")
+        .eq("rep_id", repId!)
+        .neq("status", "superseded")
+        .order("period_start", { ascending: false })
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: lineItems, isLoading: isLoadingLineItems } = useLineItems(selectedStatement?.run_log_id);
+
+  const result = running?.result;
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground">My Commissions</h2>
+          <p className="mt-2 text-muted-foreground">
+            {result
+              ? `${format(new Date(result.periodStart), "MMMM yyyy")} so far${running?.syncedAt ? `, as of the CRM sync at ${format(new Date(running.syncedAt), "PPP p")}` : ""}. Figures are final once finance approves your statement.`
+              : "Your running total this month and your statements"}
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div>Loading...</div>
+        ) : error ? (
+          <Card>
+            <CardContent className="pt-6 text-sm text-destructive">
+              {(error as Error).message || "Failed to calculate your commission"}
+            </CardContent>
+          </Card>
+        ) : !running?.rep ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>Your account isn't linked to a rep</CardTitle>
+              <CardDescription>
+                Accounts are linked to HubSpot owners by email once the email is confirmed. If your HubSpot email is
+                different, ask an admin to link you on the Users page.
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        ) : (
+          <>
+            {result && (
+              <div className="grid gap-6 md:grid-cols-2">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>This Month</CardTitle>
+                    <CardDescription>
+                      {running.rep.name} on {result.planName}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="grid grid-cols-2 gap-4">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Total Commission</p>
+                      <p className="text-2xl font-bold text-success">
+                        ${result.totalCommission.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Closed Won Revenue</p>
+                      <p className="text-2xl font-bold text-foreground">${result.totalRevenue.toLocaleString()}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Deal Commission</p>
+                      <p className="text-xl font-semibold text-foreground">
+                        ${result.dealCommission.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Meeting Bonus</p>
+                      <p className="text-xl font-semibold text-foreground">${result.meetingBonus.toLocaleString()}</p>
+                    </div>
+                  </CardContent>
+                </Card>
+                {running.standing && <StandingCard standing={running.standing} />}
+              </div>
+            )}
+
+            {result && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>This Month's Line Items</CardTitle>
+                  <CardDescription>Every deal, meeting and adjustment behind this month's total so far</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <LineItemsTable lineItems={result.lineItems} />
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Statements</CardTitle>
+                <CardDescription>Your statements from earlier runs, newest period first</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {isLoadingStatements ? (
+                  <div>Loading...</div>
+                ) : !statements || statements.length === 0 ? (
+                  <div className="text-sm text-muted-foreground">No statements yet.</div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Period</TableHead>
+                        <TableHead>Total Commission</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Last Change</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {statements.map((statement) => {
+                        const status = statement.status as StatementStatus;
+                        return (
+                          <TableRow key={statement.id}>
+                            <TableCell>
+                              {format(new Date(statement.period_start), "MMM d")} -{" "}
+                              {format(new Date(statement.period_end), "MMM d, yyyy")}
+                            </TableCell>
+                            <TableCell className="font-semibold">
+                              ${Number(statement.total_commission).toLocaleString()}
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant={status === "paid" || status === "approved" ? "default" : "secondary"}>
+                                {STATEMENT_STATUS_LABELS[status]}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>{format(new Date(statement.status_changed_at), "PPP p")}</TableCell>
+                            <TableCell className="text-right">
+                              <Button variant="ghost" size="sm" onClick={() => setSelectedStatement(statement)}>
+                                Line items
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        <Dialog open={!!selectedStatement} onOpenChange={(open) => !open && setSelectedStatement(null)}>
+          <DialogContent className="max-w-4xl">
+            <DialogHeader>
+              <DialogTitle>Line Items</DialogTitle>
+              <DialogDescription>
+                Every deal, meeting and adjustment behind your{" "}
+                {selectedStatement && format(new Date(selectedStatement.period_start), "MMMM yyyy")} statement
+              </DialogDescription>
+            </DialogHeader>
+            {isLoadingLineItems ? <div>Loading...</div> : <LineItemsTable lineItems={lineItems || []} />}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { format, parseISO, startOfMonth, subMonths } from "date-fns";
+import Layout from "@/components/Layout";
+
+const MONTHS_SHOWN = 12;
+
+// yyyy-MM-dd month starts, current month first
+function recentMonths(): string[] {
+  const thisMonth = startOfMonth(new Date());
+  return Array.from({ length: MONTHS_SHOWN }, (_, i) => format(subMonths(thisMonth, i), "yyyy-MM-dd"));
+}
+
+export default function Periods() {
+  const queryClient = useQueryClient();
+  const [reopening, setReopening] = useState<string | null>(null);
+  const [reason, setReason] = useState("");
+
+  const { data: periods, isLoading } = useQuery({
+    queryKey: ["commission-periods"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("commission_periods").select("*").order("month", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: events } = useQuery({
+    queryKey: ["commission-period-events"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("commission_period_events")
+        .select("*, commission_periods(month)")
+        .order("created_at", { ascending: false })
+        .limit(20);
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["commission-periods"] });
+    queryClient.invalidateQueries({ queryKey: ["commission-period-events"] });
+  };
+
+  const closeMutation = useMutation({
+    mutationFn: async (month: string) => {
+      const { error } = await supabase.rpc("close_commission_period", { p_month: month });
+      if (error) throw error;
+    },
+    onSuccess: (_data, month) => {
+      invalidate();
+      toast.success(`${format(parseISO(month), "MMMM yyyy")} closed`);
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to close period");
+    },
+  });
+
+  const reopenMutation = useMutation({
+    mutationFn: async ({ month, reason }: { month: string; reason: string }) => {
+      const { error } = await supabase.rpc("reopen_commission_period", { p_month: month, p_reason: reason });
+      if (error) throw error;
+    },
+    onSuccess: (_data, { month }) => {
+      invalidate();
+      setReopening(null);
+      setReason("");
+      toast.success(`${format(parseISO(month), "MMMM yyyy")} reopened`);
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to reopen period");
+    },
+  });
+
+  const periodsByMonth = new Map((periods || []).map((p) => [p.month, p]));
+  // Recent months plus any older month that has ever been closed
+  const months = [...new Set([...recentMonths(), ...(periods || []).map((p) => p.month)])].sort().reverse();
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground">Periods</h2>
+          <p className="mt-2 text-muted-foreground">
+            Close paid months so they can't be recalculated or synced to HubSpot again
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Commission Periods</CardTitle>
+            <CardDescription>Reopening a closed month requires a reason, which is kept in the log below</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div>Loading...</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Month</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Closed</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {months.map((month) => {
+                    const period = periodsByMonth.get(month);
+                    const isClosed = period?.status === "closed";
+                    return (
+                      <TableRow key={month}>
+                        <TableCell className="font-medium">{format(parseISO(month), "MMMM yyyy")}</TableCell>
+                        <TableCell>
+                          {isClosed ? <Badge>Closed</Badge> : <Badge variant="secondary">Open</Badge>}
+                        </TableCell>
+                        <TableCell>{isClosed && period.closed_at ? format(new Date(period.closed_at), "PPP p") : "—"}</TableCell>
+                        <TableCell className="text-right">
+                          {isClosed ? (
+                            <Button size="sm" variant="outline" onClick={() => setReopening(month)}>
+                              Reopen
+                            </Button>
+                          ) : (
+                            <Button size="sm" onClick={() => closeMutation.mutate(month)} disabled={closeMutation.isPending}>
+                              Close
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Activity</CardTitle>
+            <CardDescription>Last 20 closes and reopens</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {events && events.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Month</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>By</TableHead>
+                    <TableHead>Reason</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {events.map((event) => (
+                    <TableRow key={event.id}>
+                      <TableCell>{format(new Date(event.created_at), "PPP p")}</TableCell>
+                      <TableCell>
+                        {event.commission_periods ? format(parseISO(event.commission_periods.month), "MMMM yyyy") : "—"}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={event.action === "close" ? "default" : "outline"}>
+                          {event.action === "close" ? "Closed" : "Reopened"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{event.actor_email || event.actor_id || "—"}</TableCell>
+                      <TableCell>{event.reason || "—"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground">No periods have been closed yet.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog
+          open={!!reopening}
+          onOpenChange={(open) => {
+            if (!open) {
+              setReopening(null);
+              setReason("");
+            }
+          }}
+        >
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Reopen {reopening && format(parseISO(reopening), "MMMM yyyy")}</DialogTitle>
+              <DialogDescription>
+                Reopening lets the month be recalculated and synced to HubSpot again.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="reopen-reason">Reason</Label>
+              <Textarea
+                id="reopen-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Deal 1234 was booked in the wrong month"
+              />
+            </div>
+            <DialogFooter>
+              <Button
+                onClick={() => reopening && reopenMutation.mutate({ month: reopening, reason: reason.trim() })}
+                disabled={!reason.trim() || reopenMutation.isPending}
+              >
+                {reopenMutation.isPending ? "Reopening..." : "Reopen period"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </Layout>
+  );
+}
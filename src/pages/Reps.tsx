@@ -0,0 +1,268 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import Layout from "@/components/Layout";
+import { useReps } from "@/hooks/use-reps";
+
+type Role = "AE" | "SDR" | "Marketing";
+
+type RepDraft = {
+  role: Role;
+  plan_id: string | null;
+  start_date: string;
+  active: boolean;
+  manager_id: string | null;
+};
+
+// Radix selects can't hold an empty value, so "none" stands in for null
+const NONE = "none";
+
+export default function Reps() {
+  const queryClient = useQueryClient();
+  const [drafts, setDrafts] = useState<Record<string, RepDraft>>({});
+
+  const { data: reps, isLoading } = useReps();
+
+  const { data: plans } = useQuery({
+    queryKey: ["commission-plans"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("commission_plans")
+        .select("*")
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  useEffect(() => {
+    if (reps) {
+      const next: Record<string, RepDraft> = {};
+      reps.forEach((rep) => {
+        next[rep.id] = {
+          role: rep.role as Role,
+          plan_id: rep.plan_id,
+          start_date: rep.start_date ?? "",
+          active: rep.active,
+          manager_id: rep.manager_id,
+        };
+      });
+      setDrafts(next);
+    }
+  }, [reps]);
+
+  const syncMutation = useMutation({
+    mutationFn: async () => {
+      const response = await supabase.functions.invoke("fetch-hubspot-owners");
+      if (response.error) throw response.error;
+      return response.data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["reps"] });
+      toast.success(`Synced ${data?.reps?.length ?? 0} reps from HubSpot`);
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to sync reps from HubSpot");
+    },
+  });
+
+  const changedReps = (reps || []).filter((rep) => {
+    const draft = drafts[rep.id];
+    return (
+      draft &&
+      (draft.role !== rep.role ||
+        draft.plan_id !== rep.plan_id ||
+        draft.start_date !== (rep.start_date ?? "") ||
+        draft.active !== rep.active ||
+        draft.manager_id !== rep.manager_id)
+    );
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      for (const rep of changedReps) {
+        const draft = drafts[rep.id];
+        const { error } = await supabase
+          .from("reps")
+          .update({ ...draft, start_date: draft.start_date || null })
+          .eq("id", rep.id);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["reps"] });
+      toast.success("Reps saved successfully");
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to save reps");
+    },
+  });
+
+  const updateDraft = (repId: string, patch: Partial<RepDraft>) => {
+    setDrafts({ ...drafts, [repId]: { ...drafts[repId], ...patch } });
+  };
+
+  // A rep's plan must pay with the rep's role, so changing role drops a plan that no longer fits
+  const updateRole = (repId: string, role: Role) => {
+    const plan = plans?.find((p) => p.id === drafts[repId]?.plan_id);
+    updateDraft(repId, { role, plan_id: plan && plan.role === role ? plan.id : null });
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex items-start justify-between">
+          <div>
+            <h2 className="text-3xl font-bold text-foreground">Reps</h2>
+            <p className="mt-2 text-muted-foreground">
+              HubSpot owners and how they are paid. Name, email and teams come from HubSpot; everything else is set here.
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => syncMutation.mutate()} disabled={syncMutation.isPending}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${syncMutation.isPending ? "animate-spin" : ""}`} />
+            {syncMutation.isPending ? "Syncing..." : "Sync from HubSpot"}
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Rep Directory</CardTitle>
+            <CardDescription>
+              Reps without a plan are paid on their team's plan, or the default plan for their role. Inactive reps and
+              reps who start after a period ends are skipped by monthly runs.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoading ? (
+              <div>Loading...</div>
+            ) : !reps || reps.length === 0 ? (
+              <div className="text-sm text-muted-foreground">No reps yet. Sync from HubSpot to load them.</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rep</TableHead>
+                    <TableHead>HubSpot Teams</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Plan</TableHead>
+                    <TableHead>Start Date</TableHead>
+                    <TableHead>Manager</TableHead>
+                    <TableHead>Active</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {reps.map((rep) => {
+                    const draft = drafts[rep.id];
+                    if (!draft) return null;
+                    return (
+                      <TableRow key={rep.id}>
+                        <TableCell>
+                          <div className="font-medium">{rep.name}</div>
+                          <div className="text-sm text-muted-foreground">{rep.email}</div>
+                          {rep.last_synced_at && (
+                            <div className="text-xs text-muted-foreground">
+                              Synced {format(new Date(rep.last_synced_at), "MMM d, yyyy")}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {rep.hubspot_teams.map((team) => (
+                              <Badge key={team.id} variant="outline">{team.name}</Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Select value={draft.role} onValueChange={(value) => updateRole(rep.id, value as Role)}>
+                            <SelectTrigger className="w-32">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="AE">AE</SelectItem>
+                              <SelectItem value="SDR">SDR</SelectItem>
+                              <SelectItem value="Marketing">Marketing</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={draft.plan_id ?? NONE}
+                            onValueChange={(value) => updateDraft(rep.id, { plan_id: value === NONE ? null : value })}
+                          >
+                            <SelectTrigger className="w-44">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NONE}>Team or default plan</SelectItem>
+                              {plans
+                                ?.filter((plan) => plan.role === draft.role)
+                                .map((plan) => (
+                                  <SelectItem key={plan.id} value={plan.id}>
+                                    {plan.name}
+                                  </SelectItem>
+                                ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="date"
+                            className="w-40"
+                            value={draft.start_date}
+                            onChange={(e) => updateDraft(rep.id, { start_date: e.target.value })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={draft.manager_id ?? NONE}
+                            onValueChange={(value) => updateDraft(rep.id, { manager_id: value === NONE ? null : value })}
+                          >
+                            <SelectTrigger className="w-44">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NONE}>No manager</SelectItem>
+                              {reps
+                                .filter((other) => other.id !== rep.id)
+                                .map((other) => (
+                                  <SelectItem key={other.id} value={other.id}>
+                                    {other.name}
+                                  </SelectItem>
+                                ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={draft.active}
+                            onCheckedChange={(checked) => updateDraft(rep.id, { active: checked })}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={changedReps.length === 0 || saveMutation.isPending}
+            >
+              {saveMutation.isPending ? "Saving..." : `Save Changes${changedReps.length > 0 ? ` (${changedReps.length})` : ""}`}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+}
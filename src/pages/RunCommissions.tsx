@@ -1,5 +1,6 @@
 import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -10,30 +11,78 @@ import Layout from "@/components/Layout";
 import { format, subMonths, startOfMonth, endOfMonth } from "date-fns";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { CalendarIcon } from "lucide-react";
+import { CalendarIcon, RefreshCw } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { useReps } from "@/hooks/use-reps";
+import LineItemsTable from "@/components/LineItemsTable";
+import AdjustmentsCard from "@/components/AdjustmentsCard";
 
 export default function RunCommissions() {
+  const queryClient = useQueryClient();
   const [selectedRep, setSelectedRep] = useState<string>("");
   const [repName, setRepName] = useState<string>("");
-  const [repTeam, setRepTeam] = useState<string>("");
   const [startDate, setStartDate] = useState<Date>(startOfMonth(subMonths(new Date(), 1)));
   const [endDate, setEndDate] = useState<Date>(endOfMonth(subMonths(new Date(), 1)));
   const [results, setResults] = useState<any>(null);
 
-  // Fetch real HubSpot owners
-  const { data: ownersData, isLoading: isLoadingOwners } = useQuery({
-    queryKey: ["hubspot-owners"],
+  const { data: reps, isLoading: isLoadingReps } = useReps();
+  const activeReps = reps?.filter((rep) => rep.active) || [];
+
+  // Calculations read the latest successful CRM snapshot rather than HubSpot directly
+  const { data: snapshot, isLoading: isLoadingSnapshot } = useQuery({
+    queryKey: ["crm-snapshot"],
     queryFn: async () => {
-      const response = await supabase.functions.invoke("fetch-hubspot-owners");
+      const { data, error } = await supabase
+        .from("crm_sync_runs")
+        .select("*")
+        .eq("status", "succeeded")
+        .order("id", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const syncCrmMutation = useMutation({
+    mutationFn: async () => {
+      const response = await supabase.functions.invoke("sync-crm");
       if (response.error) throw response.error;
       return response.data;
     },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["crm-snapshot"] });
+      queryClient.invalidateQueries({ queryKey: ["reps"] });
+      toast.success(
+        `CRM synced: ${data?.run?.deals_synced ?? 0} deals and ${data?.run?.meetings_synced ?? 0} meetings updated`
+      );
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to sync CRM data");
+    },
   });
 
-  const hubspotOwners = ownersData?.owners || [];
+  // A run leaves a draft statement; it can be synced to HubSpot once it has been reviewed and approved
+  const submitForReviewMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc("transition_commission_statement", {
+        p_statement_id: results.statementId,
+        p_to_status: "submitted",
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["commission-statements"] });
+      toast.success("Statement submitted for review");
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to submit statement");
+    },
+  });
 
   const calculateMutation = useMutation({
     mutationFn: async () => {
@@ -41,7 +90,6 @@ export default function RunCommissions() {
         body: {
           repId: selectedRep,
           repName,
-          team: repTeam,
           startDate: startDate.toISOString(),
           endDate: endDate.toISOString(),
         },
@@ -52,6 +100,7 @@ export default function RunCommissions() {
     },
     onSuccess: (data) => {
       setResults(data);
+      submitForReviewMutation.reset();
       toast.success("Commission calculated successfully");
     },
     onError: (error: any) => {
@@ -68,7 +117,6 @@ export default function RunCommissions() {
         body: {
           repId: selectedRep,
           repName,
-          team: repTeam,
           startDate: lastMonthStart.toISOString(),
           endDate: lastMonthEnd.toISOString(),
         },
@@ -79,6 +127,7 @@ export default function RunCommissions() {
     },
     onSuccess: (data) => {
       setResults(data);
+      submitForReviewMutation.reset();
       toast.success(`Successfully retrieved last month's data (${format(subMonths(new Date(), 1), 'MMM yyyy')})`);
     },
     onError: (error: any) => {
@@ -86,23 +135,6 @@ export default function RunCommissions() {
     },
   });
 
-  const syncToHubSpotMutation = useMutation({
-    mutationFn: async () => {
-      const response = await supabase.functions.invoke("sync-to-hubspot", {
-        body: results,
-      });
-
-      if (response.error) throw response.error;
-      return response.data;
-    },
-    onSuccess: () => {
-      toast.success("Successfully synced to HubSpot");
-    },
-    onError: (error: any) => {
-      toast.error(error.message || "Failed to sync to HubSpot");
-    },
-  });
-
   return (
     <Layout>
       <div className="space-y-6">
@@ -111,6 +143,25 @@ export default function RunCommissions() {
           <p className="mt-2 text-muted-foreground">Calculate commissions for a specific rep and period</p>
         </div>
 
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle>CRM Snapshot</CardTitle>
+              <CardDescription>
+                {isLoadingSnapshot
+                  ? "Loading snapshot..."
+                  : snapshot
+                    ? `Snapshot #${snapshot.id} synced ${format(new Date(snapshot.finished_at ?? snapshot.started_at), "PPP p")}`
+                    : "No CRM data has been synced yet. Sync before running a calculation."}
+              </CardDescription>
+            </div>
+            <Button variant="outline" onClick={() => syncCrmMutation.mutate()} disabled={syncCrmMutation.isPending}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${syncCrmMutation.isPending ? "animate-spin" : ""}`} />
+              {syncCrmMutation.isPending ? "Syncing..." : "Sync CRM now"}
+            </Button>
+          </CardHeader>
+        </Card>
+
         <Card>
           <CardHeader>
             <CardTitle>Select Parameters</CardTitle>
@@ -123,21 +174,20 @@ export default function RunCommissions() {
                 value={selectedRep}
                 onValueChange={(value) => {
                   setSelectedRep(value);
-                  const owner = hubspotOwners.find(o => o.id === value);
-                  if (owner) {
-                    setRepName(owner.name);
-                    setRepTeam(owner.team);
+                  const rep = activeReps.find((r) => r.hubspot_owner_id === value);
+                  if (rep) {
+                    setRepName(rep.name);
                   }
                 }}
-                disabled={isLoadingOwners}
+                disabled={isLoadingReps}
               >
                 <SelectTrigger>
-                  <SelectValue placeholder={isLoadingOwners ? "Loading owners..." : "Select a rep"} />
+                  <SelectValue placeholder={isLoadingReps ? "Loading reps..." : "Select a rep"} />
                 </SelectTrigger>
                 <SelectContent>
-                  {hubspotOwners.map((owner: any) => (
-                    <SelectItem key={owner.id} value={owner.id}>
-                      {owner.name} ({owner.team})
+                  {activeReps.map((rep) => (
+                    <SelectItem key={rep.hubspot_owner_id} value={rep.hubspot_owner_id}>
+                      {rep.name} ({rep.role})
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -202,18 +252,24 @@ export default function RunCommissions() {
           </CardContent>
         </Card>
 
+        {selectedRep && (
+          <AdjustmentsCard repId={selectedRep} repName={repName} startDate={startDate} endDate={endDate} />
+        )}
+
         {results && (
           <>
             <Card>
               <CardHeader>
                 <CardTitle>Commission Results</CardTitle>
                 <CardDescription>
-                  {results.repName} ({results.team}) - {format(new Date(results.periodStart), "MMM d, yyyy")} to{" "}
+                  {results.repName} ({results.planName || results.team}) - {format(new Date(results.periodStart), "MMM d, yyyy")} to{" "}
                   {format(new Date(results.periodEnd), "MMM d, yyyy")}
+                  {results.dealsFetched !== undefined && ` · ${results.dealsFetched} deals read`}
+                  {results.crmSyncRunId !== undefined && ` from CRM snapshot #${results.crmSyncRunId}`}
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+                <div className="grid grid-cols-2 gap-4 md:grid-cols-6">
                   <div>
                     <p className="text-sm text-muted-foreground">Total Revenue</p>
                     <p className="text-2xl font-bold text-foreground">
@@ -238,11 +294,63 @@ export default function RunCommissions() {
                       ${(results.meetingBonus ?? 0).toLocaleString()}
                     </p>
                   </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Adjustments</p>
+                    <p className="text-2xl font-bold text-foreground">
+                      ${(results.adjustmentTotal ?? 0).toLocaleString()}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Clawbacks</p>
+                    <p className={`text-2xl font-bold ${results.clawbackTotal < 0 ? "text-destructive" : "text-foreground"}`}>
+                      ${(results.clawbackTotal ?? 0).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                    </p>
+                  </div>
                 </div>
 
-                {results.team === "AE" && results.usedBracketPercent && (
+                {results.quota > 0 && (
+                  <div className="mt-6 space-y-2">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">
+                        Quota Attainment (quota ${results.quota.toLocaleString()})
+                      </span>
+                      <span className="font-semibold text-foreground">
+                        {(results.attainmentPercent ?? 0).toFixed(1)}%
+                      </span>
+                    </div>
+                    <Progress value={Math.min(results.attainmentPercent ?? 0, 100)} />
+                  </div>
+                )}
+
+                {results.team === "AE" && results.bracketBreakdown && results.bracketBreakdown.length > 0 && (
                   <div className="mt-6">
-                    <Badge variant="secondary">Bracket: {results.usedBracketPercent}%</Badge>
+                    <h4 className="mb-4 font-semibold text-foreground">Bracket Breakdown</h4>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Bracket</TableHead>
+                          <TableHead>Rate</TableHead>
+                          <TableHead>Revenue</TableHead>
+                          <TableHead>Commission</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {results.bracketBreakdown.map((slice: any, idx: number) => (
+                          <TableRow key={idx}>
+                            <TableCell>
+                              {results.bracketBasis === "attainment"
+                                ? `${slice.min}% - ${slice.max === null ? "and up" : `${slice.max}%`} of quota`
+                                : `$${slice.min.toLocaleString()} - ${slice.max === null ? "and up" : `$${slice.max.toLocaleString()}`}`}
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant="secondary">{slice.percent}%</Badge>
+                            </TableCell>
+                            <TableCell>${slice.revenue.toLocaleString()}</TableCell>
+                            <TableCell>${slice.commission.toLocaleString()}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
                   </div>
                 )}
 
@@ -270,74 +378,40 @@ export default function RunCommissions() {
                   </div>
                 )}
 
-                {results.debugDeals && results.debugDeals.length > 0 && (
-                  <div style={{ marginTop: "24px" }}>
-                    <h3>Closed Won Deals ({results.debugDeals.length})</h3>
-
-                    {results.debugDeals.map((d: any, i: number) => (
-                      <div 
-                        key={i} 
-                        style={{ 
-                          border: "1px solid #ddd", 
-                          borderRadius: "6px",
-                          padding: "12px", 
-                          marginBottom: "12px"
-                        }}
-                      >
-                        <p><strong>Deal Name:</strong> {d.dealName}</p>
-                        <p><strong>Amount/MRR:</strong> ${d.amount?.toLocaleString() ?? 0}</p>
-                        <p><strong>Close Date:</strong> {d.closedate}</p>
-                        <p><strong>SDR Owner:</strong> {d.sdr_owner || "(none)"}</p>
-                        <p><strong>Channel:</strong> {d.channel || "(none)"}</p>
-                        <p><strong>Payment Terms:</strong> {d.payment_terms || "(none)"}</p>
-                      </div>
-                    ))}
-                  </div>
-                )}
-
-                {results.debugMeetings && results.debugMeetings.length > 0 && (
-                  <div style={{ marginTop: "24px" }}>
-                    <h3>Meetings Used in Calculation ({results.debugMeetings.length})</h3>
-
-                    {results.debugMeetings.map((m: any, i: number) => (
-                      <div 
-                        key={i} 
-                        style={{ 
-                          border: "1px solid #ddd", 
-                          borderRadius: "6px",
-                          padding: "12px", 
-                          marginBottom: "12px"
-                        }}
-                      >
-                        <p><strong>Name:</strong> {m.meetingName}</p>
-                        <p><strong>Timestamp:</strong> {m.timestamp}</p>
-                        <p><strong>Activity Type:</strong> {m.activityType}</p>
-                        <p><strong>Status:</strong> {m.status}</p>
-                        <p><strong>Created By:</strong> {m.createdBy || "(unknown)"}</p>
-                        <p><strong>Associated Deals:</strong> {m.associatedDeals?.length > 0 ? m.associatedDeals.join(", ") : "(none)"}</p>
-                        <p><strong>Associated Contacts:</strong> {m.associatedContacts?.length > 0 ? m.associatedContacts.join(", ") : "(none)"}</p>
-
-                        <details style={{ marginTop: "10px" }}>
-                          <summary>Show All Properties</summary>
-                          <pre style={{ whiteSpace: "pre-wrap", fontSize: "12px" }}>
-                            {JSON.stringify(m.allProperties, null, 2)}
-                          </pre>
-                        </details>
-                      </div>
-                    ))}
+                {results.lineItems && (
+                  <div className="mt-6">
+                    <h4 className="mb-4 font-semibold text-foreground">Line Items</h4>
+                    <LineItemsTable lineItems={results.lineItems} />
                   </div>
                 )}
               </CardContent>
             </Card>
 
-            <Button
-              onClick={() => syncToHubSpotMutation.mutate()}
-              disabled={syncToHubSpotMutation.isPending}
-              variant="default"
-              className="w-full"
-            >
-              {syncToHubSpotMutation.isPending ? "Syncing..." : "Sync to HubSpot"}
-            </Button>
+            {results.approvedStatementId ? (
+              // Only one statement per rep and period can be approved, so this run's was superseded on creation
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  {results.repName} already has an approved statement for this period, so this run's statement was
+                  marked superseded.
+                </p>
+                <Button asChild variant="outline" className="w-full">
+                  <Link to="/statements">View statements</Link>
+                </Button>
+              </div>
+            ) : (
+              <Button
+                onClick={() => submitForReviewMutation.mutate()}
+                disabled={!results.statementId || submitForReviewMutation.isPending || submitForReviewMutation.isSuccess}
+                variant="default"
+                className="w-full"
+              >
+                {submitForReviewMutation.isPending
+                  ? "Submitting..."
+                  : submitForReviewMutation.isSuccess
+                    ? "Submitted for review"
+                    : "Submit for review"}
+              </Button>
+            )}
           </>
         )}
       </div>
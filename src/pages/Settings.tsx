@@ -9,24 +9,84 @@ import { Separator } from "@/components/ui/separator";
 import { Trash2, Plus } from "lucide-react";
 import { toast } from "sonner";
 import { Switch } from "@/components/ui/switch";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarIcon } from "lucide-react";
+import { format, startOfMonth } from "date-fns";
 import Layout from "@/components/Layout";
+import RepQuotasCard from "@/components/RepQuotasCard";
+import PlanAssignmentsCard from "@/components/PlanAssignmentsCard";
+import SettingsHistoryCard from "@/components/SettingsHistoryCard";
+import { validateSettings, type SettingsProblem } from "@/lib/settingsValidation";
+
+// The problems under `path`: one field, or every field of one bracket or tier
+function SettingsProblems({ problems, path }: { problems: SettingsProblem[]; path: string }) {
+  const matching = problems.filter((problem) => problem.path === path || problem.path.startsWith(`${path}.`));
+  if (matching.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      {matching.map((problem) => (
+        <p key={`${problem.path}:${problem.message}`} className="text-sm text-destructive">
+          {problem.label}: {problem.message}
+        </p>
+      ))}
+    </div>
+  );
+}
 
 export default function Settings() {
   const queryClient = useQueryClient();
   
-  const { data: settings, isLoading } = useQuery({
-    queryKey: ["commission-settings"],
+  const { data: plans, isLoading: isLoadingPlans } = useQuery({
+    queryKey: ["commission-plans"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("commission_plans")
+        .select("*")
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const [selectedPlanId, setSelectedPlanId] = useState<string>("");
+  const [newPlanName, setNewPlanName] = useState("");
+  const [newPlanRole, setNewPlanRole] = useState<"AE" | "SDR" | "Marketing">("AE");
+
+  useEffect(() => {
+    if (plans && plans.length > 0 && !plans.some((p) => p.id === selectedPlanId)) {
+      setSelectedPlanId(plans[0].id);
+    }
+  }, [plans, selectedPlanId]);
+
+  const selectedPlan = plans?.find((p) => p.id === selectedPlanId);
+  const role = selectedPlan?.role;
+
+  // Every saved version of the selected plan, newest first; the editor starts from the latest one
+  const { data: versions, isLoading: isLoadingVersions } = useQuery({
+    queryKey: ["commission-settings", selectedPlanId],
     queryFn: async () => {
       const { data, error } = await supabase
         .from("commission_settings")
         .select("*")
-        .single();
+        .eq("plan_id", selectedPlanId)
+        .order("version", { ascending: false });
       if (error) throw error;
       return data;
     },
+    enabled: !!selectedPlanId,
   });
 
+  const isLoading = isLoadingPlans || isLoadingVersions;
+  const settings = versions?.[0];
+  const [effectiveFrom, setEffectiveFrom] = useState<Date>(startOfMonth(new Date()));
+
   const [aeBrackets, setAeBrackets] = useState<any[]>([]);
+  const [aeBracketMode, setAeBracketMode] = useState<"flat" | "marginal">("flat");
+  const [aeBracketBasis, setAeBracketBasis] = useState<"amount" | "attainment">("amount");
   const [aePaymentBonuses, setAePaymentBonuses] = useState<any[]>([]);
   const [aeRevenueMultipliers, setAeRevenueMultipliers] = useState<any[]>([]);
   const [sdrMeetingTiers, setSdrMeetingTiers] = useState<any[]>([]);
@@ -35,10 +95,14 @@ export default function Settings() {
   const [marketingSameAsSdr, setMarketingSameAsSdr] = useState(true);
   const [marketingInboundPercent, setMarketingInboundPercent] = useState(0);
   const [marketingRevenueMultipliers, setMarketingRevenueMultipliers] = useState<any[]>([]);
+  const [clawbackWindowDays, setClawbackWindowDays] = useState(90);
+  const [clawbackPercent, setClawbackPercent] = useState(100);
 
   useEffect(() => {
     if (settings) {
       setAeBrackets(Array.isArray(settings.ae_brackets) ? settings.ae_brackets : []);
+      setAeBracketMode(settings.ae_bracket_mode === "marginal" ? "marginal" : "flat");
+      setAeBracketBasis(settings.ae_bracket_basis === "attainment" ? "attainment" : "amount");
       setAePaymentBonuses(Array.isArray(settings.ae_payment_term_bonuses) ? settings.ae_payment_term_bonuses : []);
       setAeRevenueMultipliers(Array.isArray(settings.ae_revenue_multiplier_brackets) ? settings.ae_revenue_multiplier_brackets : []);
       setSdrMeetingTiers(Array.isArray(settings.sdr_meeting_tiers) ? settings.sdr_meeting_tiers : []);
@@ -47,33 +111,97 @@ export default function Settings() {
       setMarketingSameAsSdr(settings.marketing_same_as_sdr !== false);
       setMarketingInboundPercent(Number(settings.marketing_inbound_percent) || 0);
       setMarketingRevenueMultipliers(Array.isArray(settings.marketing_revenue_multiplier_brackets) ? settings.marketing_revenue_multiplier_brackets : []);
+      setClawbackWindowDays(Number(settings.clawback_window_days) || 0);
+      setClawbackPercent(Number(settings.clawback_percent) || 0);
     }
   }, [settings]);
 
+  const editorValues = () => ({
+    ae_brackets: aeBrackets,
+    ae_bracket_mode: aeBracketMode,
+    ae_bracket_basis: aeBracketBasis,
+    ae_payment_term_bonuses: aePaymentBonuses,
+    ae_revenue_multiplier_brackets: aeRevenueMultipliers,
+    sdr_meeting_tiers: sdrMeetingTiers,
+    sdr_closed_won_percent: sdrClosedWonPercent,
+    sdr_revenue_multiplier_brackets: sdrRevenueMultipliers,
+    marketing_same_as_sdr: marketingSameAsSdr,
+    marketing_inbound_percent: marketingInboundPercent,
+    marketing_revenue_multiplier_brackets: marketingRevenueMultipliers,
+    clawback_window_days: clawbackWindowDays,
+    clawback_percent: clawbackPercent,
+  });
+
+  // Checked again before every calculation, so a version with problems could never be used
+  const problems = validateSettings(editorValues());
+
+  // Problems in fields the editor doesn't show for this plan's role are listed by the save button
+  const shownFields = new Set<string>([
+    "clawback_window_days",
+    "clawback_percent",
+    ...(role === "AE" ? ["ae_brackets", "ae_revenue_multiplier_brackets", "ae_payment_term_bonuses"] : []),
+    ...(role === "SDR" || (role === "Marketing" && marketingSameAsSdr) ? ["sdr_meeting_tiers", "sdr_closed_won_percent"] : []),
+    ...(role === "SDR" ? ["sdr_revenue_multiplier_brackets"] : []),
+    ...(role === "Marketing" ? ["marketing_revenue_multiplier_brackets"] : []),
+    ...(role === "Marketing" && !marketingSameAsSdr ? ["marketing_inbound_percent"] : []),
+  ]);
+  const hiddenProblems = problems.filter((problem) => !shownFields.has(problem.path.split(".")[0]));
+
   const saveMutation = useMutation({
     mutationFn: async () => {
+      if (problems.length > 0) throw new Error("Fix the problems in the settings before saving");
+
+      // Versions are immutable: saving publishes a new version that closes the current one
       const { error } = await supabase
         .from("commission_settings")
-        .update({
-          ae_brackets: aeBrackets,
-          ae_payment_term_bonuses: aePaymentBonuses,
-          ae_revenue_multiplier_brackets: aeRevenueMultipliers,
-          sdr_meeting_tiers: sdrMeetingTiers,
-          sdr_closed_won_percent: sdrClosedWonPercent,
-          sdr_revenue_multiplier_brackets: sdrRevenueMultipliers,
-          marketing_same_as_sdr: marketingSameAsSdr,
-          marketing_inbound_percent: marketingInboundPercent,
-          marketing_revenue_multiplier_brackets: marketingRevenueMultipliers,
-        })
-        .eq("id", settings?.id);
+        .insert({
+          ...editorValues(),
+          plan_id: selectedPlanId,
+          effective_from: effectiveFrom.toISOString(),
+        });
       if (error) throw error;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["commission-settings"] });
-      toast.success("Settings saved successfully");
+      queryClient.invalidateQueries({ queryKey: ["commission-settings-history"] });
+      toast.success(`Settings saved as a new version effective ${format(effectiveFrom, "PPP")}`);
     },
-    onError: () => {
-      toast.error("Failed to save settings");
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to save settings");
+    },
+  });
+
+  // A new plan starts from the values in the editor, so it can be cloned from the selected plan
+  const createPlanMutation = useMutation({
+    mutationFn: async () => {
+      if (problems.length > 0) throw new Error("Fix the problems in the settings before creating a plan from them");
+
+      const { data: plan, error } = await supabase
+        .from("commission_plans")
+        .insert({ name: newPlanName.trim(), role: newPlanRole })
+        .select()
+        .single();
+      if (error) throw error;
+
+      const { error: versionError } = await supabase
+        .from("commission_settings")
+        .insert({
+          ...editorValues(),
+          plan_id: plan.id,
+          effective_from: effectiveFrom.toISOString(),
+        });
+      if (versionError) throw versionError;
+
+      return plan;
+    },
+    onSuccess: (plan) => {
+      queryClient.invalidateQueries({ queryKey: ["commission-plans"] });
+      setSelectedPlanId(plan.id);
+      setNewPlanName("");
+      toast.success(`Plan "${plan.name}" created`);
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to create plan");
     },
   });
 
@@ -95,437 +223,680 @@ export default function Settings() {
 
         <Card>
           <CardHeader>
-            <CardTitle>AE Revenue Brackets</CardTitle>
-            <CardDescription>Define revenue thresholds and commission percentages</CardDescription>
+            <CardTitle>Commission Plan</CardTitle>
+            <CardDescription>
+              Each plan has its own rates and is assigned to HubSpot owners or teams. The plan's role decides which rules apply.
+            </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            {aeBrackets.map((bracket, idx) => (
-              <div key={idx} className="flex gap-4 items-end">
-                <div className="flex-1">
-                  <Label>Min Amount ($)</Label>
-                  <Input
-                    type="number"
-                    value={bracket.min}
-                    onChange={(e) => {
-                      const newBrackets = [...aeBrackets];
-                      newBrackets[idx].min = parseFloat(e.target.value);
-                      setAeBrackets(newBrackets);
-                    }}
-                  />
-                </div>
-                <div className="flex-1">
-                  <Label>Max Amount ($) - Leave 0 for unlimited</Label>
-                  <Input
-                    type="number"
-                    value={bracket.max || 0}
-                    onChange={(e) => {
-                      const newBrackets = [...aeBrackets];
-                      const val = parseFloat(e.target.value);
-                      newBrackets[idx].max = val === 0 ? null : val;
-                      setAeBrackets(newBrackets);
-                    }}
-                  />
-                </div>
-                <div className="flex-1">
-                  <Label>Percent (%)</Label>
-                  <Input
-                    type="number"
-                    step="0.1"
-                    value={bracket.percent}
-                    onChange={(e) => {
-                      const newBrackets = [...aeBrackets];
-                      newBrackets[idx].percent = parseFloat(e.target.value);
-                      setAeBrackets(newBrackets);
-                    }}
-                  />
-                </div>
-                <Button
-                  variant="destructive"
-                  size="icon"
-                  onClick={() => setAeBrackets(aeBrackets.filter((_, i) => i !== idx))}
-                >
-                  <Trash2 className="h-4 w-4" />
-                </Button>
+            <div>
+              <Label>Plan</Label>
+              <Select value={selectedPlanId} onValueChange={setSelectedPlanId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a plan" />
+                </SelectTrigger>
+                <SelectContent>
+                  {plans?.map((plan) => (
+                    <SelectItem key={plan.id} value={plan.id}>
+                      {plan.name} ({plan.role}){plan.is_default ? " - default" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Separator className="my-4" />
+
+            <div className="flex gap-4 items-end">
+              <div className="flex-1">
+                <Label>New Plan Name</Label>
+                <Input
+                  value={newPlanName}
+                  placeholder="e.g. Enterprise AE"
+                  onChange={(e) => setNewPlanName(e.target.value)}
+                />
               </div>
-            ))}
-            <Button
-              variant="outline"
-              onClick={() => setAeBrackets([...aeBrackets, { min: 0, max: null, percent: 0 }])}
-            >
-              <Plus className="mr-2 h-4 w-4" />
-              Add Bracket
-            </Button>
+              <div className="w-48">
+                <Label>Role</Label>
+                <Select value={newPlanRole} onValueChange={(value) => setNewPlanRole(value as typeof newPlanRole)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="AE">AE</SelectItem>
+                    <SelectItem value="SDR">SDR</SelectItem>
+                    <SelectItem value="Marketing">Marketing</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => createPlanMutation.mutate()}
+                disabled={!newPlanName.trim() || createPlanMutation.isPending}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Create From Current Values
+              </Button>
+            </div>
           </CardContent>
         </Card>
 
+        {selectedPlan && <PlanAssignmentsCard planId={selectedPlan.id} planName={selectedPlan.name} />}
+
+        <RepQuotasCard />
+
         <Card>
           <CardHeader>
-            <CardTitle>AE Revenue Multiplier Brackets</CardTitle>
-            <CardDescription>Multipliers applied to closed won amounts before commission calculation</CardDescription>
+            <CardTitle>Plan Versions</CardTitle>
+            <CardDescription>
+              Each save creates a new version. Calculations use the version in force at the start of their period.
+            </CardDescription>
           </CardHeader>
-          <CardContent className="space-y-4">
-            {aeRevenueMultipliers.map((bracket, idx) => (
-              <div key={idx} className="flex gap-4 items-end">
-                <div className="flex-1">
-                  <Label>Min Amount ($)</Label>
-                  <Input
-                    type="number"
-                    value={bracket.min}
-                    onChange={(e) => {
-                      const newBrackets = [...aeRevenueMultipliers];
-                      newBrackets[idx].min = parseFloat(e.target.value);
-                      setAeRevenueMultipliers(newBrackets);
-                    }}
-                  />
-                </div>
-                <div className="flex-1">
-                  <Label>Max Amount ($) - Leave 0 for unlimited</Label>
-                  <Input
-                    type="number"
-                    value={bracket.max || 0}
-                    onChange={(e) => {
-                      const newBrackets = [...aeRevenueMultipliers];
-                      const val = parseFloat(e.target.value);
-                      newBrackets[idx].max = val === 0 ? null : val;
-                      setAeRevenueMultipliers(newBrackets);
-                    }}
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Effective From</TableHead>
+                  <TableHead>Effective To</TableHead>
+                  <TableHead>Saved</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {versions?.map((version) => (
+                  <TableRow key={version.id}>
+                    <TableCell>
+                      v{version.version}{" "}
+                      {!version.effective_to && <Badge variant="secondary">Current</Badge>}
+                    </TableCell>
+                    <TableCell>{format(new Date(version.effective_from), "PPP")}</TableCell>
+                    <TableCell>{version.effective_to ? format(new Date(version.effective_to), "PPP") : "—"}</TableCell>
+                    <TableCell>{format(new Date(version.created_at), "PPP p")}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {selectedPlan && <SettingsHistoryCard planId={selectedPlan.id} effectiveFrom={effectiveFrom} />}
+
+        {role === "AE" && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>AE Revenue Brackets</CardTitle>
+                <CardDescription>Define revenue thresholds and commission percentages</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>Marginal (Tiered) Brackets</Label>
+                    <p className="text-sm text-muted-foreground">
+                      {aeBracketMode === "marginal"
+                        ? "Each slice of revenue earns its own bracket's percent"
+                        : "All revenue earns the percent of the bracket it lands in"}
+                    </p>
+                  </div>
+                  <Switch
+                    checked={aeBracketMode === "marginal"}
+                    onCheckedChange={(checked) => setAeBracketMode(checked ? "marginal" : "flat")}
                   />
                 </div>
-                <div className="flex-1">
-                  <Label>Multiplier</Label>
-                  <Input
-                    type="number"
-                    step="0.1"
-                    value={bracket.multiplier}
-                    onChange={(e) => {
-                      const newBrackets = [...aeRevenueMultipliers];
-                      newBrackets[idx].multiplier = parseFloat(e.target.value);
-                      setAeRevenueMultipliers(newBrackets);
-                    }}
+
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>Brackets Based on Quota Attainment</Label>
+                    <p className="text-sm text-muted-foreground">
+                      {aeBracketBasis === "attainment"
+                        ? "Bracket ranges are percent of each rep's quota (set below)"
+                        : "Bracket ranges are absolute revenue amounts"}
+                    </p>
+                  </div>
+                  <Switch
+                    checked={aeBracketBasis === "attainment"}
+                    onCheckedChange={(checked) => setAeBracketBasis(checked ? "attainment" : "amount")}
                   />
                 </div>
+
+                <Separator className="my-4" />
+
+                {aeBrackets.map((bracket, idx) => (
+                  <div key={idx} className="space-y-1">
+                    <div className="flex gap-4 items-end">
+                      <div className="flex-1">
+                        <Label>{aeBracketBasis === "attainment" ? "Min Attainment (%)" : "Min Amount ($)"}</Label>
+                        <Input
+                          type="number"
+                          value={bracket.min}
+                          onChange={(e) => {
+                            const newBrackets = [...aeBrackets];
+                            newBrackets[idx].min = parseFloat(e.target.value);
+                            setAeBrackets(newBrackets);
+                          }}
+                        />
+                      </div>
+                      <div className="flex-1">
+                        <Label>{aeBracketBasis === "attainment" ? "Max Attainment (%)" : "Max Amount ($)"} - Leave 0 for unlimited</Label>
+                        <Input
+                          type="number"
+                          value={bracket.max || 0}
+                          onChange={(e) => {
+                            const newBrackets = [...aeBrackets];
+                            const val = parseFloat(e.target.value);
+                            newBrackets[idx].max = val === 0 || Number.isNaN(val) ? null : val;
+                            setAeBrackets(newBrackets);
+                          }}
+                        />
+                      </div>
+                      <div className="flex-1">
+                        <Label>Percent (%)</Label>
+                        <Input
+                          type="number"
+                          step="0.1"
+                          value={bracket.percent}
+                          onChange={(e) => {
+                            const newBrackets = [...aeBrackets];
+                            newBrackets[idx].percent = parseFloat(e.target.value);
+                            setAeBrackets(newBrackets);
+                          }}
+                        />
+                      </div>
+                      <Button
+                        variant="destructive"
+                        size="icon"
+                        onClick={() => setAeBrackets(aeBrackets.filter((_, i) => i !== idx))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <SettingsProblems problems={problems} path={`ae_brackets.${idx}`} />
+                  </div>
+                ))}
                 <Button
-                  variant="destructive"
-                  size="icon"
-                  onClick={() => setAeRevenueMultipliers(aeRevenueMultipliers.filter((_, i) => i !== idx))}
+                  variant="outline"
+                  onClick={() => setAeBrackets([...aeBrackets, { min: 0, max: null, percent: 0 }])}
                 >
-                  <Trash2 className="h-4 w-4" />
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Bracket
                 </Button>
-              </div>
-            ))}
-            <Button
-              variant="outline"
-              onClick={() => setAeRevenueMultipliers([...aeRevenueMultipliers, { min: 0, max: null, multiplier: 1.0 }])}
-            >
-              <Plus className="mr-2 h-4 w-4" />
-              Add Multiplier Bracket
-            </Button>
-          </CardContent>
-        </Card>
+              </CardContent>
+            </Card>
 
-        <Card>
-          <CardHeader>
-            <CardTitle>AE Payment Term Bonuses</CardTitle>
-            <CardDescription>Bonus percentages based on payment terms</CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            {aePaymentBonuses.map((bonus, idx) => (
-              <div key={idx} className="flex gap-4 items-end">
-                <div className="flex-1">
-                  <Label>Term (e.g., "3 months")</Label>
-                  <Input
-                    value={bonus.term}
-                    onChange={(e) => {
-                      const newBonuses = [...aePaymentBonuses];
-                      newBonuses[idx].term = e.target.value;
-                      setAePaymentBonuses(newBonuses);
-                    }}
-                  />
-                </div>
-                <div className="flex-1">
-                  <Label>Bonus Percent (%)</Label>
-                  <Input
-                    type="number"
-                    step="0.1"
-                    value={bonus.bonus_percent}
-                    onChange={(e) => {
-                      const newBonuses = [...aePaymentBonuses];
-                      newBonuses[idx].bonus_percent = parseFloat(e.target.value);
-                      setAePaymentBonuses(newBonuses);
-                    }}
-                  />
-                </div>
+            <Card>
+              <CardHeader>
+                <CardTitle>AE Revenue Multiplier Brackets</CardTitle>
+                <CardDescription>Multipliers applied to closed won amounts before commission calculation</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {aeRevenueMultipliers.map((bracket, idx) => (
+                  <div key={idx} className="space-y-1">
+                    <div className="flex gap-4 items-end">
+                      <div className="flex-1">
+                        <Label>Min Amount ($)</Label>
+                        <Input
+                          type="number"
+                          value={bracket.min}
+                          onChange={(e) => {
+                            const newBrackets = [...aeRevenueMultipliers];
+                            newBrackets[idx].min = parseFloat(e.target.value);
+                            setAeRevenueMultipliers(newBrackets);
+                          }}
+                        />
+                      </div>
+                      <div className="flex-1">
+                        <Label>Max Amount ($) - Leave 0 for unlimited</Label>
+                        <Input
+                          type="number"
+                          value={bracket.max || 0}
+                          onChange={(e) => {
+                            const newBrackets = [...aeRevenueMultipliers];
+                            const val = parseFloat(e.target.value);
+                            newBrackets[idx].max = val === 0 || Number.isNaN(val) ? null : val;
+                            setAeRevenueMultipliers(newBrackets);
+                          }}
+                        />
+                      </div>
+                      <div className="flex-1">
+                        <Label>Multiplier</Label>
+                        <Input
+                          type="number"
+                          step="0.1"
+                          value={bracket.multiplier}
+                          onChange={(e) => {
+                            const newBrackets = [...aeRevenueMultipliers];
+                            newBrackets[idx].multiplier = parseFloat(e.target.value);
+                            setAeRevenueMultipliers(newBrackets);
+                          }}
+                        />
+                      </div>
+                      <Button
+                        variant="destructive"
+                        size="icon"
+                        onClick={() => setAeRevenueMultipliers(aeRevenueMultipliers.filter((_, i) => i !== idx))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <SettingsProblems problems={problems} path={`ae_revenue_multiplier_brackets.${idx}`} />
+                  </div>
+                ))}
                 <Button
-                  variant="destructive"
-                  size="icon"
-                  onClick={() => setAePaymentBonuses(aePaymentBonuses.filter((_, i) => i !== idx))}
+                  variant="outline"
+                  onClick={() => setAeRevenueMultipliers([...aeRevenueMultipliers, { min: 0, max: null, multiplier: 1.0 }])}
                 >
-                  <Trash2 className="h-4 w-4" />
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Multiplier Bracket
                 </Button>
-              </div>
-            ))}
-            <Button
-              variant="outline"
-              onClick={() => setAePaymentBonuses([...aePaymentBonuses, { term: "", bonus_percent: 0 }])}
-            >
-              <Plus className="mr-2 h-4 w-4" />
-              Add Bonus
-            </Button>
-          </CardContent>
-        </Card>
+              </CardContent>
+            </Card>
 
-        <Card>
-          <CardHeader>
-            <CardTitle>SDR Meeting Tiers</CardTitle>
-            <CardDescription>Weekly meeting bonuses based on meeting counts</CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            {sdrMeetingTiers.map((tier, idx) => (
-              <div key={idx} className="flex gap-4 items-end">
-                <div className="flex-1">
-                  <Label>Min Meetings</Label>
-                  <Input
-                    type="number"
-                    value={tier.min}
-                    onChange={(e) => {
-                      const newTiers = [...sdrMeetingTiers];
-                      newTiers[idx].min = parseInt(e.target.value);
-                      setSdrMeetingTiers(newTiers);
-                    }}
-                  />
-                </div>
-                <div className="flex-1">
-                  <Label>Max Meetings - Leave 0 for unlimited</Label>
-                  <Input
-                    type="number"
-                    value={tier.max || 0}
-                    onChange={(e) => {
-                      const newTiers = [...sdrMeetingTiers];
-                      const val = parseInt(e.target.value);
-                      newTiers[idx].max = val === 0 ? null : val;
-                      setSdrMeetingTiers(newTiers);
-                    }}
-                  />
-                </div>
-                <div className="flex-1">
-                  <Label>Bonus Amount ($)</Label>
-                  <Input
-                    type="number"
-                    value={tier.bonus_amount}
-                    onChange={(e) => {
-                      const newTiers = [...sdrMeetingTiers];
-                      newTiers[idx].bonus_amount = parseFloat(e.target.value);
-                      setSdrMeetingTiers(newTiers);
-                    }}
-                  />
-                </div>
+            <Card>
+              <CardHeader>
+                <CardTitle>AE Payment Term Bonuses</CardTitle>
+                <CardDescription>Bonus percentages based on payment terms</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {aePaymentBonuses.map((bonus, idx) => (
+                  <div key={idx} className="space-y-1">
+                    <div className="flex gap-4 items-end">
+                      <div className="flex-1">
+                        <Label>Term (e.g., "3 months")</Label>
+                        <Input
+                          value={bonus.term}
+                          onChange={(e) => {
+                            const newBonuses = [...aePaymentBonuses];
+                            newBonuses[idx].term = e.target.value;
+                            setAePaymentBonuses(newBonuses);
+                          }}
+                        />
+                      </div>
+                      <div className="flex-1">
+                        <Label>Bonus Percent (%)</Label>
+                        <Input
+                          type="number"
+                          step="0.1"
+                          value={bonus.bonus_percent}
+                          onChange={(e) => {
+                            const newBonuses = [...aePaymentBonuses];
+                            newBonuses[idx].bonus_percent = parseFloat(e.target.value);
+                            setAePaymentBonuses(newBonuses);
+                          }}
+                        />
+                      </div>
+                      <Button
+                        variant="destructive"
+                        size="icon"
+                        onClick={() => setAePaymentBonuses(aePaymentBonuses.filter((_, i) => i !== idx))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <SettingsProblems problems={problems} path={`ae_payment_term_bonuses.${idx}`} />
+                  </div>
+                ))}
                 <Button
-                  variant="destructive"
-                  size="icon"
-                  onClick={() => setSdrMeetingTiers(sdrMeetingTiers.filter((_, i) => i !== idx))}
+                  variant="outline"
+                  onClick={() => setAePaymentBonuses([...aePaymentBonuses, { term: "", bonus_percent: 0 }])}
                 >
-                  <Trash2 className="h-4 w-4" />
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Bonus
                 </Button>
-              </div>
-            ))}
-            <Button
-              variant="outline"
-              onClick={() => setSdrMeetingTiers([...sdrMeetingTiers, { min: 0, max: null, bonus_amount: 0 }])}
-            >
-              <Plus className="mr-2 h-4 w-4" />
-              Add Tier
-            </Button>
+              </CardContent>
+            </Card>
+          </>
+        )}
 
-            <Separator className="my-4" />
+        {(role === "SDR" || (role === "Marketing" && marketingSameAsSdr)) && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>SDR Meeting Tiers</CardTitle>
+                <CardDescription>
+                  Weekly meeting bonuses based on meeting counts. A tier includes its max, so the next tier starts
+                  one meeting higher.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {sdrMeetingTiers.map((tier, idx) => (
+                  <div key={idx} className="space-y-1">
+                    <div className="flex gap-4 items-end">
+                      <div className="flex-1">
+                        <Label>Min Meetings</Label>
+                        <Input
+                          type="number"
+                          value={tier.min}
+                          onChange={(e) => {
+                            const newTiers = [...sdrMeetingTiers];
+                            newTiers[idx].min = parseInt(e.target.value);
+                            setSdrMeetingTiers(newTiers);
+                          }}
+                        />
+                      </div>
+                      <div className="flex-1">
+                        <Label>Max Meetings - Leave 0 for unlimited</Label>
+                        <Input
+                          type="number"
+                          value={tier.max || 0}
+                          onChange={(e) => {
+                            const newTiers = [...sdrMeetingTiers];
+                            const val = parseInt(e.target.value);
+                            newTiers[idx].max = val === 0 || Number.isNaN(val) ? null : val;
+                            setSdrMeetingTiers(newTiers);
+                          }}
+                        />
+                      </div>
+                      <div className="flex-1">
+                        <Label>Bonus Amount ($)</Label>
+                        <Input
+                          type="number"
+                          value={tier.bonus_amount}
+                          onChange={(e) => {
+                            const newTiers = [...sdrMeetingTiers];
+                            newTiers[idx].bonus_amount = parseFloat(e.target.value);
+                            setSdrMeetingTiers(newTiers);
+                          }}
+                        />
+                      </div>
+                      <Button
+                        variant="destructive"
+                        size="icon"
+                        onClick={() => setSdrMeetingTiers(sdrMeetingTiers.filter((_, i) => i !== idx))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <SettingsProblems problems={problems} path={`sdr_meeting_tiers.${idx}`} />
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  onClick={() => setSdrMeetingTiers([...sdrMeetingTiers, { min: 0, max: null, bonus_amount: 0 }])}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Tier
+                </Button>
 
-            <div>
-              <Label>SDR Closed Won Percent (%)</Label>
-              <Input
-                type="number"
-                step="0.1"
-                value={sdrClosedWonPercent}
-                onChange={(e) => setSdrClosedWonPercent(parseFloat(e.target.value))}
-              />
-              <p className="mt-1 text-sm text-muted-foreground">
-                Monthly percentage of closed won deal revenue
-              </p>
-            </div>
-          </CardContent>
-        </Card>
+                <Separator className="my-4" />
 
-        <Card>
-          <CardHeader>
-            <CardTitle>SDR Revenue Multiplier Brackets</CardTitle>
-            <CardDescription>Multipliers applied to closed won amounts before commission calculation</CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            {sdrRevenueMultipliers.map((bracket, idx) => (
-              <div key={idx} className="flex gap-4 items-end">
-                <div className="flex-1">
-                  <Label>Min Amount ($)</Label>
-                  <Input
-                    type="number"
-                    value={bracket.min}
-                    onChange={(e) => {
-                      const newBrackets = [...sdrRevenueMultipliers];
-                      newBrackets[idx].min = parseFloat(e.target.value);
-                      setSdrRevenueMultipliers(newBrackets);
-                    }}
-                  />
-                </div>
-                <div className="flex-1">
-                  <Label>Max Amount ($) - Leave 0 for unlimited</Label>
+                <div>
+                  <Label>SDR Closed Won Percent (%)</Label>
                   <Input
                     type="number"
-                    value={bracket.max || 0}
-                    onChange={(e) => {
-                      const newBrackets = [...sdrRevenueMultipliers];
-                      const val = parseFloat(e.target.value);
-                      newBrackets[idx].max = val === 0 ? null : val;
-                      setSdrRevenueMultipliers(newBrackets);
-                    }}
+                    step="0.1"
+                    value={sdrClosedWonPercent}
+                    onChange={(e) => setSdrClosedWonPercent(parseFloat(e.target.value))}
                   />
+                <SettingsProblems problems={problems} path="sdr_closed_won_percent" />
+                  <p className="mt-1 text-sm text-muted-foreground">
+                    Monthly percentage of closed won deal revenue
+                  </p>
                 </div>
-                <div className="flex-1">
-                  <Label>Multiplier</Label>
-                  <Input
-                    type="number"
-                    step="0.1"
-                    value={bracket.multiplier}
-                    onChange={(e) => {
-                      const newBrackets = [...sdrRevenueMultipliers];
-                      newBrackets[idx].multiplier = parseFloat(e.target.value);
-                      setSdrRevenueMultipliers(newBrackets);
-                    }}
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        {role === "SDR" && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>SDR Revenue Multiplier Brackets</CardTitle>
+                <CardDescription>Multipliers applied to closed won amounts before commission calculation</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {sdrRevenueMultipliers.map((bracket, idx) => (
+                  <div key={idx} className="space-y-1">
+                    <div className="flex gap-4 items-end">
+                      <div className="flex-1">
+                        <Label>Min Amount ($)</Label>
+                        <Input
+                          type="number"
+                          value={bracket.min}
+                          onChange={(e) => {
+                            const newBrackets = [...sdrRevenueMultipliers];
+                            newBrackets[idx].min = parseFloat(e.target.value);
+                            setSdrRevenueMultipliers(newBrackets);
+                          }}
+                        />
+                      </div>
+                      <div className="flex-1">
+                        <Label>Max Amount ($) - Leave 0 for unlimited</Label>
+                        <Input
+                          type="number"
+                          value={bracket.max || 0}
+                          onChange={(e) => {
+                            const newBrackets = [...sdrRevenueMultipliers];
+                            const val = parseFloat(e.target.value);
+                            newBrackets[idx].max = val === 0 || Number.isNaN(val) ? null : val;
+                            setSdrRevenueMultipliers(newBrackets);
+                          }}
+                        />
+                      </div>
+                      <div className="flex-1">
+                        <Label>Multiplier</Label>
+                        <Input
+                          type="number"
+                          step="0.1"
+                          value={bracket.multiplier}
+                          onChange={(e) => {
+                            const newBrackets = [...sdrRevenueMultipliers];
+                            newBrackets[idx].multiplier = parseFloat(e.target.value);
+                            setSdrRevenueMultipliers(newBrackets);
+                          }}
+                        />
+                      </div>
+                      <Button
+                        variant="destructive"
+                        size="icon"
+                        onClick={() => setSdrRevenueMultipliers(sdrRevenueMultipliers.filter((_, i) => i !== idx))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <SettingsProblems problems={problems} path={`sdr_revenue_multiplier_brackets.${idx}`} />
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  onClick={() => setSdrRevenueMultipliers([...sdrRevenueMultipliers, { min: 0, max: null, multiplier: 1.0 }])}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Multiplier Bracket
+                </Button>
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        {role === "Marketing" && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Marketing Settings</CardTitle>
+                <CardDescription>Configure marketing commission logic</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>Use SDR Logic for Marketing</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Apply the same meeting tiers and closed won percentage
+                    </p>
+                  </div>
+                  <Switch
+                    checked={marketingSameAsSdr}
+                    onCheckedChange={setMarketingSameAsSdr}
                   />
                 </div>
+
+                {!marketingSameAsSdr && (
+                  <div>
+                    <Label>Marketing Inbound Revenue Percent (%)</Label>
+                    <Input
+                      type="number"
+                      step="0.1"
+                      value={marketingInboundPercent}
+                      onChange={(e) => setMarketingInboundPercent(parseFloat(e.target.value))}
+                    />
+                  <SettingsProblems problems={problems} path="marketing_inbound_percent" />
+                    <p className="mt-1 text-sm text-muted-foreground">
+                      Percentage of inbound deal revenue
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Marketing Revenue Multiplier Brackets</CardTitle>
+                <CardDescription>Multipliers applied to closed won amounts before commission calculation</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {marketingRevenueMultipliers.map((bracket, idx) => (
+                  <div key={idx} className="space-y-1">
+                    <div className="flex gap-4 items-end">
+                      <div className="flex-1">
+                        <Label>Min Amount ($)</Label>
+                        <Input
+                          type="number"
+                          value={bracket.min}
+                          onChange={(e) => {
+                            const newBrackets = [...marketingRevenueMultipliers];
+                            newBrackets[idx].min = parseFloat(e.target.value);
+                            setMarketingRevenueMultipliers(newBrackets);
+                          }}
+                        />
+                      </div>
+                      <div className="flex-1">
+                        <Label>Max Amount ($) - Leave 0 for unlimited</Label>
+                        <Input
+                          type="number"
+                          value={bracket.max || 0}
+                          onChange={(e) => {
+                            const newBrackets = [...marketingRevenueMultipliers];
+                            const val = parseFloat(e.target.value);
+                            newBrackets[idx].max = val === 0 || Number.isNaN(val) ? null : val;
+                            setMarketingRevenueMultipliers(newBrackets);
+                          }}
+                        />
+                      </div>
+                      <div className="flex-1">
+                        <Label>Multiplier</Label>
+                        <Input
+                          type="number"
+                          step="0.1"
+                          value={bracket.multiplier}
+                          onChange={(e) => {
+                            const newBrackets = [...marketingRevenueMultipliers];
+                            newBrackets[idx].multiplier = parseFloat(e.target.value);
+                            setMarketingRevenueMultipliers(newBrackets);
+                          }}
+                        />
+                      </div>
+                      <Button
+                        variant="destructive"
+                        size="icon"
+                        onClick={() => setMarketingRevenueMultipliers(marketingRevenueMultipliers.filter((_, i) => i !== idx))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <SettingsProblems problems={problems} path={`marketing_revenue_multiplier_brackets.${idx}`} />
+                  </div>
+                ))}
                 <Button
-                  variant="destructive"
-                  size="icon"
-                  onClick={() => setSdrRevenueMultipliers(sdrRevenueMultipliers.filter((_, i) => i !== idx))}
+                  variant="outline"
+                  onClick={() => setMarketingRevenueMultipliers([...marketingRevenueMultipliers, { min: 0, max: null, multiplier: 1.0 }])}
                 >
-                  <Trash2 className="h-4 w-4" />
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Multiplier Bracket
                 </Button>
-              </div>
-            ))}
-            <Button
-              variant="outline"
-              onClick={() => setSdrRevenueMultipliers([...sdrRevenueMultipliers, { min: 0, max: null, multiplier: 1.0 }])}
-            >
-              <Plus className="mr-2 h-4 w-4" />
-              Add Multiplier Bracket
-            </Button>
-          </CardContent>
-        </Card>
+              </CardContent>
+            </Card>
+          </>
+        )}
 
-        <Card>
-          <CardHeader>
-            <CardTitle>Marketing Settings</CardTitle>
-            <CardDescription>Configure marketing commission logic</CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="flex items-center justify-between">
-              <div className="space-y-0.5">
-                <Label>Use SDR Logic for Marketing</Label>
-                <p className="text-sm text-muted-foreground">
-                  Apply the same meeting tiers and closed won percentage
+        {selectedPlan && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Clawbacks</CardTitle>
+              <CardDescription>
+                Take back commission on paid deals that churn, are refunded or shrink within the window
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <div>
+                <Label>Clawback Window (days)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={clawbackWindowDays}
+                  onChange={(e) => setClawbackWindowDays(parseInt(e.target.value) || 0)}
+                />
+              <SettingsProblems problems={problems} path="clawback_window_days" />
+                <p className="mt-1 text-sm text-muted-foreground">
+                  Counted from the end of the period the deal was paid in. 0 turns clawbacks off.
                 </p>
               </div>
-              <Switch
-                checked={marketingSameAsSdr}
-                onCheckedChange={setMarketingSameAsSdr}
-              />
-            </div>
-
-            {!marketingSameAsSdr && (
               <div>
-                <Label>Marketing Inbound Revenue Percent (%)</Label>
+                <Label>Clawback Percent (%)</Label>
                 <Input
                   type="number"
-                  step="0.1"
-                  value={marketingInboundPercent}
-                  onChange={(e) => setMarketingInboundPercent(parseFloat(e.target.value))}
+                  min={0}
+                  max={100}
+                  value={clawbackPercent}
+                  onChange={(e) => setClawbackPercent(parseFloat(e.target.value) || 0)}
                 />
+              <SettingsProblems problems={problems} path="clawback_percent" />
                 <p className="mt-1 text-sm text-muted-foreground">
-                  Percentage of inbound deal revenue
+                  Share of the lost commission taken back from the rep
                 </p>
               </div>
-            )}
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+        )}
 
-        <Card>
-          <CardHeader>
-            <CardTitle>Marketing Revenue Multiplier Brackets</CardTitle>
-            <CardDescription>Multipliers applied to closed won amounts before commission calculation</CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            {marketingRevenueMultipliers.map((bracket, idx) => (
-              <div key={idx} className="flex gap-4 items-end">
-                <div className="flex-1">
-                  <Label>Min Amount ($)</Label>
-                  <Input
-                    type="number"
-                    value={bracket.min}
-                    onChange={(e) => {
-                      const newBrackets = [...marketingRevenueMultipliers];
-                      newBrackets[idx].min = parseFloat(e.target.value);
-                      setMarketingRevenueMultipliers(newBrackets);
-                    }}
-                  />
-                </div>
-                <div className="flex-1">
-                  <Label>Max Amount ($) - Leave 0 for unlimited</Label>
-                  <Input
-                    type="number"
-                    value={bracket.max || 0}
-                    onChange={(e) => {
-                      const newBrackets = [...marketingRevenueMultipliers];
-                      const val = parseFloat(e.target.value);
-                      newBrackets[idx].max = val === 0 ? null : val;
-                      setMarketingRevenueMultipliers(newBrackets);
-                    }}
-                  />
-                </div>
-                <div className="flex-1">
-                  <Label>Multiplier</Label>
-                  <Input
-                    type="number"
-                    step="0.1"
-                    value={bracket.multiplier}
-                    onChange={(e) => {
-                      const newBrackets = [...marketingRevenueMultipliers];
-                      newBrackets[idx].multiplier = parseFloat(e.target.value);
-                      setMarketingRevenueMultipliers(newBrackets);
-                    }}
-                  />
-                </div>
-                <Button
-                  variant="destructive"
-                  size="icon"
-                  onClick={() => setMarketingRevenueMultipliers(marketingRevenueMultipliers.filter((_, i) => i !== idx))}
-                >
-                  <Trash2 className="h-4 w-4" />
+        <div className="flex items-end gap-4">
+          <div>
+            <Label>New Version Effective From</Label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="w-64 justify-start text-left font-normal">
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {format(effectiveFrom, "PPP")}
                 </Button>
-              </div>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0">
+                <Calendar mode="single" selected={effectiveFrom} onSelect={(date) => date && setEffectiveFrom(date)} />
+              </PopoverContent>
+            </Popover>
+          </div>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || problems.length > 0}
+            className="flex-1"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save All Settings"}
+          </Button>
+        </div>
+        {problems.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-sm text-destructive">
+              {hiddenProblems.length === 0
+                ? "Fix the problems above before saving."
+                : hiddenProblems.length === problems.length
+                  ? "Fix these settings, which this plan's role doesn't use, before saving:"
+                  : "Fix the problems above, and these settings this plan's role doesn't use, before saving:"}
+            </p>
+            {hiddenProblems.map((problem) => (
+              <p key={`${problem.path}:${problem.message}`} className="text-sm text-destructive">
+                {problem.label}: {problem.message}
+              </p>
             ))}
-            <Button
-              variant="outline"
-              onClick={() => setMarketingRevenueMultipliers([...marketingRevenueMultipliers, { min: 0, max: null, multiplier: 1.0 }])}
-            >
-              <Plus className="mr-2 h-4 w-4" />
-              Add Multiplier Bracket
-            </Button>
-          </CardContent>
-        </Card>
-
-        <Button
-          onClick={() => saveMutation.mutate()}
-          disabled={saveMutation.isPending}
-          className="w-full"
-        >
-          {saveMutation.isPending ? "Saving..." : "Save All Settings"}
-        </Button>
+          </div>
+        )}
       </div>
     </Layout>
   );
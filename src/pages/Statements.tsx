@@ -0,0 +1,271 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import Layout from "@/components/Layout";
+import { useRoles } from "@/hooks/use-roles";
+import { hasAnyRole } from "@/lib/roles";
+import {
+  HUBSPOT_SYNC_STATUS_LABELS,
+  hubSpotSyncStatus,
+  STATEMENT_ACTIONS,
+  STATEMENT_STATUS_LABELS,
+  type StatementStatus,
+} from "@/lib/statements";
+
+const ALL = "all";
+
+export default function Statements() {
+  const queryClient = useQueryClient();
+  const { data: roles } = useRoles();
+  const [statusFilter, setStatusFilter] = useState<string>(ALL);
+  const [historyFor, setHistoryFor] = useState<{ id: string; rep_name: string } | null>(null);
+
+  const { data: statements, isLoading } = useQuery({
+    queryKey: ["commission-statements", statusFilter],
+    queryFn: async () => {
+      let query = supabase
+        .from("commission_statements")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(100);
+      if (statusFilter !== ALL) {
+        query = query.eq("status", statusFilter);
+      }
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Every synced statement for the reps shown, since any of them may hold the HubSpot record for a row's period
+  const repIds = [...new Set((statements ?? []).map((statement) => statement.rep_id))];
+  const { data: syncedStatements } = useQuery({
+    queryKey: ["commission-statements", "hubspot-synced", repIds],
+    enabled: repIds.length > 0,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("commission_statements")
+        .select("rep_id, period_start, period_end, hubspot_synced_hash, hubspot_synced_at")
+        .in("rep_id", repIds)
+        .not("hubspot_record_id", "is", null);
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: transitions, isLoading: isLoadingTransitions } = useQuery({
+    queryKey: ["commission-statement-transitions", historyFor?.id],
+    enabled: !!historyFor,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("commission_statement_transitions")
+        .select("*")
+        .eq("statement_id", historyFor!.id)
+        .order("created_at");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const transitionMutation = useMutation({
+    mutationFn: async ({ statementId, to }: { statementId: string; to: StatementStatus }) => {
+      const { error } = await supabase.rpc("transition_commission_statement", {
+        p_statement_id: statementId,
+        p_to_status: to,
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_data, { to }) => {
+      queryClient.invalidateQueries({ queryKey: ["commission-statements"] });
+      queryClient.invalidateQueries({ queryKey: ["commission-statement-transitions"] });
+      toast.success(`Statement moved to ${STATEMENT_STATUS_LABELS[to].toLowerCase()}`);
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to update statement");
+    },
+  });
+
+  const syncToHubSpotMutation = useMutation({
+    mutationFn: async (statementId: string) => {
+      const response = await supabase.functions.invoke("sync-to-hubspot", {
+        body: { statementId },
+      });
+
+      if (response.error) throw response.error;
+      return response.data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["commission-statements"] });
+      toast.success(data?.action === "unchanged" ? "HubSpot is already up to date" : "Successfully synced to HubSpot");
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to sync to HubSpot");
+    },
+  });
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground">Statements</h2>
+          <p className="mt-2 text-muted-foreground">
+            Review and approve commission statements before they are synced to HubSpot and paid
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle>Commission Statements</CardTitle>
+              <CardDescription>Last 100 statements, newest first</CardDescription>
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All statuses</SelectItem>
+                {(Object.keys(STATEMENT_STATUS_LABELS) as StatementStatus[]).map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {STATEMENT_STATUS_LABELS[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div>Loading...</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rep Name</TableHead>
+                    <TableHead>Team</TableHead>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Total Commission</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>HubSpot</TableHead>
+                    <TableHead>Last Change</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statements?.map((statement) => {
+                    const status = statement.status as StatementStatus;
+                    const syncStatus = hubSpotSyncStatus(statement, syncedStatements ?? []);
+                    return (
+                      <TableRow key={statement.id}>
+                        <TableCell>{statement.rep_name}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{statement.team}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          {format(new Date(statement.period_start), "MMM d")} -{" "}
+                          {format(new Date(statement.period_end), "MMM d, yyyy")}
+                        </TableCell>
+                        <TableCell className="font-semibold">
+                          ${Number(statement.total_commission).toLocaleString()}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={status === "paid" || status === "approved" ? "default" : "secondary"}>
+                            {STATEMENT_STATUS_LABELS[status]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant={syncStatus === "synced" ? "default" : syncStatus === "out_of_date" ? "destructive" : "outline"}
+                            title={statement.hubspot_synced_at ? `Last synced ${format(new Date(statement.hubspot_synced_at), "PPP p")}` : undefined}
+                          >
+                            {HUBSPOT_SYNC_STATUS_LABELS[syncStatus]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{format(new Date(statement.status_changed_at), "PPP p")}</TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-2">
+                            {STATEMENT_ACTIONS[status]
+                              .filter((action) => hasAnyRole(roles, action.roles))
+                              .map((action) => (
+                                <Button
+                                  key={action.to}
+                                  size="sm"
+                                  variant={action.variant || "default"}
+                                  disabled={transitionMutation.isPending}
+                                  onClick={() => transitionMutation.mutate({ statementId: statement.id, to: action.to })}
+                                >
+                                  {action.label}
+                                </Button>
+                              ))}
+                            {status === "approved" && hasAnyRole(roles, ["admin", "finance"]) && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={syncToHubSpotMutation.isPending}
+                                onClick={() => syncToHubSpotMutation.mutate(statement.id)}
+                              >
+                                Sync to HubSpot
+                              </Button>
+                            )}
+                            <Button size="sm" variant="ghost" onClick={() => setHistoryFor(statement)}>
+                              History
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={!!historyFor} onOpenChange={(open) => !open && setHistoryFor(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Statement History</DialogTitle>
+              <DialogDescription>Every status change on {historyFor?.rep_name}'s statement</DialogDescription>
+            </DialogHeader>
+            {isLoadingTransitions ? (
+              <div>Loading...</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Change</TableHead>
+                    <TableHead>By</TableHead>
+                    <TableHead>Note</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transitions?.map((transition) => (
+                    <TableRow key={transition.id}>
+                      <TableCell>{format(new Date(transition.created_at), "PPP p")}</TableCell>
+                      <TableCell>
+                        {transition.from_status
+                          ? `${STATEMENT_STATUS_LABELS[transition.from_status as StatementStatus]} → `
+                          : ""}
+                        {STATEMENT_STATUS_LABELS[transition.to_status as StatementStatus]}
+                      </TableCell>
+                      <TableCell>{transition.actor_email || (transition.actor_id ? transition.actor_id : "System")}</TableCell>
+                      <TableCell>{transition.note || "—"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,401 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import Layout from "@/components/Layout";
+import { useReps } from "@/hooks/use-reps";
+import { isEmailDomainAllowed, normalizeDomains } from "@/lib/invites";
+import { APP_ROLES, type AppRole, ROLE_DESCRIPTIONS, ROLE_LABELS } from "@/lib/roles";
+
+type AccessDraft = {
+  roles: AppRole[];
+  rep_id: string | null;
+};
+
+// Radix selects can't hold an empty value, so "none" stands in for null
+const NONE = "none";
+
+export default function Users() {
+  const queryClient = useQueryClient();
+  const [drafts, setDrafts] = useState<Record<string, AccessDraft>>({});
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRoles, setInviteRoles] = useState<AppRole[]>(["rep"]);
+  const [domainsDraft, setDomainsDraft] = useState("");
+
+  const { data: users, isLoading } = useQuery({
+    queryKey: ["users-with-access"],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("list_users_with_access");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: reps } = useReps();
+
+  const { data: invites } = useQuery({
+    queryKey: ["user-invites"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("user_invites")
+        .select("*")
+        .is("accepted_at", null)
+        .order("invited_at", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: accessSettings } = useQuery({
+    queryKey: ["access-settings"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("access_settings").select("*").limit(1).maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  useEffect(() => {
+    if (accessSettings) setDomainsDraft(accessSettings.allowed_email_domains.join(", "));
+  }, [accessSettings]);
+
+  const allowedDomains = accessSettings?.allowed_email_domains ?? [];
+
+  useEffect(() => {
+    if (users) {
+      const next: Record<string, AccessDraft> = {};
+      users.forEach((user) => {
+        next[user.user_id] = { roles: user.roles, rep_id: user.rep_id };
+      });
+      setDrafts(next);
+    }
+  }, [users]);
+
+  const isChanged = (user: NonNullable<typeof users>[number]) => {
+    const draft = drafts[user.user_id];
+    return (
+      draft &&
+      (draft.rep_id !== user.rep_id ||
+        draft.roles.length !== user.roles.length ||
+        draft.roles.some((role) => !user.roles.includes(role)))
+    );
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const draft = drafts[userId];
+      const { error } = await supabase.rpc("update_user_access", {
+        p_user_id: userId,
+        p_roles: draft.roles,
+        p_rep_id: draft.rep_id,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["users-with-access"] });
+      queryClient.invalidateQueries({ queryKey: ["user-roles"] });
+      queryClient.invalidateQueries({ queryKey: ["reps"] });
+      toast.success("Access saved");
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to save access");
+    },
+  });
+
+  // The function checks the domain and roles again, and records the invite before emailing it
+  const inviteMutation = useMutation({
+    mutationFn: async ({ email, roles }: { email: string; roles: AppRole[] }) => {
+      const response = await supabase.functions.invoke("invite-user", {
+        body: { email, roles, redirectTo: `${window.location.origin}/welcome` },
+      });
+      if (response.error) throw response.error;
+      return response.data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["user-invites"] });
+      setInviteEmail("");
+      toast.success(`Invite sent to ${data.email}`);
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to send the invite");
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (inviteId: string) => {
+      const { error } = await supabase.from("user_invites").delete().eq("id", inviteId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["user-invites"] });
+      toast.success("Invite revoked");
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to revoke the invite");
+    },
+  });
+
+  const saveDomainsMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from("access_settings")
+        .update({ allowed_email_domains: normalizeDomains(domainsDraft.split(",")) })
+        .eq("id", accessSettings!.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["access-settings"] });
+      toast.success("Allowed domains saved");
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to save allowed domains");
+    },
+  });
+
+  const inviteDomainProblem =
+    inviteEmail.includes("@") && !isEmailDomainAllowed(inviteEmail.trim(), allowedDomains)
+      ? `Only emails at ${allowedDomains.join(", ")} can be invited`
+      : null;
+
+  const toggleRole = (userId: string, role: AppRole, checked: boolean) => {
+    const draft = drafts[userId];
+    const roles = checked ? [...draft.roles, role] : draft.roles.filter((held) => held !== role);
+    setDrafts({ ...drafts, [userId]: { ...draft, roles } });
+  };
+
+  // A rep already signed in as by someone else can't be picked again
+  const linkedRepIds = new Set(Object.values(drafts).map((draft) => draft.rep_id));
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground">Users</h2>
+          <p className="mt-2 text-muted-foreground">
+            Who can sign in and what they can do. Managers and reps see commissions through the rep they're linked to.
+          </p>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Invite a User</CardTitle>
+              <CardDescription>
+                They'll get an email to choose a password, and are linked to the HubSpot owner with the same email
+                when they accept.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="invite-email">Email</Label>
+                <Input
+                  id="invite-email"
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  className={inviteDomainProblem ? "border-destructive" : undefined}
+                />
+                {inviteDomainProblem && <p className="text-sm text-destructive">{inviteDomainProblem}</p>}
+              </div>
+              <div className="flex flex-wrap gap-4">
+                {APP_ROLES.map((role) => (
+                  <div key={role} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`invite-${role}`}
+                      checked={inviteRoles.includes(role)}
+                      onCheckedChange={(checked) =>
+                        setInviteRoles(
+                          checked === true ? [...inviteRoles, role] : inviteRoles.filter((held) => held !== role)
+                        )
+                      }
+                    />
+                    <Label htmlFor={`invite-${role}`}>{ROLE_LABELS[role]}</Label>
+                  </div>
+                ))}
+              </div>
+              <Button
+                disabled={!inviteEmail.trim() || inviteRoles.length === 0 || !!inviteDomainProblem || inviteMutation.isPending}
+                onClick={() => inviteMutation.mutate({ email: inviteEmail, roles: inviteRoles })}
+              >
+                {inviteMutation.isPending ? "Sending..." : "Send Invite"}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Allowed Domains</CardTitle>
+              <CardDescription>
+                Only emails at these domains can be invited, e.g. "example.com, example.co.uk". Leave empty to allow
+                any domain.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Input value={domainsDraft} onChange={(e) => setDomainsDraft(e.target.value)} placeholder="Any domain" />
+              <Button
+                variant="outline"
+                disabled={!accessSettings || saveDomainsMutation.isPending}
+                onClick={() => saveDomainsMutation.mutate()}
+              >
+                {saveDomainsMutation.isPending ? "Saving..." : "Save Domains"}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+
+        {invites && invites.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Pending Invites</CardTitle>
+              <CardDescription>Invites not accepted yet. Sending one again gives a fresh link.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Roles</TableHead>
+                    <TableHead>Invited</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invites.map((invite) => (
+                    <TableRow key={invite.id}>
+                      <TableCell className="font-medium">{invite.email}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {invite.roles.map((role) => (
+                            <Badge key={role} variant="outline">
+                              {ROLE_LABELS[role]}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>{format(new Date(invite.invited_at), "PPP p")}</TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={inviteMutation.isPending}
+                            onClick={() => inviteMutation.mutate({ email: invite.email, roles: invite.roles })}
+                          >
+                            Send again
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={revokeMutation.isPending}
+                            onClick={() => revokeMutation.mutate(invite.id)}
+                          >
+                            Revoke
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Access</CardTitle>
+            <CardDescription>
+              {APP_ROLES.map((role) => `${ROLE_LABELS[role]}: ${ROLE_DESCRIPTIONS[role]}.`).join(" ")}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div>Loading...</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>User</TableHead>
+                    {APP_ROLES.map((role) => (
+                      <TableHead key={role}>{ROLE_LABELS[role]}</TableHead>
+                    ))}
+                    <TableHead>Rep</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {users?.map((user) => {
+                    const draft = drafts[user.user_id];
+                    if (!draft) return null;
+                    return (
+                      <TableRow key={user.user_id}>
+                        <TableCell>
+                          <div className="font-medium">{user.email}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {user.last_sign_in_at
+                              ? `Last signed in ${format(new Date(user.last_sign_in_at), "MMM d, yyyy")}`
+                              : "Never signed in"}
+                          </div>
+                        </TableCell>
+                        {APP_ROLES.map((role) => (
+                          <TableCell key={role}>
+                            <Checkbox
+                              checked={draft.roles.includes(role)}
+                              onCheckedChange={(checked) => toggleRole(user.user_id, role, checked === true)}
+                            />
+                          </TableCell>
+                        ))}
+                        <TableCell>
+                          <Select
+                            value={draft.rep_id ?? NONE}
+                            onValueChange={(value) =>
+                              setDrafts({ ...drafts, [user.user_id]: { ...draft, rep_id: value === NONE ? null : value } })
+                            }
+                          >
+                            <SelectTrigger className="w-44">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NONE}>No rep</SelectItem>
+                              {reps
+                                ?.filter(
+                                  (rep) => rep.hubspot_owner_id === draft.rep_id || !linkedRepIds.has(rep.hubspot_owner_id)
+                                )
+                                .map((rep) => (
+                                  <SelectItem key={rep.id} value={rep.hubspot_owner_id}>
+                                    {rep.name}
+                                  </SelectItem>
+                                ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            size="sm"
+                            disabled={!isChanged(user) || saveMutation.isPending}
+                            onClick={() => saveMutation.mutate(user.user_id)}
+                          >
+                            Save
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,40 @@
+import type { Adjustment, AdjustmentType } from './commissionEngine.ts';
+import { monthRange } from './periods.ts';
+import { restGet } from './rest.ts';
+
+export interface AdjustmentRow {
+  id: string;
+  rep_id: string;
+  month: string;
+  type: AdjustmentType;
+  amount: number;
+  reason: string;
+  created_by: string | null;
+  created_by_email: string | null;
+  created_at: string;
+}
+
+/**
+ * Adjustments for the months [periodStart, periodEnd] touches, grouped by rep (HubSpot owner id).
+ * Pass a rep id to read only that rep's.
+ */
+export async function fetchAdjustments(
+  supabaseUrl: string,
+  supabaseKey: string,
+  periodStart: string,
+  periodEnd: string,
+  repId?: string
+): Promise<Record<string, Adjustment[]>> {
+  const [firstMonth, lastMonth] = monthRange(periodStart, periodEnd);
+  let path = `commission_adjustments?select=*&month=gte.${firstMonth}&month=lte.${lastMonth}&order=created_at`;
+  if (repId) {
+    path += `&rep_id=eq.${encodeURIComponent(repId)}`;
+  }
+  const rows: AdjustmentRow[] = await restGet(supabaseUrl, supabaseKey, path, 'commission adjustments');
+
+  const byRep: Record<string, Adjustment[]> = {};
+  for (const row of rows) {
+    (byRep[row.rep_id] ||= []).push({ id: row.id, type: row.type, amount: Number(row.amount), reason: row.reason });
+  }
+  return byRep;
+}
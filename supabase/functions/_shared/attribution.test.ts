@@ -0,0 +1,180 @@
+// Tests for deal and meeting attribution, and for the calculation every run path shares. The
+// paid-deal lookup made during a calculation is answered by a local server with no statements.
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { type AttributionSource, attributeRepActivity, matchesSdrOwner } from './attribution.ts';
+import type { CommissionSettings, Team } from './commissionEngine.ts';
+import type { SnapshotObject } from './crmSnapshot.ts';
+import { DEFAULT_HUBSPOT_MAPPING } from './hubspotMapping.ts';
+import { calculateRepCommission, type PeriodInputs } from './periodRun.ts';
+import type { RepRow } from './reps.ts';
+
+const mapping = DEFAULT_HUBSPOT_MAPPING;
+
+const rep: RepRow = {
+  id: 'rep-row-1',
+  hubspot_owner_id: '101',
+  name: 'Sam Rivera',
+  email: 'sam@example.com',
+  hubspot_teams: [],
+  role: 'SDR',
+  plan_id: null,
+  start_date: null,
+  active: true,
+  manager_id: null,
+  last_synced_at: null,
+  user_id: null,
+};
+
+function deal(id: string, properties: Record<string, string>): SnapshotObject {
+  return {
+    id,
+    properties: {
+      dealname: `Deal ${id}`,
+      dealstage: 'closedwon',
+      closedate: '2025-11-10T00:00:00.000Z',
+      [mapping.deal_amount_property]: '1000',
+      ...properties,
+    },
+    dealIds: [],
+  };
+}
+
+function meeting(id: string, dealIds: string[], properties: Record<string, string> = {}): SnapshotObject {
+  return {
+    id,
+    properties: {
+      hs_meeting_start_time: '2025-11-12T15:00:00.000Z',
+      hs_meeting_title: `Meeting ${id}`,
+      [mapping.meeting_type_property]: 'Sales Discovery',
+      [mapping.meeting_outcome_property]: 'COMPLETED',
+      ...properties,
+    },
+    dealIds,
+  };
+}
+
+const sdrDeal = deal('d-sdr', { hubspot_owner_id: '900', [mapping.deal_sdr_owner_property]: 'Sam Rivera', [mapping.deal_channel_property]: 'Outbound' });
+const otherSdrDeal = deal('d-other', { hubspot_owner_id: '900', [mapping.deal_sdr_owner_property]: 'Alex Chen' });
+const inboundDeal = deal('d-inbound', { hubspot_owner_id: '900', [mapping.deal_channel_property]: 'Inbound - Website' });
+
+const source: AttributionSource = {
+  deals: [sdrDeal, otherSdrDeal, inboundDeal],
+  meetings: [
+    // Logged by someone else, but booked for Sam's deal
+    meeting('m-sdr', ['d-sdr'], { hubspot_owner_id: '900' }),
+    // Logged by Sam, but booked for another SDR's deal
+    meeting('m-other', ['d-other'], { hubspot_owner_id: '101' }),
+    meeting('m-inbound', ['d-inbound']),
+    meeting('m-no-show', ['d-sdr'], { [mapping.meeting_outcome_property]: 'NO_SHOW' }),
+    // Not a sales discovery meeting, so the engine wouldn't pay for it either
+    meeting('m-discovery-call', ['d-sdr'], { [mapping.meeting_type_property]: 'Discovery Call' }),
+    meeting('m-no-deal', []),
+  ],
+  meetingDealsById: new Map([sdrDeal, otherSdrDeal, inboundDeal].map(d => [d.id, d])),
+};
+
+const credited = (role: Team, who: Partial<RepRow> = {}) => {
+  const attribution = attributeRepActivity(role, { ...rep, ...who }, source, mapping);
+  return { deals: attribution.deals.map(d => d.id), meetings: attribution.meetings.map(m => m.id) };
+};
+
+describe('matchesSdrOwner', () => {
+  it('matches the owner id, email, full or partial name and first name', () => {
+    expect(matchesSdrOwner('101', rep)).toBe(true);
+    expect(matchesSdrOwner('SAM@example.com', rep)).toBe(true);
+    expect(matchesSdrOwner(' Sam Rivera ', rep)).toBe(true);
+    expect(matchesSdrOwner('Sam Rivera (SDR)', rep)).toBe(true);
+    expect(matchesSdrOwner('Rivera', rep)).toBe(true);
+    expect(matchesSdrOwner('sam r.', rep)).toBe(true);
+    expect(matchesSdrOwner('Alex Chen', rep)).toBe(false);
+    expect(matchesSdrOwner('', rep)).toBe(false);
+  });
+
+  it('does not match every deal for a rep with no email', () => {
+    expect(matchesSdrOwner('Alex Chen', { ...rep, email: null })).toBe(false);
+    expect(matchesSdrOwner('alex@example.com', { ...rep, email: '' })).toBe(false);
+  });
+});
+
+describe('attributeRepActivity', () => {
+  it('credits SDRs with their deals and the meetings booked for them', () => {
+    expect(credited('SDR')).toEqual({ deals: ['d-sdr'], meetings: ['m-sdr'] });
+  });
+
+  it('credits a rep with no email only with deals naming them', () => {
+    expect(credited('SDR', { email: null })).toEqual({ deals: ['d-sdr'], meetings: ['m-sdr'] });
+  });
+
+  it('credits Marketing with inbound deals no SDR worked and their meetings', () => {
+    expect(credited('Marketing')).toEqual({ deals: ['d-inbound'], meetings: ['m-inbound'] });
+  });
+
+  it('credits AEs with the deals they own and no meetings', () => {
+    expect(credited('AE', { hubspot_owner_id: '900' })).toEqual({ deals: ['d-sdr', 'd-other', 'd-inbound'], meetings: [] });
+  });
+});
+
+describe('calculateRepCommission', () => {
+  const settings: CommissionSettings = {
+    ae_brackets: [{ min: 0, max: null, percent: 10 }],
+    ae_bracket_mode: 'flat',
+    ae_bracket_basis: 'amount',
+    ae_payment_term_bonuses: [],
+    ae_revenue_multiplier_brackets: [],
+    sdr_meeting_tiers: [{ min: 0, max: null, bonus_amount: 50 }],
+    sdr_closed_won_percent: 5,
+    sdr_revenue_multiplier_brackets: [],
+    marketing_same_as_sdr: false,
+    marketing_inbound_percent: 3,
+    marketing_revenue_multiplier_brackets: [],
+    clawback_window_days: 90,
+    clawback_percent: 100,
+  };
+
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    server = createServer((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end('[]');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  function inputs(role: Team): PeriodInputs {
+    return {
+      periodStart: '2025-11-01T00:00:00.000Z',
+      periodEnd: '2025-11-30T23:59:59.999Z',
+      crmSyncRunId: 7,
+      plans: [{ id: 'plan-1', name: `${role} plan`, role, is_default: true }],
+      assignments: [],
+      versionsByPlan: {
+        'plan-1': { ...settings, id: 'version-1', plan_id: 'plan-1', version: 1, effective_from: '2025-01-01T00:00:00.000Z', effective_to: null },
+      },
+      quotasByRep: {},
+      adjustmentsByRep: {},
+      mapping,
+      dealResults: source.deals,
+      meetingResults: source.meetings,
+      meetingDealsById: source.meetingDealsById,
+    };
+  }
+
+  // Manual runs, batch jobs and running totals all calculate through here
+  it.each(['SDR', 'Marketing'] as Team[])('pays %s reps for exactly what attribution credits', async role => {
+    const calculation = await calculateRepCommission(baseUrl, 'test-key', inputs(role), { ...rep, role });
+
+    expect(calculation.attribution).toEqual(attributeRepActivity(role, rep, source, mapping));
+    expect(calculation.meetings.map(m => m.id)).toEqual(credited(role).meetings);
+    expect(calculation.result.dealsFetched).toBe(source.deals.length);
+    expect(calculation.result.crmSyncRunId).toBe(7);
+  });
+});
@@ -0,0 +1,145 @@
+import { type Deal, isQualifyingMeeting, type Meeting, type Team } from './commissionEngine.ts';
+import type { SnapshotObject } from './crmSnapshot.ts';
+import type { HubSpotMapping } from './hubspotMapping.ts';
+import type { RepRow } from './reps.ts';
+
+/** A snapshot deal as the engine takes it, with the fields attribution reads. */
+export interface AttributedDeal extends Deal {
+  id: string;
+  dealname: string;
+  sdr_owner: string;
+  deal_channel: string;
+  /** Whether the deal counts towards the rep being attributed */
+  credited: boolean;
+}
+
+/** What a rep is credited with from the period's deals and meetings. */
+export interface RepAttribution {
+  /** Every deal closing in the period, credited or not */
+  allDeals: AttributedDeal[];
+  deals: AttributedDeal[];
+  meetings: Meeting[];
+}
+
+/** The period's CRM records that attribution chooses from; the same for every rep. */
+export interface AttributionSource {
+  deals: SnapshotObject[];
+  meetings: SnapshotObject[];
+  /** The deals the meetings are associated with, keyed by id; deleted deals are missing */
+  meetingDealsById: Map<string, SnapshotObject>;
+}
+
+type RepIdentity = Pick<RepRow, 'hubspot_owner_id' | 'name' | 'email'>;
+
+const normalize = (value: unknown) => (value ?? '').toString().trim().toLowerCase();
+
+/**
+ * Whether a deal's SDR owner field names the rep. The field is free text in most portals, so
+ * it may hold the owner id, the email, the full name, part of it or just the first name.
+ */
+export function matchesSdrOwner(sdrOwner: string | null | undefined, rep: RepIdentity): boolean {
+  const sdr = normalize(sdrOwner);
+  if (!sdr) return false;
+
+  // Every check needs a value on the rep's side: an empty email or name is part of any string
+  const id = normalize(rep.hubspot_owner_id);
+  const email = normalize(rep.email);
+  const name = normalize(rep.name);
+  const firstName = name.split(' ')[0];
+
+  return (!!id && sdr === id) ||
+    (!!email && sdr.includes(email)) ||
+    (!!name && (sdr.includes(name) || name.includes(sdr))) ||
+    (firstName.length > 2 && sdr.includes(firstName));
+}
+
+function toDeal(deal: SnapshotObject, mapping: HubSpotMapping): Omit<AttributedDeal, 'credited'> {
+  const p = deal.properties;
+  return {
+    id: deal.id,
+    dealname: p.dealname || `Deal ${deal.id}`,
+    amount: parseFloat(p[mapping.deal_amount_property]) || 0,
+    closedate: p.closedate,
+    dealstage: p.dealstage,
+    hubspot_owner_id: p.hubspot_owner_id,
+    sdr_owner: (p[mapping.deal_sdr_owner_property] ?? '').toString().trim(),
+    deal_channel: (p[mapping.deal_channel_property] ?? '').toString().trim(),
+    payment_terms: p[mapping.deal_payment_terms_property],
+  };
+}
+
+/**
+ * Whether a deal counts for a rep on a plan for the given role: AEs own it, SDRs are its SDR
+ * owner, and Marketing gets inbound deals no SDR worked.
+ */
+function creditsDeal(role: Team, deal: Omit<AttributedDeal, 'credited'>, rep: RepIdentity): boolean {
+  switch (role) {
+    case 'AE':
+      return normalize(deal.hubspot_owner_id) === normalize(rep.hubspot_owner_id);
+    case 'SDR':
+      return matchesSdrOwner(deal.sdr_owner, rep);
+    case 'Marketing':
+      return !deal.sdr_owner && normalize(deal.deal_channel).includes('inbound');
+  }
+}
+
+function toMeeting(meeting: SnapshotObject, mapping: HubSpotMapping): Meeting {
+  const p = meeting.properties;
+  return {
+    id: meeting.id,
+    timestamp: new Date(p.hs_meeting_start_time).toISOString(),
+    title: p.hs_meeting_title,
+    activity: { type: p[mapping.meeting_type_property] },
+    status: p[mapping.meeting_outcome_property],
+  };
+}
+
+/**
+ * A meeting goes to whoever sourced the deal it was booked for: the SDR named on one of its
+ * deals, or Marketing when one of them has no SDR. Who logged the meeting doesn't matter, and a
+ * meeting with no deals in the snapshot goes to nobody.
+ */
+function creditsMeeting(
+  role: Team,
+  meeting: SnapshotObject,
+  dealsById: Map<string, SnapshotObject>,
+  mapping: HubSpotMapping,
+  rep: RepIdentity
+): boolean {
+  if (role !== 'SDR' && role !== 'Marketing') return false;
+
+  return meeting.dealIds.some(dealId => {
+    const deal = dealsById.get(dealId);
+    if (!deal) return false;
+    const sdrOwner = (deal.properties[mapping.deal_sdr_owner_property] ?? '').toString().trim();
+    return role === 'SDR' ? matchesSdrOwner(sdrOwner, rep) : !sdrOwner;
+  });
+}
+
+/**
+ * The deals and meetings a rep is credited with, by the attribution rules of their plan's role.
+ * Every calculation goes through this, so a manual run, a batch run and a rep's running total
+ * always agree.
+ */
+export function attributeRepActivity(
+  role: Team,
+  rep: RepIdentity,
+  source: AttributionSource,
+  mapping: HubSpotMapping
+): RepAttribution {
+  const allDeals = source.deals.map(snapshotDeal => {
+    const deal = toDeal(snapshotDeal, mapping);
+    return { ...deal, credited: creditsDeal(role, deal, rep) };
+  });
+
+  const meetings = source.meetings
+    .filter(meeting => creditsMeeting(role, meeting, source.meetingDealsById, mapping, rep))
+    .map(meeting => toMeeting(meeting, mapping))
+    .filter(isQualifyingMeeting);
+
+  return {
+    allDeals,
+    deals: allDeals.filter(deal => deal.credited),
+    meetings,
+  };
+}
@@ -0,0 +1,47 @@
+import { restGet } from './rest.ts';
+
+export type AppRole = 'admin' | 'finance' | 'manager' | 'rep';
+
+export const APP_ROLES: AppRole[] = ['admin', 'finance', 'manager', 'rep'];
+
+/** The caller isn't signed in (401) or holds none of the roles a function allows (403). */
+export class AccessDeniedError extends Error {
+  constructor(message: string, public readonly status: 401 | 403) {
+    super(message);
+    this.name = 'AccessDeniedError';
+  }
+}
+
+/**
+ * Checks the caller of an edge function holds one of `roles`, and returns their user id.
+ * Calls made with the service role key, like the job worker handing work to itself, pass
+ * with no user.
+ */
+export async function requireRole(
+  req: Request,
+  supabaseUrl: string,
+  supabaseKey: string,
+  roles: AppRole[]
+): Promise<string | null> {
+  const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+  if (token === supabaseKey) return null;
+
+  const response = await fetch(`${supabaseUrl}/auth/v1/user`, {
+    headers: { 'apikey': supabaseKey, 'Authorization': `Bearer ${token}` },
+  });
+  if (!response.ok) {
+    throw new AccessDeniedError('Sign in to do this', 401);
+  }
+  const user: { id: string } = await response.json();
+
+  const held: { role: AppRole }[] = await restGet(
+    supabaseUrl,
+    supabaseKey,
+    `user_roles?select=role&user_id=eq.${user.id}&role=in.(${roles.join(',')})`,
+    'user roles'
+  );
+  if (held.length === 0) {
+    throw new AccessDeniedError(`Only ${roles.join(' or ')} users can do this`, 403);
+  }
+  return user.id;
+}
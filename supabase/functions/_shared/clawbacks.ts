@@ -0,0 +1,109 @@
+import type { PaidDeal } from './commissionEngine.ts';
+import { fetchSnapshotDealsById } from './crmSnapshot.ts';
+import type { HubSpotMapping } from './hubspotMapping.ts';
+import { restGet } from './rest.ts';
+
+// Keeps the run_log_id=in.(...) filter well under URL length limits
+const RUN_LOG_CHUNK_SIZE = 100;
+
+interface PaidDealLine {
+  run_log_id: string;
+  hubspot_id: string;
+  description: string;
+  amount: number | null;
+  rule: string;
+  commission: number;
+}
+
+/**
+ * Deals the rep was paid on in statements that ended before periodStart, with what was
+ * paid and already clawed back for each, and the deal's state in the given CRM snapshot.
+ */
+export async function fetchPaidDeals(
+  supabaseUrl: string,
+  supabaseKey: string,
+  repId: string,
+  periodStart: string,
+  syncRunId: number,
+  mapping: Pick<HubSpotMapping, 'deal_amount_property'>
+): Promise<PaidDeal[]> {
+  const statements: { run_log_id: string; period_start: string; period_end: string }[] = await restGet(
+    supabaseUrl,
+    supabaseKey,
+    `commission_statements?select=run_log_id,period_start,period_end&rep_id=eq.${encodeURIComponent(repId)}` +
+      `&status=eq.paid&period_end=lt.${encodeURIComponent(new Date(periodStart).toISOString())}` +
+      `&order=created_at.desc`,
+    'paid statements'
+  );
+  if (statements.length === 0) return [];
+
+  // Only the latest paid statement for each period counts; an older one paid alongside it
+  // would otherwise add its deals' commission a second time
+  const periodEndByRun = new Map<string, string>();
+  const periodsSeen = new Set<string>();
+  for (const statement of statements) {
+    const period = `${statement.period_start}|${statement.period_end}`;
+    if (periodsSeen.has(period)) continue;
+    periodsSeen.add(period);
+    periodEndByRun.set(statement.run_log_id, statement.period_end);
+  }
+
+  const lines: PaidDealLine[] = [];
+  const runLogIds = [...periodEndByRun.keys()];
+  for (let i = 0; i < runLogIds.length; i += RUN_LOG_CHUNK_SIZE) {
+    const list = runLogIds.slice(i, i + RUN_LOG_CHUNK_SIZE).join(',');
+    lines.push(...await restGet(
+      supabaseUrl,
+      supabaseKey,
+      `commission_line_items?select=run_log_id,hubspot_id,description,amount,rule,commission` +
+        `&source_type=eq.deal&hubspot_id=not.is.null&run_log_id=in.(${list})`,
+      'paid line items'
+    ));
+  }
+
+  const byDeal = new Map<string, PaidDeal>();
+  for (const line of lines) {
+    let deal = byDeal.get(line.hubspot_id);
+    if (!deal) {
+      deal = {
+        hubspotId: line.hubspot_id,
+        description: '',
+        paidPeriodEnd: '',
+        paidAmount: 0,
+        paidCommission: 0,
+        clawedBack: 0,
+        current: null,
+      };
+      byDeal.set(line.hubspot_id, deal);
+    }
+
+    if (line.rule === 'clawback') {
+      deal.clawedBack -= Number(line.commission);
+      continue;
+    }
+    const periodEnd = periodEndByRun.get(line.run_log_id)!;
+    if (!deal.paidPeriodEnd || new Date(periodEnd) > new Date(deal.paidPeriodEnd)) deal.paidPeriodEnd = periodEnd;
+    deal.description = line.description;
+    // A deal can be credited by more than one rule (bracket and payment term bonus) at the same amount
+    deal.paidAmount = Math.max(deal.paidAmount, Number(line.amount) || 0);
+    deal.paidCommission += Number(line.commission);
+  }
+
+  // Deals only ever clawed back (their payout fell out of the lookup) have nothing left to take
+  for (const [id, deal] of byDeal) {
+    if (!deal.paidPeriodEnd) byDeal.delete(id);
+  }
+
+  // Deals the snapshot no longer has were deleted in HubSpot and keep a null current state
+  const current = await fetchSnapshotDealsById(supabaseUrl, supabaseKey, syncRunId, [...byDeal.keys()]);
+  for (const deal of byDeal.values()) {
+    const snapshot = current.get(deal.hubspotId);
+    if (snapshot) {
+      deal.current = {
+        amount: parseFloat(snapshot.properties[mapping.deal_amount_property]) || 0,
+        dealstage: snapshot.properties.dealstage,
+      };
+    }
+  }
+  return [...byDeal.values()];
+}
@@ -0,0 +1,191 @@
+// Golden-file regression tests for the commission engine.
+//
+// Every JSON file in __fixtures__/commission holds the inputs of one calculation
+// (plan role and settings, deals, meetings, period, optional quota, adjustments and paid
+// deals) and the CommissionResult it must produce. After an intentional payout change, regenerate the expectations
+// with `UPDATE_GOLDEN=1 npm test` and review the fixture diff before committing it.
+import { readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import {
+  type Adjustment,
+  bracketStanding,
+  calculateCommission,
+  type CommissionPlan,
+  type CommissionResult,
+  type CommissionSettings,
+  type Deal,
+  type Meeting,
+  type PaidDeal,
+  type RepQuota,
+  type Team,
+} from './commissionEngine.ts';
+
+interface CommissionFixture {
+  description: string;
+  team: Team;
+  periodStart: string;
+  periodEnd: string;
+  settings: CommissionSettings;
+  deals: Deal[];
+  meetings: Meeting[];
+  quota?: RepQuota;
+  adjustments?: Adjustment[];
+  paidDeals?: PaidDeal[];
+  expected: CommissionResult;
+}
+
+const FIXTURES_DIR = join(__dirname, '__fixtures__', 'commission');
+const UPDATE_GOLDEN = !!process.env.UPDATE_GOLDEN;
+
+// Payouts are compared to the cent so float noise from multipliers doesn't fail a fixture.
+function roundMoney(value: unknown): unknown {
+  if (typeof value === 'number') return Math.round(value * 100) / 100;
+  if (Array.isArray(value)) return value.map(roundMoney);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => v !== undefined)
+        .map(([k, v]) => [k, roundMoney(v)])
+    );
+  }
+  return value;
+}
+
+// Fixtures describe the plan by its role and settings
+function planFor(fixture: CommissionFixture): CommissionPlan {
+  return { id: 'plan-1', name: `${fixture.team} test plan`, role: fixture.team, settings: fixture.settings };
+}
+
+const fixtureFiles = readdirSync(FIXTURES_DIR).filter(f => f.endsWith('.json')).sort();
+
+describe('calculateCommission golden files', () => {
+  it('has fixtures to run', () => {
+    expect(fixtureFiles.length).toBeGreaterThan(0);
+  });
+
+  for (const file of fixtureFiles) {
+    const path = join(FIXTURES_DIR, file);
+    const fixture: CommissionFixture = JSON.parse(readFileSync(path, 'utf8'));
+
+    it(`${file}: ${fixture.description}`, () => {
+      const result = calculateCommission(
+        'rep-1',
+        'Test Rep',
+        planFor(fixture),
+        fixture.deals,
+        fixture.meetings,
+        fixture.periodStart,
+        fixture.periodEnd,
+        fixture.quota,
+        fixture.adjustments,
+        fixture.paidDeals
+      );
+
+      if (UPDATE_GOLDEN) {
+        writeFileSync(path, JSON.stringify({ ...fixture, expected: roundMoney(result) }, null, 2) + '\n');
+        return;
+      }
+
+      expect(roundMoney(result)).toEqual(fixture.expected);
+    });
+  }
+});
+
+describe('calculateCommission attainment brackets', () => {
+  it('refuses to pay attainment brackets without a quota', () => {
+    const fixture: CommissionFixture = JSON.parse(
+      readFileSync(join(FIXTURES_DIR, 'ae-attainment-marginal.json'), 'utf8')
+    );
+
+    expect(() =>
+      calculateCommission('rep-1', 'Test Rep', planFor(fixture), fixture.deals, [], fixture.periodStart, fixture.periodEnd)
+    ).toThrow(/no quota/);
+  });
+});
+
+describe('calculateCommission line items', () => {
+  for (const file of fixtureFiles) {
+    const fixture: CommissionFixture = JSON.parse(readFileSync(join(FIXTURES_DIR, file), 'utf8'));
+    if (fixture.team === 'AE' && fixture.settings.ae_bracket_basis === 'attainment' && !fixture.quota) continue;
+
+    it(`${file}: lines add up to the total commission`, () => {
+      const result = calculateCommission(
+        'rep-1',
+        'Test Rep',
+        planFor(fixture),
+        fixture.deals,
+        fixture.meetings,
+        fixture.periodStart,
+        fixture.periodEnd,
+        fixture.quota,
+        fixture.adjustments,
+        fixture.paidDeals
+      );
+
+      const lineTotal = result.lineItems.reduce((sum, line) => sum + line.commission, 0);
+      expect(lineTotal).toBeCloseTo(result.totalCommission, 6);
+    });
+  }
+});
+
+describe('bracketStanding', () => {
+  function standingFor(file: string, periodEnd?: string) {
+    const fixture: CommissionFixture = JSON.parse(readFileSync(join(FIXTURES_DIR, file), 'utf8'));
+    const plan = planFor(fixture);
+    const result = calculateCommission(
+      'rep-1',
+      'Test Rep',
+      plan,
+      fixture.deals,
+      fixture.meetings,
+      fixture.periodStart,
+      periodEnd ?? fixture.periodEnd,
+      fixture.quota,
+      fixture.adjustments,
+      fixture.paidDeals
+    );
+    return bracketStanding(plan, result, fixture.meetings);
+  }
+
+  it('places AE revenue in its bracket with the distance to the next', () => {
+    expect(standingFor('ae-marginal-bracket-edge.json')).toEqual({
+      measure: 'revenue',
+      value: 50001,
+      current: { min: 50000, max: 100000, rate: 7.5 },
+      next: { min: 100000, rate: 10 },
+      toNext: 49999,
+    });
+  });
+
+  it('measures attainment brackets in percent of quota', () => {
+    expect(standingFor('ae-attainment-marginal.json')).toEqual({
+      measure: 'attainment',
+      value: 75,
+      current: { min: 50, max: 100, rate: 6 },
+      next: { min: 100, rate: 12 },
+      toNext: 25,
+    });
+  });
+
+  it('counts SDR meetings in the week the period ends in', () => {
+    expect(standingFor('sdr-weekly-tiers.json', '2025-03-14T23:59:59.000Z')).toEqual({
+      measure: 'weekly_meetings',
+      value: 6,
+      current: { min: 5, max: 10, rate: 100 },
+      next: { min: 10, rate: 150 },
+      toNext: 4,
+    });
+  });
+
+  it('has no next bracket in the open top bracket', () => {
+    const standing = standingFor('ae-open-ended-top-bracket.json');
+    expect(standing?.current?.max).toBeNull();
+    expect(standing?.next).toBeNull();
+    expect(standing?.toNext).toBeNull();
+  });
+
+  it('gives Marketing on the inbound percentage no standing', () => {
+    expect(standingFor('marketing-inbound.json')).toBeNull();
+  });
+});
@@ -0,0 +1,595 @@
+// Shared commission engine.
+//
+// This module is imported by the Vite app (via src/lib/commissionEngine.ts) and by
+// every edge function, so it must stay free of third-party and URL imports. Dates
+// are handled in UTC so the browser and Deno group meetings into the same weeks.
+
+export type Team = 'AE' | 'SDR' | 'Marketing';
+
+/**
+ * 'flat' pays the whole revenue at the rate of the bracket it lands in.
+ * 'marginal' pays each slice of revenue at its own bracket's rate.
+ */
+export type AeBracketMode = 'flat' | 'marginal';
+
+/**
+ * 'amount' brackets are absolute dollar ranges shared by every AE.
+ * 'attainment' brackets are percent-of-quota ranges (e.g. 0-50, 50-100, 100+ accelerator).
+ */
+export type AeBracketBasis = 'amount' | 'attainment';
+
+export interface RepQuota {
+  amount: number;
+  period: 'monthly' | 'quarterly';
+}
+
+/** min/max are in the brackets' own unit: dollars or percent of quota. */
+export interface BracketSlice {
+  min: number;
+  max: number | null;
+  percent: number;
+  revenue: number;
+  commission: number;
+}
+
+export interface CommissionSettings {
+  ae_brackets: { min: number; max: number | null; percent: number }[];
+  ae_bracket_mode: AeBracketMode;
+  ae_bracket_basis: AeBracketBasis;
+  ae_payment_term_bonuses: { term: string; bonus_percent: number }[];
+  ae_revenue_multiplier_brackets: { min: number; max: number | null; multiplier: number }[];
+  sdr_meeting_tiers: { min: number; max: number | null; bonus_amount: number }[];
+  sdr_closed_won_percent: number;
+  sdr_revenue_multiplier_brackets: { min: number; max: number | null; multiplier: number }[];
+  marketing_same_as_sdr: boolean;
+  marketing_inbound_percent: number;
+  marketing_revenue_multiplier_brackets: { min: number; max: number | null; multiplier: number }[];
+  /** Days after the end of the period a deal was paid in during which it can still be clawed back; 0 turns clawbacks off. */
+  clawback_window_days: number;
+  /** Share of the lost commission taken back, in percent. */
+  clawback_percent: number;
+}
+
+/**
+ * A named plan as the engine sees it: the role decides which rule set pays
+ * (AE brackets, SDR meeting tiers or Marketing inbound), the settings hold its rates.
+ */
+export interface CommissionPlan {
+  id: string;
+  name: string;
+  role: Team;
+  settings: CommissionSettings;
+}
+
+export interface Deal {
+  id?: string;
+  dealname?: string;
+  amount: number;
+  closedate: string;
+  dealstage: string;
+  hubspot_owner_id: string;
+  deal_channel?: string;
+  payment_terms?: string;
+}
+
+export interface Meeting {
+  id?: string;
+  timestamp: string;
+  activity?: {
+    type?: string;
+  };
+  status?: string;
+  subject?: string;
+  title?: string;
+  meeting_name?: string;
+  engagement_status?: string;
+  dealname?: string;
+  deal_name?: string;
+  properties?: {
+    dealname?: string;
+  };
+}
+
+export type AdjustmentType = 'spiff' | 'correction' | 'draw' | 'clawback';
+
+/** A manual amount added to (or, when negative, taken off) a rep's commission for a period. */
+export interface Adjustment {
+  id?: string;
+  type: AdjustmentType;
+  amount: number;
+  reason: string;
+}
+
+/**
+ * A deal paid on in an earlier period, summed over the paid statements that credited it,
+ * together with its current state in the CRM (null when it was deleted there).
+ */
+export interface PaidDeal {
+  hubspotId: string;
+  description: string;
+  /** End of the latest period the deal was paid in. */
+  paidPeriodEnd: string;
+  /** Deal amount when it was paid. */
+  paidAmount: number;
+  /** Commission paid for the deal, not counting clawbacks. */
+  paidCommission: number;
+  /** Commission already clawed back for the deal, as a positive number. */
+  clawedBack: number;
+  current: Pick<Deal, 'amount' | 'dealstage'> | null;
+}
+
+export type LineItemRule =
+  | 'ae_bracket'
+  | 'ae_payment_term_bonus'
+  | 'sdr_meeting_tier'
+  | 'sdr_closed_won'
+  | 'marketing_inbound'
+  | AdjustmentType;
+
+/**
+ * One credited deal, meeting or adjustment and what it earned. `rate` is a percent of `amount`
+ * on deal lines, the dollar bonus per meeting on meeting lines and unused (0) on adjustment lines.
+ *
+ * Brackets and the closed-won and inbound percentages pay on pooled revenue; each deal gets
+ * a share of that pool in proportion to its amount, so a run's lines add up to its totalCommission.
+ */
+export interface CommissionLineItem {
+  sourceType: 'deal' | 'meeting' | 'adjustment';
+  hubspotId?: string;
+  adjustmentId?: string;
+  description: string;
+  amount: number | null;
+  rule: LineItemRule;
+  rate: number;
+  commission: number;
+}
+
+export interface CommissionResult {
+  repId: string;
+  repName: string;
+  team: Team;
+  planId: string;
+  planName: string;
+  periodStart: string;
+  periodEnd: string;
+  totalRevenue: number;
+  totalCommission: number;
+  dealCommission: number;
+  meetingBonus: number;
+  adjustmentTotal: number;
+  clawbackTotal: number;
+  totalMeetings: number;
+  weeklyBreakdown?: { week: number; weekLabel: string; meetings: number; bonus: number }[];
+  bracketBreakdown?: BracketSlice[];
+  bracketBasis?: AeBracketBasis;
+  quota?: number;
+  attainmentPercent?: number;
+  usedPaymentTermBonuses?: { term: string; amount: number }[];
+  lineItems: CommissionLineItem[];
+}
+
+/**
+ * Where a rep stands in their plan's brackets or tiers: the one `value` falls in and how far
+ * off the next one is. `rate` is a percent for AE brackets and dollars per meeting for SDR tiers.
+ */
+export interface BracketStanding {
+  /** Dollars of (multiplied) revenue, percent of quota, or qualifying meetings in the period's last week. */
+  measure: 'revenue' | 'attainment' | 'weekly_meetings';
+  value: number;
+  current: { min: number; max: number | null; rate: number } | null;
+  next: { min: number; rate: number } | null;
+  toNext: number | null;
+}
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+/** Deal stage can be "closedwon" (one word) or "Closed Won". */
+export function isClosedWon(deal: Pick<Deal, 'dealstage'>): boolean {
+  const stage = deal.dealstage?.toLowerCase() || '';
+  return stage === 'closedwon' || (stage.includes('closed') && stage.includes('won'));
+}
+
+/**
+ * Only completed sales discovery meetings count towards the SDR meeting bonus. Attribution
+ * credits meetings by this too, so what a rep is credited with is what they are paid for.
+ */
+export function isQualifyingMeeting(meeting: Meeting): boolean {
+  const type = meeting.activity?.type?.trim().toLowerCase() || '';
+  const isCompleted = meeting.status?.trim().toLowerCase() === 'completed';
+  return isCompleted && type.includes('sales') && type.includes('discovery');
+}
+
+/** ISO-8601 week number of the given date, computed in UTC. */
+export function getISOWeek(date: Date): number {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const dayNum = d.getUTCDay() || 7;
+  d.setUTCDate(d.getUTCDate() + 4 - dayNum);
+  const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
+  return Math.ceil((((d.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
+}
+
+// Monday of the week containing `date`, as yyyy-MM-dd (UTC).
+function weekStartKey(date: Date): string {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const dayNum = d.getUTCDay() || 7;
+  d.setUTCDate(d.getUTCDate() - (dayNum - 1));
+  return d.toISOString().slice(0, 10);
+}
+
+/** Effective AE bracket rate across all slices, e.g. for HubSpot's deals_rate_applied. */
+export function blendedBracketPercent(breakdown: BracketSlice[] | undefined): number {
+  const revenue = (breakdown || []).reduce((sum, slice) => sum + slice.revenue, 0);
+  if (!revenue) return 0;
+  const commission = breakdown!.reduce((sum, slice) => sum + slice.commission, 0);
+  return (commission / revenue) * 100;
+}
+
+/**
+ * Number of calendar months a period touches, used to scale a quota to the period.
+ * A calendar month is one month, so March 1-31 is 1 and Jan 1 - Mar 31 is 3.
+ */
+export function monthsInPeriod(periodStart: string, periodEnd: string): number {
+  const start = new Date(periodStart);
+  const end = new Date(periodEnd);
+  const months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + (end.getUTCMonth() - start.getUTCMonth()) + 1;
+  return Math.max(1, months);
+}
+
+/** Quota for the period being calculated; quarterly quotas are spread evenly over their three months. */
+export function periodQuota(quota: RepQuota, periodStart: string, periodEnd: string): number {
+  const monthlyQuota = quota.period === 'quarterly' ? quota.amount / 3 : quota.amount;
+  return monthlyQuota * monthsInPeriod(periodStart, periodEnd);
+}
+
+// `scale` converts bracket units into dollars: 1 for amount brackets, quota / 100 for attainment brackets.
+function applyBrackets(
+  revenue: number,
+  brackets: { min: number; max: number | null; percent: number }[],
+  mode: AeBracketMode,
+  scale = 1
+): BracketSlice[] {
+  if (mode === 'marginal') {
+    return [...brackets]
+      .sort((a, b) => a.min - b.min)
+      .map(b => {
+        const upper = b.max === null ? Infinity : b.max * scale;
+        const sliceRevenue = Math.max(0, Math.min(revenue, upper) - b.min * scale);
+        return { ...b, revenue: sliceRevenue, commission: sliceRevenue * (b.percent / 100) };
+      })
+      .filter(slice => slice.revenue > 0);
+  }
+
+  const bracket = brackets.find(b =>
+    revenue >= b.min * scale && (b.max === null || revenue < b.max * scale)
+  );
+  return bracket ? [{ ...bracket, revenue, commission: revenue * (bracket.percent / 100) }] : [];
+}
+
+function applyMultiplier(
+  revenue: number,
+  brackets: { min: number; max: number | null; multiplier: number }[] | undefined
+): number {
+  if (!brackets) return revenue;
+  const multiplierBracket = brackets.find(b =>
+    revenue >= b.min && (b.max === null || revenue < b.max)
+  );
+  return multiplierBracket ? revenue * multiplierBracket.multiplier : revenue;
+}
+
+function dealLabel(deal: Deal): string {
+  return deal.dealname || (deal.id ? `Deal ${deal.id}` : 'Unnamed deal');
+}
+
+function meetingLabel(meeting: Meeting): string {
+  return meeting.title || meeting.subject || meeting.meeting_name || `Meeting on ${meeting.timestamp.slice(0, 10)}`;
+}
+
+// Splits commission paid on pooled revenue across the deals that make up the pool
+function shareByAmount(deals: Deal[], pooledCommission: number, rule: LineItemRule): CommissionLineItem[] {
+  const pooledRevenue = deals.reduce((sum, deal) => sum + (deal.amount || 0), 0);
+  return deals.map(deal => {
+    const amount = deal.amount || 0;
+    const commission = pooledRevenue ? pooledCommission * (amount / pooledRevenue) : 0;
+    return {
+      sourceType: 'deal',
+      hubspotId: deal.id,
+      description: dealLabel(deal),
+      amount,
+      rule,
+      rate: amount ? (commission / amount) * 100 : 0,
+      commission,
+    };
+  });
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Negative lines taking back commission on earlier-paid deals that have since left closed won
+ * or been deleted from the CRM (all of it) or dropped in amount (the lost share), scaled by the
+ * plan's clawback percent.
+ * What was already clawed back in earlier periods is netted off, so each loss is taken once.
+ */
+export function calculateClawbacks(paidDeals: PaidDeal[], settings: CommissionSettings, periodEnd: string): CommissionLineItem[] {
+  const windowDays = settings.clawback_window_days ?? 0;
+  const percent = settings.clawback_percent ?? 100;
+  if (windowDays <= 0 || percent <= 0) return [];
+
+  const lines: CommissionLineItem[] = [];
+  for (const deal of paidDeals) {
+    if (deal.paidAmount <= 0 || deal.paidCommission <= 0) continue;
+    if (new Date(periodEnd).getTime() - new Date(deal.paidPeriodEnd).getTime() > windowDays * DAY_MS) continue;
+
+    // A deal gone from the snapshot was deleted in HubSpot, so all of it is lost
+    const stillWon = !!deal.current && isClosedWon(deal.current);
+    const lostAmount = stillWon
+      ? Math.max(0, deal.paidAmount - (deal.current!.amount || 0))
+      : deal.paidAmount;
+    const owed = deal.paidCommission * (lostAmount / deal.paidAmount) * (percent / 100);
+    const clawback = owed - deal.clawedBack;
+    // Ignore sub-cent differences from float noise
+    if (clawback < 0.005) continue;
+
+    lines.push({
+      sourceType: 'deal',
+      hubspotId: deal.hubspotId,
+      description: !deal.current
+        ? `${deal.description} (deleted in HubSpot)`
+        : stillWon
+          ? `${deal.description} (amount dropped from ${deal.paidAmount} to ${deal.current.amount || 0})`
+          : `${deal.description} (no longer closed won)`,
+      amount: lostAmount,
+      rule: 'clawback',
+      rate: lostAmount ? (-clawback / lostAmount) * 100 : 0,
+      commission: -clawback,
+    });
+  }
+  return lines;
+}
+
+export function calculateCommission(
+  repId: string,
+  repName: string,
+  plan: CommissionPlan,
+  deals: Deal[],
+  meetings: Meeting[],
+  periodStart: string,
+  periodEnd: string,
+  quota?: RepQuota | null,
+  adjustments: Adjustment[] = [],
+  paidDeals: PaidDeal[] = []
+): CommissionResult {
+  const { role: team, settings } = plan;
+  let dealCommission = 0;
+  let meetingBonus = 0;
+  const weeklyBreakdown: { week: number; weekLabel: string; meetings: number; bonus: number }[] = [];
+  let bracketBreakdown: BracketSlice[] | undefined;
+  let bracketBasis: AeBracketBasis | undefined;
+  let quotaForPeriod: number | undefined;
+  let attainmentPercent: number | undefined;
+  const usedPaymentTermBonuses: { term: string; amount: number }[] = [];
+  const lineItems: CommissionLineItem[] = [];
+
+  const closedWonDeals = deals.filter(isClosedWon);
+  const totalRevenue = closedWonDeals.reduce((sum, deal) => sum + (deal.amount || 0), 0);
+
+  // Filter meetings first - only completed discovery meetings
+  const filteredMeetings = meetings.filter(isQualifyingMeeting);
+
+  // Apply revenue multiplier based on team
+  let adjustedRevenue = totalRevenue;
+  if (team === 'AE') {
+    adjustedRevenue = applyMultiplier(totalRevenue, settings.ae_revenue_multiplier_brackets);
+  } else if (team === 'SDR') {
+    adjustedRevenue = applyMultiplier(totalRevenue, settings.sdr_revenue_multiplier_brackets);
+  } else if (team === 'Marketing') {
+    adjustedRevenue = applyMultiplier(totalRevenue, settings.marketing_revenue_multiplier_brackets);
+  }
+
+  if (team === 'AE') {
+    // AE Logic: Monthly commission based on brackets
+    bracketBasis = settings.ae_bracket_basis || 'amount';
+    if (quota && quota.amount > 0) {
+      quotaForPeriod = periodQuota(quota, periodStart, periodEnd);
+      attainmentPercent = (adjustedRevenue / quotaForPeriod) * 100;
+    }
+
+    if (bracketBasis === 'attainment' && quotaForPeriod === undefined) {
+      throw new Error(`AE brackets are based on quota attainment but ${repName} has no quota`);
+    }
+
+    const scale = bracketBasis === 'attainment' ? quotaForPeriod! / 100 : 1;
+    bracketBreakdown = applyBrackets(adjustedRevenue, settings.ae_brackets, settings.ae_bracket_mode || 'flat', scale);
+    dealCommission = bracketBreakdown.reduce((sum, slice) => sum + slice.commission, 0);
+    lineItems.push(...shareByAmount(closedWonDeals, dealCommission, 'ae_bracket'));
+
+    // Apply payment term bonuses
+    closedWonDeals.forEach(deal => {
+      if (deal.payment_terms) {
+        const bonus = settings.ae_payment_term_bonuses.find(b =>
+          b.term.toLowerCase() === deal.payment_terms?.toLowerCase()
+        );
+        if (bonus) {
+          const bonusAmount = deal.amount * (bonus.bonus_percent / 100);
+          dealCommission += bonusAmount;
+          usedPaymentTermBonuses.push({ term: bonus.term, amount: bonusAmount });
+          lineItems.push({
+            sourceType: 'deal',
+            hubspotId: deal.id,
+            description: `${dealLabel(deal)} (${bonus.term} payment terms)`,
+            amount: deal.amount,
+            rule: 'ae_payment_term_bonus',
+            rate: bonus.bonus_percent,
+            commission: bonusAmount,
+          });
+        }
+      }
+    });
+
+  } else if (team === 'SDR' || (team === 'Marketing' && settings.marketing_same_as_sdr)) {
+    // SDR Logic or Marketing using SDR logic
+
+    // Group meetings by real week start (Monday)
+    const weeklyMeetings: Record<string, Meeting[]> = {};
+
+    filteredMeetings.forEach(meeting => {
+      const weekKey = weekStartKey(new Date(meeting.timestamp));
+      if (!weeklyMeetings[weekKey]) {
+        weeklyMeetings[weekKey] = [];
+      }
+      weeklyMeetings[weekKey].push(meeting);
+    });
+
+    // Calculate weekly bonuses
+    Object.entries(weeklyMeetings).forEach(([weekKey, weekMeetings]) => {
+      const meetingCount = weekMeetings.length;
+
+      const tier = settings.sdr_meeting_tiers.find(t =>
+        meetingCount >= t.min && (t.max === null || meetingCount <= t.max)
+      );
+
+      let weekBonus = 0;
+      if (tier) {
+        weekBonus = meetingCount * tier.bonus_amount;
+        meetingBonus += weekBonus;
+      }
+
+      // Every qualifying meeting gets a line, including weeks that reached no tier
+      const perMeeting = tier ? tier.bonus_amount : 0;
+      weekMeetings.forEach(meeting => {
+        lineItems.push({
+          sourceType: 'meeting',
+          hubspotId: meeting.id,
+          description: meetingLabel(meeting),
+          amount: null,
+          rule: 'sdr_meeting_tier',
+          rate: perMeeting,
+          commission: perMeeting,
+        });
+      });
+
+      // Month & week label logic
+      const weekStartDate = new Date(weekKey);
+      const monthName = MONTH_NAMES[weekStartDate.getUTCMonth()];
+      const weekNumber = Math.floor((weekStartDate.getUTCDate() - 1) / 7) + 1;
+      const weekLabel = `${monthName} Week ${weekNumber}`;
+
+      weeklyBreakdown.push({
+        week: weekNumber,
+        weekLabel,
+        meetings: meetingCount,
+        bonus: weekBonus
+      });
+    });
+
+    // Monthly closed won bonus (use adjusted revenue)
+    dealCommission = adjustedRevenue * (settings.sdr_closed_won_percent / 100);
+    lineItems.push(...shareByAmount(closedWonDeals, dealCommission, 'sdr_closed_won'));
+
+  } else if (team === 'Marketing' && !settings.marketing_same_as_sdr) {
+    // Marketing with inbound logic
+    const inboundDeals = closedWonDeals.filter(d =>
+      d.deal_channel?.toLowerCase() === 'inbound'
+    );
+    const inboundRevenue = inboundDeals.reduce((sum, deal) => sum + (deal.amount || 0), 0);
+
+    // Apply multiplier to inbound revenue
+    const adjustedInboundRevenue = applyMultiplier(inboundRevenue, settings.marketing_revenue_multiplier_brackets);
+
+    dealCommission = adjustedInboundRevenue * (settings.marketing_inbound_percent / 100);
+    lineItems.push(...shareByAmount(inboundDeals, dealCommission, 'marketing_inbound'));
+  }
+
+  // Adjustments are paid as they are, outside brackets and multipliers
+  adjustments.forEach(adjustment => {
+    lineItems.push({
+      sourceType: 'adjustment',
+      adjustmentId: adjustment.id,
+      description: adjustment.reason,
+      amount: null,
+      rule: adjustment.type,
+      rate: 0,
+      commission: adjustment.amount,
+    });
+  });
+  const adjustmentTotal = adjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0);
+
+  const clawbacks = calculateClawbacks(paidDeals, settings, periodEnd);
+  lineItems.push(...clawbacks);
+  const clawbackTotal = clawbacks.reduce((sum, line) => sum + line.commission, 0);
+
+  return {
+    repId,
+    repName,
+    team,
+    planId: plan.id,
+    planName: plan.name,
+    periodStart,
+    periodEnd,
+    totalRevenue,
+    totalCommission: dealCommission + meetingBonus + adjustmentTotal + clawbackTotal,
+    dealCommission,
+    meetingBonus,
+    adjustmentTotal,
+    clawbackTotal,
+    totalMeetings: filteredMeetings.length,
+    weeklyBreakdown,
+    bracketBreakdown,
+    bracketBasis,
+    quota: quotaForPeriod,
+    attainmentPercent,
+    usedPaymentTermBonuses,
+    lineItems,
+  };
+}
+
+function standingIn(
+  measure: BracketStanding['measure'],
+  value: number,
+  brackets: { min: number; max: number | null; rate: number }[],
+  maxInclusive: boolean
+): BracketStanding {
+  const sorted = [...brackets].sort((a, b) => a.min - b.min);
+  const current = sorted.find(b =>
+    value >= b.min && (b.max === null || (maxInclusive ? value <= b.max : value < b.max))
+  ) ?? null;
+  const next = sorted.find(b => b.min > value) ?? null;
+  return {
+    measure,
+    value,
+    current,
+    next: next && { min: next.min, rate: next.rate },
+    toNext: next && next.min - value,
+  };
+}
+
+/**
+ * Where a calculated rep stands at the end of the period: in the AE brackets by revenue or
+ * attainment, or in the SDR meeting tiers by the meetings of the week the period ends in.
+ * Marketing paid on the inbound percentage has no brackets, so gets null.
+ */
+export function bracketStanding(plan: CommissionPlan, result: CommissionResult, meetings: Meeting[]): BracketStanding | null {
+  const { role: team, settings } = plan;
+
+  if (team === 'AE') {
+    const brackets = settings.ae_brackets.map(b => ({ min: b.min, max: b.max, rate: b.percent }));
+    if (result.bracketBasis === 'attainment') {
+      return standingIn('attainment', result.attainmentPercent ?? 0, brackets, false);
+    }
+    return standingIn('revenue', applyMultiplier(result.totalRevenue, settings.ae_revenue_multiplier_brackets), brackets, false);
+  }
+
+  if (team === 'SDR' || settings.marketing_same_as_sdr) {
+    const lastWeek = weekStartKey(new Date(result.periodEnd));
+    const weekMeetings = meetings
+      .filter(isQualifyingMeeting)
+      .filter(meeting => weekStartKey(new Date(meeting.timestamp)) === lastWeek).length;
+    const tiers = settings.sdr_meeting_tiers.map(t => ({ min: t.min, max: t.max, rate: t.bonus_amount }));
+    return standingIn('weekly_meetings', weekMeetings, tiers, true);
+  }
+
+  return null;
+}
@@ -0,0 +1,367 @@
+import type { HubSpotClient, HubSpotObject, HubSpotPage } from './hubspot.ts';
+import { fetchHubSpotMapping, mappedDealProperties, mappedMeetingProperties } from './hubspotMapping.ts';
+import { syncRepsFromHubSpot } from './reps.ts';
+import { restGet, restRpcAll, restWrite } from './rest.ts';
+
+export interface CrmSyncRun {
+  id: number;
+  status: 'running' | 'succeeded' | 'failed';
+  started_at: string;
+  finished_at: string | null;
+  deals_cursor: string | null;
+  meetings_cursor: string | null;
+  deals_synced: number;
+  deals_archived: number;
+  meetings_synced: number;
+  meetings_archived: number;
+  owners_synced: number;
+  error_message: string | null;
+  deal_properties: string[] | null;
+  meeting_properties: string[] | null;
+}
+
+/** A deal or meeting read from the snapshot, shaped like the HubSpot object it mirrors. */
+export interface SnapshotObject extends HubSpotObject {
+  dealIds: string[];
+}
+
+// Synced alongside the properties the HubSpot mapping points at
+export const DEAL_PROPERTIES = [
+  'closedate',
+  'dealstage',
+  'dealname',
+  'hubspot_owner_id',
+  'hs_mrr',
+  'hs_lastmodifieddate',
+];
+
+export const MEETING_PROPERTIES = [
+  'hs_meeting_start_time',
+  'hs_meeting_title',
+  'hs_meeting_body',
+  'hs_created_by',
+  'hubspot_owner_id',
+  'hs_createdate',
+  'hs_internal_meeting_notes',
+  'hs_lastmodifieddate',
+];
+
+// HubSpot search stops paging at 10,000 results per query
+const SEARCH_RESULT_LIMIT = 10_000;
+const INSERT_CHUNK_SIZE = 500;
+const ID_FILTER_CHUNK_SIZE = 200;
+
+/** The most recent successful sync, or null before the first one. */
+export async function findLatestSnapshot(supabaseUrl: string, supabaseKey: string): Promise<CrmSyncRun | null> {
+  const runs: CrmSyncRun[] = await restGet(
+    supabaseUrl,
+    supabaseKey,
+    'crm_sync_runs?select=*&status=eq.succeeded&order=id.desc&limit=1',
+    'CRM snapshot'
+  );
+  return runs[0] ?? null;
+}
+
+export async function fetchLatestSnapshot(supabaseUrl: string, supabaseKey: string): Promise<CrmSyncRun> {
+  const run = await findLatestSnapshot(supabaseUrl, supabaseKey);
+  if (!run) {
+    throw new Error('No CRM snapshot has been synced yet. Run a CRM sync first.');
+  }
+  return run;
+}
+
+interface SnapshotRow {
+  hubspot_id: string;
+  properties: Record<string, string | null>;
+  deal_ids?: string[];
+}
+
+function toSnapshotObject(row: SnapshotRow): SnapshotObject {
+  return { id: row.hubspot_id, properties: row.properties, dealIds: row.deal_ids ?? [] };
+}
+
+/** Deals closing in [from, to] as of a snapshot. */
+export async function fetchSnapshotDeals(
+  supabaseUrl: string,
+  supabaseKey: string,
+  syncRunId: number,
+  from: string,
+  to: string
+): Promise<SnapshotObject[]> {
+  const query = `closedate=gte.${encodeURIComponent(new Date(from).toISOString())}` +
+    `&closedate=lte.${encodeURIComponent(new Date(to).toISOString())}&order=hubspot_id`;
+  const rows = await restRpcAll<SnapshotRow>(supabaseUrl, supabaseKey, 'crm_deals_as_of', { p_sync_run_id: syncRunId }, query, 'snapshot deals');
+  return rows.map(toSnapshotObject);
+}
+
+/** Specific deals as of a snapshot, keyed by id; deals not in the snapshot are missing. */
+export async function fetchSnapshotDealsById(
+  supabaseUrl: string,
+  supabaseKey: string,
+  syncRunId: number,
+  ids: string[]
+): Promise<Map<string, SnapshotObject>> {
+  const byId = new Map<string, SnapshotObject>();
+  const unique = [...new Set(ids)];
+
+  for (let i = 0; i < unique.length; i += ID_FILTER_CHUNK_SIZE) {
+    const list = unique.slice(i, i + ID_FILTER_CHUNK_SIZE).map(id => `"${id}"`).join(',');
+    const query = `hubspot_id=in.(${encodeURIComponent(list)})&order=hubspot_id`;
+    const rows = await restRpcAll<SnapshotRow>(supabaseUrl, supabaseKey, 'crm_deals_as_of', { p_sync_run_id: syncRunId }, query, 'snapshot deals');
+    for (const row of rows) byId.set(row.hubspot_id, toSnapshotObject(row));
+  }
+
+  return byId;
+}
+
+/** Meetings starting in [from, to] as of a snapshot, optionally only one owner's. */
+export async function fetchSnapshotMeetings(
+  supabaseUrl: string,
+  supabaseKey: string,
+  syncRunId: number,
+  from: string,
+  to: string,
+  ownerId?: string
+): Promise<SnapshotObject[]> {
+  let query = `start_time=gte.${encodeURIComponent(new Date(from).toISOString())}` +
+    `&start_time=lte.${encodeURIComponent(new Date(to).toISOString())}&order=hubspot_id`;
+  if (ownerId) {
+    query += `&properties->>hubspot_owner_id=eq.${encodeURIComponent(ownerId)}`;
+  }
+  const rows = await restRpcAll<SnapshotRow>(supabaseUrl, supabaseKey, 'crm_meetings_as_of', { p_sync_run_id: syncRunId }, query, 'snapshot meetings');
+  return rows.map(toSnapshotObject);
+}
+
+// Ids of the meetings a snapshot links to any of the given deals
+async function fetchSnapshotMeetingIdsForDeals(
+  supabaseUrl: string,
+  supabaseKey: string,
+  syncRunId: number,
+  dealIds: string[]
+): Promise<string[]> {
+  const ids = new Set<string>();
+  const unique = [...new Set(dealIds)];
+
+  for (let i = 0; i < unique.length; i += ID_FILTER_CHUNK_SIZE) {
+    const list = unique.slice(i, i + ID_FILTER_CHUNK_SIZE).map(id => `"${id}"`).join(',');
+    const query = `select=hubspot_id&deal_ids=ov.${encodeURIComponent(`{${list}}`)}&order=hubspot_id`;
+    const rows = await restRpcAll<{ hubspot_id: string }>(supabaseUrl, supabaseKey, 'crm_meetings_as_of', { p_sync_run_id: syncRunId }, query, 'snapshot meetings');
+    for (const row of rows) ids.add(row.hubspot_id);
+  }
+
+  return [...ids];
+}
+
+// HubSpot timestamps arrive as ISO strings or epoch milliseconds
+function toTimestamp(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Every object modified at or after `since`, oldest first. Searches past HubSpot's
+ * 10,000-result cap by restarting from the last modification time seen.
+ */
+async function fetchModifiedSince(
+  hubspot: HubSpotClient,
+  objectType: string,
+  properties: string[],
+  since: string | null
+): Promise<HubSpotObject[]> {
+  const byId = new Map<string, HubSpotObject>();
+  let windowStart = since ? new Date(since).getTime() : 0;
+
+  for (;;) {
+    let after: string | undefined;
+    let fetched = 0;
+    let last: HubSpotObject | undefined;
+
+    do {
+      const page = await hubspot.post<HubSpotPage<HubSpotObject>>(`/crm/v3/objects/${objectType}/search`, {
+        filterGroups: [{ filters: [{ propertyName: 'hs_lastmodifieddate', operator: 'GTE', value: windowStart }] }],
+        sorts: [{ propertyName: 'hs_lastmodifieddate', direction: 'ASCENDING' }],
+        properties,
+        limit: 200,
+        ...(after && { after }),
+      });
+      for (const object of page.results || []) {
+        byId.set(object.id, object);
+        last = object;
+      }
+      fetched += page.results?.length || 0;
+      after = page.paging?.next?.after;
+    } while (after && fetched < SEARCH_RESULT_LIMIT);
+
+    if (!after || !last) break;
+
+    const lastModified = new Date(toTimestamp(last.properties.hs_lastmodifieddate) ?? 0).getTime();
+    if (lastModified <= windowStart) {
+      throw new Error(`More than ${SEARCH_RESULT_LIMIT} ${objectType} share one modification time; cannot page past them`);
+    }
+    windowStart = lastModified;
+  }
+
+  return [...byId.values()];
+}
+
+/**
+ * Objects deleted in HubSpot since `since`, or all of them when it is null. Deleted objects
+ * drop out of search, so they're read from the archive instead.
+ */
+async function fetchArchivedSince(
+  hubspot: HubSpotClient,
+  objectType: string,
+  properties: string[],
+  since: string | null
+): Promise<HubSpotObject[]> {
+  const sinceTime = since ? new Date(since).getTime() : 0;
+  return (await hubspot.listArchived(objectType, properties))
+    .filter(object => !object.archivedAt || new Date(object.archivedAt).getTime() >= sinceTime);
+}
+
+function latestModified(objects: HubSpotObject[], fallback: string | null): string | null {
+  let latest = fallback;
+  for (const object of objects) {
+    const modified = toTimestamp(object.properties.hs_lastmodifieddate);
+    if (modified && (!latest || modified > latest)) latest = modified;
+  }
+  return latest;
+}
+
+// Whether an earlier sync requested every property needed now; records it stored lack any it didn't
+function requestedAll(requested: string[] | null | undefined, needed: string[]): boolean {
+  return !!requested && needed.every(property => requested.includes(property));
+}
+
+async function insertChunked(supabaseUrl: string, supabaseKey: string, table: string, rows: unknown[]) {
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+    await restWrite(
+      supabaseUrl,
+      supabaseKey,
+      'POST',
+      `${table}?on_conflict=hubspot_id,sync_run_id`,
+      rows.slice(i, i + INSERT_CHUNK_SIZE),
+      `write ${table}`,
+      'resolution=merge-duplicates,return=minimal'
+    );
+  }
+}
+
+/**
+ * Mirrors owners (into the rep directory), deals, meetings and meeting-deal associations
+ * from HubSpot. Only records modified since the last successful sync are read, and each
+ * is stored as a new version under this run, so older snapshots stay intact.
+ *
+ * Deals and meetings deleted in HubSpot are stored as archived tombstones, so they stop
+ * counting from this run on. Associations are read for the meetings synced in the run and for
+ * the meetings linked, before or now, to the deals synced in it, so linking a deal to an
+ * unchanged meeting is picked up too. After the HubSpot mapping starts using a property
+ * earlier syncs didn't request, every record is read again.
+ */
+export async function syncCrmSnapshot(supabaseUrl: string, supabaseKey: string, hubspot: HubSpotClient): Promise<CrmSyncRun> {
+  const previous = await findLatestSnapshot(supabaseUrl, supabaseKey);
+  const mapping = await fetchHubSpotMapping(supabaseUrl, supabaseKey);
+  const dealProperties = [...new Set([...DEAL_PROPERTIES, ...mappedDealProperties(mapping)])];
+  const meetingProperties = [...new Set([...MEETING_PROPERTIES, ...mappedMeetingProperties(mapping)])];
+  const dealsSince = requestedAll(previous?.deal_properties, dealProperties) ? previous!.deals_cursor : null;
+  const meetingsSince = requestedAll(previous?.meeting_properties, meetingProperties) ? previous!.meetings_cursor : null;
+
+  const [run]: CrmSyncRun[] = await restWrite(supabaseUrl, supabaseKey, 'POST', 'crm_sync_runs', {
+    status: 'running',
+    deal_properties: dealProperties,
+    meeting_properties: meetingProperties,
+  }, 'start CRM sync');
+  console.log(`CRM sync ${run.id} started (deals since ${dealsSince ?? 'the beginning'}, meetings since ${meetingsSince ?? 'the beginning'})`);
+
+  try {
+    const reps = await syncRepsFromHubSpot(supabaseUrl, supabaseKey, hubspot);
+
+    const deals = await fetchModifiedSince(hubspot, 'deals', dealProperties, dealsSince);
+    await insertChunked(supabaseUrl, supabaseKey, 'crm_deals', deals.map(deal => ({
+      hubspot_id: deal.id,
+      sync_run_id: run.id,
+      closedate: toTimestamp(deal.properties.closedate),
+      last_modified_at: toTimestamp(deal.properties.hs_lastmodifieddate),
+      properties: deal.properties,
+      archived: false,
+    })));
+    console.log(`CRM sync ${run.id}: ${deals.length} deals`);
+
+    // Tombstones hide deleted deals from this snapshot on
+    const archivedDeals = await fetchArchivedSince(hubspot, 'deals', dealProperties, dealsSince ? previous!.started_at : null);
+    await insertChunked(supabaseUrl, supabaseKey, 'crm_deals', archivedDeals.map(deal => ({
+      hubspot_id: deal.id,
+      sync_run_id: run.id,
+      closedate: toTimestamp(deal.properties.closedate),
+      last_modified_at: toTimestamp(deal.archivedAt ?? deal.properties.hs_lastmodifieddate),
+      properties: deal.properties,
+      archived: true,
+    })));
+    console.log(`CRM sync ${run.id}: ${archivedDeals.length} archived deals`);
+
+    const meetings = await fetchModifiedSince(hubspot, 'meetings', meetingProperties, meetingsSince);
+
+    // Linking a deal to a meeting, or unlinking it, need not modify the meeting, so the meetings
+    // the synced deals link to now or did in the last snapshot are read again for their deals.
+    // A full read has every meeting already.
+    let relinkedMeetings: HubSpotObject[] = [];
+    if (meetingsSince && deals.length > 0) {
+      const dealIds = deals.map(deal => deal.id);
+      const linkedIds = new Set([
+        ...[...(await hubspot.batchGetAssociations('deals', 'meetings', dealIds)).values()].flat(),
+        ...await fetchSnapshotMeetingIdsForDeals(supabaseUrl, supabaseKey, previous!.id, dealIds),
+      ]);
+      for (const meeting of meetings) linkedIds.delete(meeting.id);
+      // Deleted meetings aren't returned; their tombstones are written below
+      relinkedMeetings = [...(await hubspot.batchGetObjects('meetings', [...linkedIds], meetingProperties)).values()];
+    }
+
+    const syncedMeetings = [...meetings, ...relinkedMeetings];
+    const meetingDealIds = await hubspot.batchGetAssociations('meetings', 'deals', syncedMeetings.map(m => m.id));
+    await insertChunked(supabaseUrl, supabaseKey, 'crm_meetings', syncedMeetings.map(meeting => ({
+      hubspot_id: meeting.id,
+      sync_run_id: run.id,
+      start_time: toTimestamp(meeting.properties.hs_meeting_start_time),
+      last_modified_at: toTimestamp(meeting.properties.hs_lastmodifieddate),
+      properties: meeting.properties,
+      deal_ids: meetingDealIds.get(meeting.id) ?? [],
+      archived: false,
+    })));
+    console.log(`CRM sync ${run.id}: ${meetings.length} meetings, ${relinkedMeetings.length} more with deals relinked`);
+
+    // Tombstones stop deleted meetings earning a bonus from this snapshot on
+    const archivedMeetings = await fetchArchivedSince(hubspot, 'meetings', meetingProperties, meetingsSince ? previous!.started_at : null);
+    await insertChunked(supabaseUrl, supabaseKey, 'crm_meetings', archivedMeetings.map(meeting => ({
+      hubspot_id: meeting.id,
+      sync_run_id: run.id,
+      start_time: toTimestamp(meeting.properties.hs_meeting_start_time),
+      last_modified_at: toTimestamp(meeting.archivedAt ?? meeting.properties.hs_lastmodifieddate),
+      properties: meeting.properties,
+      deal_ids: [],
+      archived: true,
+    })));
+    console.log(`CRM sync ${run.id}: ${archivedMeetings.length} archived meetings`);
+
+    const [finished]: CrmSyncRun[] = await restWrite(supabaseUrl, supabaseKey, 'PATCH', `crm_sync_runs?id=eq.${run.id}`, {
+      status: 'succeeded',
+      finished_at: new Date().toISOString(),
+      deals_cursor: latestModified(deals, dealsSince),
+      meetings_cursor: latestModified(meetings, meetingsSince),
+      deals_synced: deals.length,
+      deals_archived: archivedDeals.length,
+      meetings_synced: syncedMeetings.length,
+      meetings_archived: archivedMeetings.length,
+      owners_synced: reps.length,
+    }, 'finish CRM sync');
+    return finished;
+  } catch (error: any) {
+    console.error(`CRM sync ${run.id} failed:`, error);
+    await restWrite(supabaseUrl, supabaseKey, 'PATCH', `crm_sync_runs?id=eq.${run.id}`, {
+      status: 'failed',
+      finished_at: new Date().toISOString(),
+      error_message: error.message,
+    }, 'record CRM sync failure', 'return=minimal');
+    throw error;
+  }
+}
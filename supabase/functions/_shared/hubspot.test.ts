@@ -0,0 +1,223 @@
+// Tests for the shared HubSpot client against a local mock server standing in for api.hubapi.com.
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createHubSpotClient, HubSpotError } from './hubspot.ts';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: Record<string, unknown> | undefined;
+}
+
+type Handler = (req: RecordedRequest, res: ServerResponse) => void;
+
+let server: Server;
+let baseUrl: string;
+let requests: RecordedRequest[];
+let handler: Handler;
+
+function json(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+// Replies with each response in turn, repeating the last one
+function sequence(...responses: Handler[]): Handler {
+  let call = 0;
+  return (req, res) => responses[Math.min(call++, responses.length - 1)](req, res);
+}
+
+beforeEach(async () => {
+  requests = [];
+  handler = (_req, res) => json(res, 404, { message: 'not mocked' });
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const recorded = { method: req.method!, url: req.url!, headers: req.headers, body: raw ? JSON.parse(raw) : undefined };
+      requests.push(recorded);
+      handler(recorded, res);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+function client(sleeps: number[] = [], maxRetries = 3) {
+  return createHubSpotClient({
+    token: 'test-token',
+    baseUrl,
+    maxRetries,
+    baseDelayMs: 100,
+    maxDelayMs: 1000,
+    sleep: async ms => {
+      sleeps.push(ms);
+    },
+  });
+}
+
+describe('HubSpot client', () => {
+  it('sends the token as a bearer header', async () => {
+    handler = (_req, res) => json(res, 200, { id: '1', email: 'rep@example.com' });
+
+    const owner = await client().getOwner('1');
+
+    expect(owner.email).toBe('rep@example.com');
+    expect(requests[0].url).toBe('/crm/v3/owners/1');
+    expect(requests[0].headers.authorization).toBe('Bearer test-token');
+  });
+
+  it('pages through every search result', async () => {
+    handler = (req, res) => {
+      if (!req.body?.after) {
+        json(res, 200, { results: [{ id: '1', properties: {} }], paging: { next: { after: 'page-2' } } });
+      } else {
+        json(res, 200, { results: [{ id: '2', properties: {} }] });
+      }
+    };
+
+    const deals = await client().search('deals', { filterGroups: [], properties: ['amount'] });
+
+    expect(deals.map(d => d.id)).toEqual(['1', '2']);
+    expect(requests).toHaveLength(2);
+    expect(requests[0].body).toMatchObject({ properties: ['amount'], limit: 200 });
+    expect(requests[1].body?.after).toBe('page-2');
+  });
+
+  it('pages through list endpoints with the after query parameter', async () => {
+    handler = (req, res) => {
+      if (!req.url.includes('after=')) {
+        json(res, 200, { results: [{ id: '1' }], paging: { next: { after: 'abc' } } });
+      } else {
+        json(res, 200, { results: [{ id: '2' }] });
+      }
+    };
+
+    const owners = await client().listOwners();
+
+    expect(owners.map(o => o.id)).toEqual(['1', '2']);
+    expect(requests[1].url).toContain('after=abc');
+  });
+
+  it('lists archived objects with the requested properties', async () => {
+    handler = (req, res) => {
+      if (!req.url.includes('after=')) {
+        json(res, 200, { results: [{ id: '1', properties: {}, archived: true }], paging: { next: { after: 'abc' } } });
+      } else {
+        json(res, 200, { results: [{ id: '2', properties: {}, archived: true }] });
+      }
+    };
+
+    const deals = await client().listArchived('deals', ['amount', 'closedate']);
+
+    expect(deals.map(d => d.id)).toEqual(['1', '2']);
+    expect(requests[0].url).toBe('/crm/v3/objects/deals?archived=true&limit=100&properties=amount%2Cclosedate');
+    expect(requests[1].url).toContain('after=abc');
+  });
+
+  it('backs off exponentially on 5xx responses', async () => {
+    const sleeps: number[] = [];
+    handler = sequence(
+      (_req, res) => json(res, 502, { message: 'bad gateway' }),
+      (_req, res) => json(res, 503, { message: 'unavailable' }),
+      (_req, res) => json(res, 200, { id: '1', properties: {} }),
+    );
+
+    const deal = await client(sleeps).getObject('deals', '1', ['amount']);
+
+    expect(deal.id).toBe('1');
+    expect(requests).toHaveLength(3);
+    expect(sleeps).toEqual([100, 200]);
+  });
+
+  it('waits for Retry-After on 429 responses', async () => {
+    const sleeps: number[] = [];
+    handler = sequence(
+      (_req, res) => json(res, 429, { message: 'rate limited' }, { 'Retry-After': '0.5' }),
+      (_req, res) => json(res, 200, { id: '1', properties: {} }),
+    );
+
+    await client(sleeps).getObject('deals', '1', ['amount']);
+
+    expect(requests).toHaveLength(2);
+    expect(sleeps).toEqual([500]);
+  });
+
+  it('gives up after the retry limit with the last error', async () => {
+    const sleeps: number[] = [];
+    handler = (_req, res) => json(res, 429, { message: 'rate limited' });
+
+    const error = await client(sleeps, 2).getObject('deals', '1', ['amount']).catch(e => e);
+
+    expect(error).toBeInstanceOf(HubSpotError);
+    expect(error.status).toBe(429);
+    expect(requests).toHaveLength(3);
+    expect(sleeps).toEqual([100, 200]);
+  });
+
+  it('does not retry client errors', async () => {
+    handler = (_req, res) => json(res, 400, { message: 'Invalid filter' });
+
+    const error = await client().search('deals', { filterGroups: [], properties: [] }).catch(e => e);
+
+    expect(error).toBeInstanceOf(HubSpotError);
+    expect(error.status).toBe(400);
+    expect(error.message).toContain('Invalid filter');
+    expect(requests).toHaveLength(1);
+  });
+
+  it('reads objects in batches of 100 and skips ones HubSpot cannot find', async () => {
+    handler = (req, res) => {
+      const inputs = req.body?.inputs as { id: string }[];
+      // Every third id has been deleted
+      const results = inputs.filter(i => Number(i.id) % 3 !== 0).map(i => ({ id: i.id, properties: { amount: '1' } }));
+      json(res, 207, { status: 'COMPLETE', results, errors: [] });
+    };
+    const ids = Array.from({ length: 150 }, (_, i) => String(i + 1));
+
+    const deals = await client().batchGetObjects('deals', ids, ['amount']);
+
+    expect(requests.map(r => r.url)).toEqual(['/crm/v3/objects/deals/batch/read', '/crm/v3/objects/deals/batch/read']);
+    expect(requests.map(r => (r.body?.inputs as unknown[]).length)).toEqual([100, 50]);
+    expect(deals.size).toBe(100);
+    expect(deals.has('3')).toBe(false);
+  });
+
+  it('reads associations in one batch, including objects without any', async () => {
+    handler = (_req, res) =>
+      json(res, 200, { status: 'COMPLETE', results: [{ from: { id: '10' }, to: [{ toObjectId: 1 }, { toObjectId: 2 }] }] });
+
+    const associations = await client().batchGetAssociations('meetings', 'deals', ['10', '11']);
+
+    expect(requests[0].url).toBe('/crm/v4/associations/meetings/deals/batch/read');
+    expect(associations.get('10')).toEqual(['1', '2']);
+    expect(associations.get('11')).toEqual([]);
+  });
+
+  it('serves repeated reads from the in-run cache', async () => {
+    handler = (req, res) => {
+      if (req.url.endsWith('/search')) {
+        json(res, 200, { results: [{ id: '1', properties: {} }] });
+      } else {
+        const inputs = req.body?.inputs as { id: string }[];
+        json(res, 200, { results: inputs.map(i => ({ id: i.id, properties: {} })) });
+      }
+    };
+    const hubspot = client();
+    const search = { filterGroups: [], properties: ['amount'] };
+
+    await hubspot.search('deals', search);
+    await hubspot.search('deals', search);
+    await hubspot.batchGetObjects('deals', ['1', '2'], ['amount']);
+    await hubspot.batchGetObjects('deals', ['2', '3'], ['amount']);
+
+    expect(requests).toHaveLength(3);
+    expect(requests[2].body?.inputs).toEqual([{ id: '3' }]);
+  });
+});
@@ -0,0 +1,349 @@
+// HubSpot API client shared by the edge functions: token lookup, paging, batch reads, an
+// in-run cache, and retries with exponential backoff on 429 and 5xx responses (honouring Retry-After).
+
+declare const Deno: { env: { get(name: string): string | undefined } } | undefined;
+
+export const HUBSPOT_API_URL = 'https://api.hubapi.com';
+
+export type HubSpotProperties = Record<string, string | null>;
+
+export interface HubSpotObject<P extends HubSpotProperties = HubSpotProperties> {
+  id: string;
+  properties: P;
+  createdAt?: string;
+  updatedAt?: string;
+  archived?: boolean;
+  archivedAt?: string;
+}
+
+export interface HubSpotPaging {
+  next?: { after: string; link?: string };
+}
+
+export interface HubSpotPage<T> {
+  results: T[];
+  paging?: HubSpotPaging;
+  total?: number;
+}
+
+export interface HubSpotOwner {
+  id: string;
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  userId?: number;
+  archived?: boolean;
+  teams?: { id: string; name: string; primary?: boolean }[];
+}
+
+export interface HubSpotProperty {
+  name: string;
+  label: string;
+  type: string;
+  fieldType: string;
+  groupName?: string;
+  options?: { label: string; value: string }[];
+}
+
+export interface HubSpotAssociation {
+  toObjectId: string | number;
+  associationTypes?: { category: string; typeId: number; label: string | null }[];
+}
+
+export interface HubSpotFilter {
+  propertyName: string;
+  operator: 'EQ' | 'NEQ' | 'LT' | 'LTE' | 'GT' | 'GTE' | 'BETWEEN' | 'IN' | 'NOT_IN' | 'HAS_PROPERTY' | 'NOT_HAS_PROPERTY' | 'CONTAINS_TOKEN' | 'NOT_CONTAINS_TOKEN';
+  value?: string | number;
+  highValue?: string | number;
+  values?: (string | number)[];
+}
+
+export interface HubSpotSearchRequest {
+  filterGroups: { filters: HubSpotFilter[] }[];
+  properties: string[];
+  sorts?: { propertyName: string; direction: 'ASCENDING' | 'DESCENDING' }[];
+}
+
+/** A failed HubSpot call, after any retries. */
+export class HubSpotError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly body: unknown,
+  ) {
+    super(message);
+    this.name = 'HubSpotError';
+  }
+}
+
+export interface HubSpotClientOptions {
+  /** Private app token; defaults to the HUBSPOT_PRIVATE_TOKEN secret. */
+  token?: string;
+  baseUrl?: string;
+  /** Retries after the first attempt for 429, 5xx and network errors. */
+  maxRetries?: number;
+  /** First backoff delay; doubles on each retry up to maxDelayMs. */
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+  /** Reuse object, association and owner reads for the client's lifetime (one run). Defaults to true. */
+  cache?: boolean;
+}
+
+export function getHubSpotToken(): string {
+  const token = typeof Deno !== 'undefined' ? Deno.env.get('HUBSPOT_PRIVATE_TOKEN') : undefined;
+  if (!token) {
+    throw new Error('HUBSPOT_PRIVATE_TOKEN not configured');
+  }
+  return token;
+}
+
+const SEARCH_PAGE_SIZE = 200;
+const LIST_PAGE_SIZE = 100;
+const BATCH_OBJECT_SIZE = 100;
+const BATCH_ASSOCIATION_SIZE = 1000;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function retryAfterMs(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+export function createHubSpotClient(options: HubSpotClientOptions = {}) {
+  const token = options.token ?? getHubSpotToken();
+  const baseUrl = options.baseUrl ?? HUBSPOT_API_URL;
+  const maxRetries = options.maxRetries ?? 5;
+  const baseDelayMs = options.baseDelayMs ?? 500;
+  const maxDelayMs = options.maxDelayMs ?? 30_000;
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)));
+  const useCache = options.cache ?? true;
+
+  // Objects are cached per property list, associations per direction, searches per request body
+  const objectCache = new Map<string, HubSpotObject>();
+  const associationCache = new Map<string, string[]>();
+  const pendingCache = new Map<string, Promise<unknown>>();
+  const objectKey = (objectType: string, id: string, properties: string[]) =>
+    `${objectType}:${[...properties].sort().join(',')}:${id}`;
+  const associationKey = (fromType: string, toType: string, id: string) => `${fromType}:${toType}:${id}`;
+
+  async function request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const canRetry = attempt < maxRetries;
+
+      let response: Response;
+      try {
+        response = await fetch(`${baseUrl}${path}`, {
+          method,
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+          body: body === undefined ? undefined : JSON.stringify(body),
+        });
+      } catch (error) {
+        if (!canRetry) throw error;
+        console.warn(`HubSpot ${method} ${path} failed (${error}), retrying in ${backoff}ms`);
+        await sleep(backoff);
+        continue;
+      }
+
+      if (response.ok) {
+        return (response.status === 204 ? undefined : await response.json()) as T;
+      }
+
+      const text = await response.text();
+      let errorBody: unknown = text;
+      try {
+        errorBody = JSON.parse(text);
+      } catch {
+        // Not JSON; keep the raw text
+      }
+
+      if (isRetryable(response.status) && canRetry) {
+        const delay = Math.min(maxDelayMs, retryAfterMs(response.headers.get('Retry-After')) ?? backoff);
+        console.warn(`HubSpot ${method} ${path} returned ${response.status}, retrying in ${delay}ms`);
+        await sleep(delay);
+        continue;
+      }
+
+      const message = (errorBody as { message?: string })?.message || text || response.statusText;
+      console.error(`HubSpot ${method} ${path} failed:`, text);
+      throw new HubSpotError(`HubSpot ${method} ${path} failed with ${response.status}: ${message}`, response.status, errorBody);
+    }
+  }
+
+  // Shares one in-flight or finished read per key; failures are not cached
+  function memoize<T>(key: string, load: () => Promise<T>): Promise<T> {
+    if (!useCache) return load();
+    if (!pendingCache.has(key)) {
+      const pending = load();
+      pending.catch(() => pendingCache.delete(key));
+      pendingCache.set(key, pending);
+    }
+    return pendingCache.get(key) as Promise<T>;
+  }
+
+  // Follows paging.next.after until HubSpot stops returning a cursor
+  async function collect<T>(fetchPage: (after?: string) => Promise<HubSpotPage<T>>): Promise<T[]> {
+    const results: T[] = [];
+    let after: string | undefined;
+    do {
+      const page = await fetchPage(after);
+      results.push(...(page.results || []));
+      after = page.paging?.next?.after;
+    } while (after);
+    return results;
+  }
+
+  return {
+    request,
+
+    get<T>(path: string): Promise<T> {
+      return request<T>('GET', path);
+    },
+
+    post<T>(path: string, body: unknown): Promise<T> {
+      return request<T>('POST', path, body);
+    },
+
+    patch<T>(path: string, body: unknown): Promise<T> {
+      return request<T>('PATCH', path, body);
+    },
+
+    /** Every object matching a CRM search, across all pages. */
+    search<P extends HubSpotProperties = HubSpotProperties>(objectType: string, search: HubSpotSearchRequest): Promise<HubSpotObject<P>[]> {
+      return memoize(`search:${objectType}:${JSON.stringify(search)}`, () =>
+        collect(after =>
+          request<HubSpotPage<HubSpotObject<P>>>('POST', `/crm/v3/objects/${objectType}/search`, {
+            ...search,
+            limit: SEARCH_PAGE_SIZE,
+            ...(after && { after }),
+          })
+        )
+      );
+    },
+
+    getObject<P extends HubSpotProperties = HubSpotProperties>(objectType: string, id: string | number, properties: string[]): Promise<HubSpotObject<P>> {
+      const query = new URLSearchParams({ properties: properties.join(',') });
+      return memoize(`object:${objectKey(objectType, id.toString(), properties)}`, () =>
+        request<HubSpotObject<P>>('GET', `/crm/v3/objects/${objectType}/${id}?${query}`)
+      );
+    },
+
+    createObject<P extends HubSpotProperties = HubSpotProperties>(objectType: string, properties: Record<string, unknown>): Promise<HubSpotObject<P>> {
+      return request('POST', `/crm/v3/objects/${objectType}`, { properties });
+    },
+
+    updateObject<P extends HubSpotProperties = HubSpotProperties>(objectType: string, id: string | number, properties: Record<string, unknown>): Promise<HubSpotObject<P>> {
+      return request('PATCH', `/crm/v3/objects/${objectType}/${id}`, { properties });
+    },
+
+    /** Every archived (deleted) object of a type. HubSpot's search never returns these. */
+    listArchived<P extends HubSpotProperties = HubSpotProperties>(objectType: string, properties: string[]): Promise<HubSpotObject<P>[]> {
+      const query = new URLSearchParams({ archived: 'true', limit: String(LIST_PAGE_SIZE), properties: properties.join(',') });
+      return collect(after =>
+        request<HubSpotPage<HubSpotObject<P>>>(
+          'GET',
+          `/crm/v3/objects/${objectType}?${query}${after ? `&after=${encodeURIComponent(after)}` : ''}`
+        )
+      );
+    },
+
+    listOwners(): Promise<HubSpotOwner[]> {
+      return memoize('owners', () =>
+        collect(after =>
+          request<HubSpotPage<HubSpotOwner>>(
+            'GET',
+            `/crm/v3/owners/?limit=${LIST_PAGE_SIZE}${after ? `&after=${encodeURIComponent(after)}` : ''}`
+          )
+        )
+      );
+    },
+
+    getOwner(id: string | number): Promise<HubSpotOwner> {
+      return memoize(`owner:${id}`, () => request<HubSpotOwner>('GET', `/crm/v3/owners/${id}`));
+    },
+
+    /**
+     * Reads many objects in batches of 100, keyed by id. Ids HubSpot can't find (e.g. deleted)
+     * are missing from the map.
+     */
+    async batchGetObjects<P extends HubSpotProperties = HubSpotProperties>(
+      objectType: string,
+      ids: (string | number)[],
+      properties: string[]
+    ): Promise<Map<string, HubSpotObject<P>>> {
+      const byId = new Map<string, HubSpotObject<P>>();
+      const missing: string[] = [];
+
+      for (const id of new Set(ids.map(String))) {
+        const cached = useCache && objectCache.get(objectKey(objectType, id, properties));
+        if (cached) byId.set(id, cached as HubSpotObject<P>);
+        else missing.push(id);
+      }
+
+      for (const ids of chunk(missing, BATCH_OBJECT_SIZE)) {
+        const page = await request<HubSpotPage<HubSpotObject<P>>>('POST', `/crm/v3/objects/${objectType}/batch/read`, {
+          properties,
+          inputs: ids.map(id => ({ id })),
+        });
+        for (const object of page.results || []) {
+          byId.set(object.id, object);
+          if (useCache) objectCache.set(objectKey(objectType, object.id, properties), object);
+        }
+      }
+
+      return byId;
+    },
+
+    /** The `toType` ids associated with each of many objects, read in batches of 1000. */
+    async batchGetAssociations(fromType: string, toType: string, ids: (string | number)[]): Promise<Map<string, string[]>> {
+      const byId = new Map<string, string[]>();
+      const missing: string[] = [];
+
+      for (const id of new Set(ids.map(String))) {
+        const cached = useCache && associationCache.get(associationKey(fromType, toType, id));
+        if (cached) byId.set(id, cached);
+        else missing.push(id);
+      }
+
+      for (const ids of chunk(missing, BATCH_ASSOCIATION_SIZE)) {
+        const page = await request<HubSpotPage<{ from: { id: string }; to: HubSpotAssociation[] }>>(
+          'POST',
+          `/crm/v4/associations/${fromType}/${toType}/batch/read`,
+          { inputs: ids.map(id => ({ id })) }
+        );
+        const results = new Map((page.results || []).map(r => [r.from.id.toString(), r.to.map(t => t.toObjectId.toString())]));
+        // Objects without associations are left out of the response
+        for (const id of ids) {
+          const toIds = results.get(id) ?? [];
+          byId.set(id, toIds);
+          if (useCache) associationCache.set(associationKey(fromType, toType, id), toIds);
+        }
+      }
+
+      return byId;
+    },
+
+    async listProperties(objectType: string): Promise<HubSpotProperty[]> {
+      const page = await request<HubSpotPage<HubSpotProperty>>('GET', `/crm/v3/properties/${objectType}`);
+      return page.results;
+    },
+  };
+}
+
+export type HubSpotClient = ReturnType<typeof createHubSpotClient>;
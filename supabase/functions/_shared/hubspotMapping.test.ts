@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { type HubSpotClient, HubSpotError, type HubSpotProperty } from './hubspot.ts';
+import { DEFAULT_HUBSPOT_MAPPING, validateHubSpotMapping } from './hubspotMapping.ts';
+import { STATEMENT_PROPERTIES } from './statementSync.ts';
+
+function property(name: string, type = 'string'): HubSpotProperty {
+  return { name, label: name, type, fieldType: 'text' };
+}
+
+// A portal with the default properties, less any object left out of `objects`
+function fakeClient(objects: Record<string, HubSpotProperty[]>) {
+  return {
+    async listProperties(objectType: string) {
+      if (!objects[objectType]) throw new HubSpotError('Unknown object', 400, {});
+      return objects[objectType];
+    },
+  } as unknown as HubSpotClient;
+}
+
+const portal = {
+  deals: [property('amount', 'number'), property('sdr_sde'), property('deal_channel'), property('payment_terms')],
+  meetings: [property('hs_activity_type'), property('hs_meeting_outcome')],
+  '2-49027397': STATEMENT_PROPERTIES.map(name => property(name)),
+};
+
+describe('validateHubSpotMapping', () => {
+  it('accepts a mapping whose properties all exist', async () => {
+    expect(await validateHubSpotMapping(fakeClient(portal), DEFAULT_HUBSPOT_MAPPING)).toEqual([]);
+  });
+
+  it('reports missing properties against the field that names them', async () => {
+    const problems = await validateHubSpotMapping(fakeClient(portal), {
+      ...DEFAULT_HUBSPOT_MAPPING,
+      deal_sdr_owner_property: 'sdr_owner',
+      meeting_outcome_property: 'outcome',
+    });
+    expect(problems.map(problem => problem.field)).toEqual(['deal_sdr_owner_property', 'meeting_outcome_property']);
+  });
+
+  it('wants a number property for the amount', async () => {
+    const problems = await validateHubSpotMapping(fakeClient(portal), { ...DEFAULT_HUBSPOT_MAPPING, deal_amount_property: 'deal_channel' });
+    expect(problems).toEqual([{ field: 'deal_amount_property', message: '"deal_channel" is a string property, not a number' }]);
+  });
+
+  it('reports an unknown statement object and one missing statement properties', async () => {
+    const unknown = await validateHubSpotMapping(fakeClient(portal), { ...DEFAULT_HUBSPOT_MAPPING, statement_object_type: '2-1' });
+    expect(unknown).toEqual([{ field: 'statement_object_type', message: 'HubSpot has no object "2-1"' }]);
+
+    const partial = await validateHubSpotMapping(fakeClient({ ...portal, '2-49027397': [property('rep_id')] }), DEFAULT_HUBSPOT_MAPPING);
+    expect(partial[0].field).toBe('statement_object_type');
+    expect(partial[0].message).toContain('period_start');
+  });
+
+  it('requires every field before asking HubSpot', async () => {
+    const problems = await validateHubSpotMapping(fakeClient({}), { ...DEFAULT_HUBSPOT_MAPPING, meeting_type_property: ' ' });
+    expect(problems).toEqual([{ field: 'meeting_type_property', message: 'Required' }]);
+  });
+});
@@ -0,0 +1,103 @@
+import { type HubSpotClient, HubSpotError, type HubSpotProperty } from './hubspot.ts';
+import { restGet } from './rest.ts';
+import { STATEMENT_PROPERTIES } from './statementSync.ts';
+
+/** Where our portal keeps what commissions are computed from, and the object statements are written to. */
+export interface HubSpotMapping {
+  statement_object_type: string;
+  deal_amount_property: string;
+  deal_sdr_owner_property: string;
+  deal_channel_property: string;
+  deal_payment_terms_property: string;
+  meeting_type_property: string;
+  meeting_outcome_property: string;
+}
+
+export type HubSpotMappingField = keyof HubSpotMapping;
+
+export const DEFAULT_HUBSPOT_MAPPING: HubSpotMapping = {
+  statement_object_type: '2-49027397',
+  deal_amount_property: 'amount',
+  deal_sdr_owner_property: 'sdr_sde',
+  deal_channel_property: 'deal_channel',
+  deal_payment_terms_property: 'payment_terms',
+  meeting_type_property: 'hs_activity_type',
+  meeting_outcome_property: 'hs_meeting_outcome',
+};
+
+const DEAL_FIELDS: HubSpotMappingField[] = [
+  'deal_amount_property',
+  'deal_sdr_owner_property',
+  'deal_channel_property',
+  'deal_payment_terms_property',
+];
+const MEETING_FIELDS: HubSpotMappingField[] = ['meeting_type_property', 'meeting_outcome_property'];
+
+export interface MappingProblem {
+  field: HubSpotMappingField;
+  message: string;
+}
+
+export async function fetchHubSpotMapping(supabaseUrl: string, supabaseKey: string): Promise<HubSpotMapping> {
+  const rows: HubSpotMapping[] = await restGet(supabaseUrl, supabaseKey, 'hubspot_mapping?select=*&limit=1', 'HubSpot mapping');
+  return rows[0] ?? DEFAULT_HUBSPOT_MAPPING;
+}
+
+/** The deal properties the mapping reads, for the CRM sync to request. */
+export function mappedDealProperties(mapping: HubSpotMapping): string[] {
+  return DEAL_FIELDS.map(field => mapping[field]);
+}
+
+export function mappedMeetingProperties(mapping: HubSpotMapping): string[] {
+  return MEETING_FIELDS.map(field => mapping[field]);
+}
+
+// The object's properties by name, or null if the portal has no such object
+async function propertiesOf(hubspot: HubSpotClient, objectType: string): Promise<Map<string, HubSpotProperty> | null> {
+  try {
+    return new Map((await hubspot.listProperties(objectType)).map(property => [property.name, property]));
+  } catch (error) {
+    if (error instanceof HubSpotError && (error.status === 400 || error.status === 404)) return null;
+    throw error;
+  }
+}
+
+/** Checks every mapped property exists on its object in HubSpot; an empty list means the mapping is usable. */
+export async function validateHubSpotMapping(hubspot: HubSpotClient, mapping: HubSpotMapping): Promise<MappingProblem[]> {
+  const problems: MappingProblem[] = [];
+
+  for (const [field, value] of Object.entries(mapping) as [HubSpotMappingField, string][]) {
+    if (!value?.trim()) problems.push({ field, message: 'Required' });
+  }
+  if (problems.length > 0) return problems;
+
+  const dealProperties = (await propertiesOf(hubspot, 'deals'))!;
+  for (const field of DEAL_FIELDS) {
+    if (!dealProperties.has(mapping[field])) {
+      problems.push({ field, message: `Deals have no property "${mapping[field]}"` });
+    }
+  }
+  const amount = dealProperties.get(mapping.deal_amount_property);
+  if (amount && amount.type !== 'number') {
+    problems.push({ field: 'deal_amount_property', message: `"${amount.label}" is a ${amount.type} property, not a number` });
+  }
+
+  const meetingProperties = (await propertiesOf(hubspot, 'meetings'))!;
+  for (const field of MEETING_FIELDS) {
+    if (!meetingProperties.has(mapping[field])) {
+      problems.push({ field, message: `Meetings have no property "${mapping[field]}"` });
+    }
+  }
+
+  const statementProperties = await propertiesOf(hubspot, mapping.statement_object_type);
+  if (!statementProperties) {
+    problems.push({ field: 'statement_object_type', message: `HubSpot has no object "${mapping.statement_object_type}"` });
+  } else {
+    const missing = STATEMENT_PROPERTIES.filter(name => !statementProperties.has(name));
+    if (missing.length > 0) {
+      problems.push({ field: 'statement_object_type', message: `The object is missing statement properties: ${missing.join(', ')}` });
+    }
+  }
+
+  return problems;
+}
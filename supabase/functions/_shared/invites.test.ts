@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { isEmailDomainAllowed, normalizeDomains, parseInvite } from './invites.ts';
+
+describe('normalizeDomains', () => {
+  it('lower-cases, drops "@" prefixes, blanks and repeats', () => {
+    expect(normalizeDomains([' Example.com', '@example.com', '', 'acme.io '])).toEqual(['example.com', 'acme.io']);
+  });
+});
+
+describe('isEmailDomainAllowed', () => {
+  it('allows any domain when none are listed', () => {
+    expect(isEmailDomainAllowed('someone@gmail.com', [])).toBe(true);
+  });
+
+  it('matches domains exactly and ignores case', () => {
+    expect(isEmailDomainAllowed('Rep@Example.com', ['example.com'])).toBe(true);
+    expect(isEmailDomainAllowed('rep@eu.example.com', ['example.com'])).toBe(false);
+    expect(isEmailDomainAllowed('rep@example.com.evil.io', ['example.com'])).toBe(false);
+  });
+});
+
+describe('parseInvite', () => {
+  it('normalises the email and keeps only known roles', () => {
+    expect(parseInvite(' Rep@Example.com ', ['rep', 'owner'], ['example.com'])).toEqual({
+      email: 'rep@example.com',
+      roles: ['rep'],
+    });
+  });
+
+  it('rejects bad emails, other domains and missing roles', () => {
+    expect(() => parseInvite('not-an-email', ['rep'], [])).toThrow(/valid email/);
+    expect(() => parseInvite('rep@gmail.com', ['rep'], ['example.com'])).toThrow(/example\.com/);
+    expect(() => parseInvite('rep@example.com', [], [])).toThrow(/at least one role/);
+  });
+});
@@ -0,0 +1,49 @@
+import { APP_ROLES, type AppRole } from './auth.ts';
+
+/** An invite that can't be sent as asked (400), or to someone who already has an account (409). */
+export class InviteError extends Error {
+  constructor(message: string, public readonly status: 400 | 409) {
+    super(message);
+    this.name = 'InviteError';
+  }
+}
+
+export function emailDomain(email: string): string {
+  return email.slice(email.lastIndexOf('@') + 1).trim().toLowerCase();
+}
+
+/** Domains as an admin typed them, lower-cased with any "@" dropped, blanks and repeats removed. */
+export function normalizeDomains(domains: string[]): string[] {
+  const normalized = domains.map(domain => domain.trim().toLowerCase().replace(/^@/, '')).filter(Boolean);
+  return [...new Set(normalized)];
+}
+
+/**
+ * Whether an email may be invited. Domains match exactly, so allowing example.com doesn't
+ * allow eu.example.com; no allowed domains at all means any domain.
+ */
+export function isEmailDomainAllowed(email: string, allowedDomains: string[]): boolean {
+  return allowedDomains.length === 0 || allowedDomains.includes(emailDomain(email));
+}
+
+/** Checks and normalises an invite request, returning the email and roles to invite with. */
+export function parseInvite(
+  email: unknown,
+  roles: unknown,
+  allowedDomains: string[]
+): { email: string; roles: AppRole[] } {
+  const normalizedEmail = (typeof email === 'string' ? email : '').trim().toLowerCase();
+  if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(normalizedEmail)) {
+    throw new InviteError('Enter a valid email address', 400);
+  }
+  if (!isEmailDomainAllowed(normalizedEmail, allowedDomains)) {
+    throw new InviteError(`Only emails at ${allowedDomains.join(', ')} can be invited`, 400);
+  }
+
+  const validRoles = APP_ROLES.filter(role => Array.isArray(roles) && roles.includes(role));
+  if (validRoles.length === 0) {
+    throw new InviteError('Choose at least one role', 400);
+  }
+
+  return { email: normalizedEmail, roles: validRoles };
+}
@@ -0,0 +1,182 @@
+import { restGet, restHeaders, restWrite } from './rest.ts';
+
+// Supabase's edge runtime global; absent when functions are served some other way
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+export type CommissionJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+export type CommissionJobTaskStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped';
+
+export interface CommissionJob {
+  id: string;
+  period_start: string;
+  period_end: string;
+  crm_sync_run_id: number;
+  source: 'manual' | 'cron';
+  status: CommissionJobStatus;
+  created_by: string | null;
+  created_by_email: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+  created_at: string;
+}
+
+export interface CommissionJobTask {
+  id: string;
+  job_id: string;
+  rep_id: string;
+  rep_name: string;
+  idempotency_key: string;
+  status: CommissionJobTaskStatus;
+  attempts: number;
+  locked_at: string | null;
+  error: string | null;
+  finished_at: string | null;
+}
+
+/** A task as the status endpoint reports it, with the outcome of its run. */
+export interface JobTaskStatus {
+  id: string;
+  repId: string;
+  repName: string;
+  status: CommissionJobTaskStatus;
+  attempts: number;
+  error: string | null;
+  runLogId: string | null;
+  statementId: string | null;
+  statementStatus: string | null;
+  planName: string | null;
+  totalRevenue: number | null;
+  totalCommission: number | null;
+}
+
+export interface JobStatus {
+  job: CommissionJob;
+  counts: Record<CommissionJobTaskStatus, number>;
+  tasks: JobTaskStatus[];
+}
+
+interface TaskWithRun extends CommissionJobTask {
+  commission_run_logs: {
+    id: string;
+    plan_name: string | null;
+    total_revenue: number | null;
+    total_commission: number | null;
+    commission_statements: { id: string; status: string } | null;
+  } | null;
+}
+
+/** Queues a job with a task per rep; see enqueue_commission_job for how duplicates are skipped. */
+export async function enqueueCommissionJob(
+  supabaseUrl: string,
+  supabaseKey: string,
+  job: { periodStart: string; periodEnd: string; repIds: string[]; crmSyncRunId?: number; source: 'manual' | 'cron' }
+): Promise<CommissionJob> {
+  return restWrite(supabaseUrl, supabaseKey, 'POST', 'rpc/enqueue_commission_job', {
+    p_period_start: job.periodStart,
+    p_period_end: job.periodEnd,
+    p_rep_ids: job.repIds,
+    p_crm_sync_run_id: job.crmSyncRunId ?? null,
+    p_source: job.source,
+  }, 'queue commission job');
+}
+
+/** Claims tasks to run; stale ones that already had maxAttempts tries are failed instead. */
+export async function claimJobTasks(
+  supabaseUrl: string,
+  supabaseKey: string,
+  limit: number,
+  maxAttempts: number
+): Promise<CommissionJobTask[]> {
+  return restWrite(supabaseUrl, supabaseKey, 'POST', 'rpc/claim_commission_job_tasks', {
+    p_limit: limit,
+    p_max_attempts: maxAttempts,
+  }, 'claim commission job tasks');
+}
+
+/** Records a task's outcome; 'pending' puts it back in the queue to be retried. */
+export async function finishJobTask(
+  supabaseUrl: string,
+  supabaseKey: string,
+  taskId: string,
+  status: 'pending' | 'succeeded' | 'failed',
+  error: string | null = null
+): Promise<void> {
+  await restWrite(supabaseUrl, supabaseKey, 'POST', 'rpc/finish_commission_job_task', {
+    p_task_id: taskId,
+    p_status: status,
+    p_error: error,
+  }, 'finish commission job task', 'return=minimal');
+}
+
+export async function hasPendingJobTasks(supabaseUrl: string, supabaseKey: string): Promise<boolean> {
+  const rows: { id: string }[] = await restGet(
+    supabaseUrl,
+    supabaseKey,
+    'commission_job_tasks?select=id&status=eq.pending&limit=1',
+    'pending commission job tasks'
+  );
+  return rows.length > 0;
+}
+
+/** A job, how many of its tasks are in each status, and each task's outcome; null if there's no such job. */
+export async function fetchJobStatus(supabaseUrl: string, supabaseKey: string, jobId: string): Promise<JobStatus | null> {
+  const [job]: CommissionJob[] = await restGet(
+    supabaseUrl,
+    supabaseKey,
+    `commission_jobs?select=*&id=eq.${encodeURIComponent(jobId)}`,
+    'commission job'
+  );
+  if (!job) return null;
+
+  const rows: TaskWithRun[] = await restGet(
+    supabaseUrl,
+    supabaseKey,
+    `commission_job_tasks?select=*,commission_run_logs(id,plan_name:commission_json->>planName,` +
+      `total_revenue:commission_json->totalRevenue,total_commission:commission_json->totalCommission,` +
+      `commission_statements(id,status))&job_id=eq.${encodeURIComponent(jobId)}&order=rep_name`,
+    'commission job tasks'
+  );
+
+  const counts: Record<CommissionJobTaskStatus, number> = { pending: 0, running: 0, succeeded: 0, failed: 0, skipped: 0 };
+  const tasks = rows.map((row): JobTaskStatus => {
+    counts[row.status]++;
+    const run = row.commission_run_logs;
+    return {
+      id: row.id,
+      repId: row.rep_id,
+      repName: row.rep_name,
+      status: row.status,
+      attempts: row.attempts,
+      error: row.error,
+      runLogId: run?.id ?? null,
+      statementId: run?.commission_statements?.id ?? null,
+      statementStatus: run?.commission_statements?.status ?? null,
+      planName: run?.plan_name ?? null,
+      totalRevenue: run?.total_revenue ?? null,
+      totalCommission: run?.total_commission ?? null,
+    };
+  });
+
+  return { job, counts, tasks };
+}
+
+/** Lets work outlive the response where the edge runtime supports it, and otherwise waits for it. */
+export async function runInBackground(work: Promise<unknown>): Promise<void> {
+  if (typeof EdgeRuntime !== 'undefined') {
+    EdgeRuntime.waitUntil(work);
+  } else {
+    await work;
+  }
+}
+
+/** Starts the job worker on the next chunk of tasks without waiting for it to finish. */
+export async function triggerJobWorker(supabaseUrl: string, supabaseKey: string): Promise<void> {
+  const request = fetch(`${supabaseUrl}/functions/v1/process-commission-jobs`, {
+    method: 'POST',
+    headers: restHeaders(supabaseKey),
+    body: '{}',
+  })
+    .then(response => response.text())
+    .catch(error => console.error('Could not start the commission job worker:', error));
+  await runInBackground(request);
+}
@@ -0,0 +1,210 @@
+import { fetchAdjustments } from './adjustments.ts';
+import { fetchPaidDeals } from './clawbacks.ts';
+import {
+  type Adjustment,
+  calculateCommission,
+  type CommissionPlan,
+  type CommissionResult,
+  type Meeting,
+  type RepQuota,
+} from './commissionEngine.ts';
+import { attributeRepActivity, type RepAttribution } from './attribution.ts';
+import { fetchSnapshotDeals, fetchSnapshotDealsById, fetchSnapshotMeetings, type SnapshotObject } from './crmSnapshot.ts';
+import { fetchHubSpotMapping, type HubSpotMapping } from './hubspotMapping.ts';
+import {
+  fetchPlans,
+  fetchPlanVersionsInForce,
+  type PlanAssignment,
+  type PlanRow,
+  type PlanVersion,
+  selectPlan,
+  toCommissionPlan,
+} from './plans.ts';
+import type { RepRow } from './reps.ts';
+import { restGet, restWrite } from './rest.ts';
+import { type RecordedRun, recordSuccessfulRun } from './runLogs.ts';
+
+/** Everything a batch run reads once per period and shares between reps. */
+export interface PeriodInputs {
+  periodStart: string;
+  periodEnd: string;
+  crmSyncRunId: number;
+  plans: PlanRow[];
+  assignments: PlanAssignment[];
+  versionsByPlan: Record<string, PlanVersion>;
+  quotasByRep: Record<string, RepQuota>;
+  adjustmentsByRep: Record<string, Adjustment[]>;
+  mapping: HubSpotMapping;
+  /** Every deal closing in the period as of the snapshot, classified per rep. */
+  dealResults: SnapshotObject[];
+  /** Every meeting in the period as of the snapshot, credited through its deals' SDR owner. */
+  meetingResults: SnapshotObject[];
+  meetingDealsById: Map<string, SnapshotObject>;
+}
+
+export async function loadPeriodInputs(
+  supabaseUrl: string,
+  supabaseKey: string,
+  periodStart: string,
+  periodEnd: string,
+  crmSyncRunId: number
+): Promise<PeriodInputs> {
+  const { plans, assignments } = await fetchPlans(supabaseUrl, supabaseKey);
+  const versionsByPlan = await fetchPlanVersionsInForce(supabaseUrl, supabaseKey, periodStart);
+  console.log(`Loaded ${plans.length} plans, ${Object.keys(versionsByPlan).length} with a version in force`);
+
+  // Every rep's quota, keyed by HubSpot owner id
+  const quotaRows: { rep_id: string; quota_amount: number; period: 'monthly' | 'quarterly' }[] =
+    await restGet(supabaseUrl, supabaseKey, 'rep_quotas?select=*', 'rep quotas');
+  const quotasByRep: Record<string, RepQuota> = {};
+  for (const row of quotaRows) {
+    quotasByRep[row.rep_id] = { amount: Number(row.quota_amount), period: row.period };
+  }
+
+  const adjustmentsByRep = await fetchAdjustments(supabaseUrl, supabaseKey, periodStart, periodEnd);
+  const mapping = await fetchHubSpotMapping(supabaseUrl, supabaseKey);
+
+  const dealResults = await fetchSnapshotDeals(supabaseUrl, supabaseKey, crmSyncRunId, periodStart, periodEnd);
+  console.log(`Read ${dealResults.length} deals closing in the period from snapshot ${crmSyncRunId}`);
+
+  const meetingResults = await fetchSnapshotMeetings(supabaseUrl, supabaseKey, crmSyncRunId, periodStart, periodEnd);
+  const meetingDealsById = await fetchSnapshotDealsById(
+    supabaseUrl,
+    supabaseKey,
+    crmSyncRunId,
+    meetingResults.flatMap(meeting => meeting.dealIds)
+  );
+  console.log(`Read ${meetingResults.length} meetings in the period and ${meetingDealsById.size} of their deals`);
+
+  return {
+    periodStart,
+    periodEnd,
+    crmSyncRunId,
+    plans,
+    assignments,
+    versionsByPlan,
+    quotasByRep,
+    adjustmentsByRep,
+    mapping,
+    dealResults,
+    meetingResults,
+    meetingDealsById,
+  };
+}
+
+/** The rep's plan and the version of it in force at the start of the period. */
+export function resolveRepPlan(inputs: PeriodInputs, rep: RepRow): { planRow: PlanRow; version: PlanVersion } {
+  // Resolve the rep's plan from the directory and team assignments, falling back to the default plan for their role
+  const planRow = selectPlan(inputs.plans, inputs.assignments, rep);
+  const version = inputs.versionsByPlan[planRow.id];
+  if (!version) {
+    throw new Error(`No version of plan "${planRow.name}" is in force on ${inputs.periodStart}`);
+  }
+  return { planRow, version };
+}
+
+/** One rep's calculation, with the plan, meetings and attribution it was made from. */
+export interface RepCalculation {
+  plan: CommissionPlan;
+  planVersionId: string;
+  result: CommissionResult & { dealsFetched: number; crmSyncRunId: number };
+  meetings: Meeting[];
+  attribution: RepAttribution;
+}
+
+/** Calculates one rep's commission for the period without recording anything. */
+export async function calculateRepCommission(
+  supabaseUrl: string,
+  supabaseKey: string,
+  inputs: PeriodInputs,
+  rep: RepRow
+): Promise<RepCalculation> {
+  const { periodStart: startDate, periodEnd: endDate, mapping } = inputs;
+  const { planRow, version } = resolveRepPlan(inputs, rep);
+  const plan = toCommissionPlan(planRow, version);
+
+  // The plan's role decides how deals and meetings are attributed
+  const attribution = attributeRepActivity(plan.role, rep, {
+    deals: inputs.dealResults,
+    meetings: inputs.meetingResults,
+    meetingDealsById: inputs.meetingDealsById,
+  }, mapping);
+  const { deals, meetings } = attribution;
+  console.log(
+    `Rep ${rep.name} (${plan.role}): ${deals.length} of ${attribution.allDeals.length} deals, ` +
+      `${meetings.length} qualifying meetings`
+  );
+
+  // Earlier paid deals that churned or were refunded since are clawed back this period
+  const paidDeals = await fetchPaidDeals(supabaseUrl, supabaseKey, rep.hubspot_owner_id, startDate, inputs.crmSyncRunId, mapping);
+
+  // Calculate commission
+  const commissionResult = {
+    ...calculateCommission(
+      rep.hubspot_owner_id,
+      rep.name,
+      plan,
+      deals,
+      meetings,
+      startDate,
+      endDate,
+      inputs.quotasByRep[rep.hubspot_owner_id],
+      inputs.adjustmentsByRep[rep.hubspot_owner_id],
+      paidDeals
+    ),
+    dealsFetched: attribution.allDeals.length,
+    crmSyncRunId: inputs.crmSyncRunId,
+  };
+
+  return { plan, planVersionId: version.id, result: commissionResult, meetings, attribution };
+}
+
+/**
+ * Calculates one rep's commission for the period and records the run, its line items and a
+ * draft statement. Pass the job task the run belongs to so a retried task can't record twice.
+ */
+export async function runRepCommission(
+  supabaseUrl: string,
+  supabaseKey: string,
+  inputs: PeriodInputs,
+  rep: RepRow,
+  jobTaskId?: string
+): Promise<RecordedRun> {
+  const { plan, planVersionId, result } = await calculateRepCommission(supabaseUrl, supabaseKey, inputs, rep);
+
+  // Log the run and open a draft statement; it reaches HubSpot only once someone approves it
+  return recordSuccessfulRun(supabaseUrl, supabaseKey, {
+    repId: rep.hubspot_owner_id,
+    repName: rep.name,
+    team: plan.role,
+    periodStart: inputs.periodStart,
+    periodEnd: inputs.periodEnd,
+    planId: plan.id,
+    planVersionId,
+    crmSyncRunId: inputs.crmSyncRunId,
+    jobTaskId,
+  }, result);
+}
+
+/** Logs a run that failed so it shows up alongside successful ones. */
+export async function recordFailedRun(
+  supabaseUrl: string,
+  supabaseKey: string,
+  inputs: Pick<PeriodInputs, 'periodStart' | 'periodEnd' | 'crmSyncRunId'>,
+  rep: Pick<RepRow, 'hubspot_owner_id' | 'name' | 'role'>,
+  planVersionId: string | null,
+  errorMessage: string
+): Promise<void> {
+  await restWrite(supabaseUrl, supabaseKey, 'POST', 'commission_run_logs', {
+    rep_id: rep.hubspot_owner_id,
+    rep_name: rep.name,
+    team: rep.role,
+    period_start: inputs.periodStart,
+    period_end: inputs.periodEnd,
+    commission_json: {},
+    plan_version_id: planVersionId,
+    crm_sync_run_id: inputs.crmSyncRunId,
+    success: false,
+    error_message: errorMessage,
+  }, 'log failed commission run', 'return=minimal');
+}
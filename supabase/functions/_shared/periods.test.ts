@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { monthRange } from './periods.ts';
+
+describe('monthRange', () => {
+  it('covers a UTC calendar month', () => {
+    expect(monthRange('2025-03-01T00:00:00.000Z', '2025-03-31T23:59:59.000Z')).toEqual(['2025-03-01', '2025-03-01']);
+  });
+
+  it('ignores the hour a local month boundary spills into the neighbouring UTC month', () => {
+    // March in Europe/Berlin (UTC+1) and America/Los_Angeles (UTC-7)
+    expect(monthRange('2025-02-28T23:00:00.000Z', '2025-03-31T21:59:59.000Z')).toEqual(['2025-03-01', '2025-03-01']);
+    expect(monthRange('2025-03-01T08:00:00.000Z', '2025-04-01T06:59:59.000Z')).toEqual(['2025-03-01', '2025-03-01']);
+  });
+
+  it('spans every month of a quarter', () => {
+    expect(monthRange('2025-01-01T00:00:00.000Z', '2025-03-31T23:59:59.000Z')).toEqual(['2025-01-01', '2025-03-01']);
+  });
+
+  it('keeps a short period in the month it falls in', () => {
+    expect(monthRange('2025-03-31T12:00:00.000Z', '2025-03-31T18:00:00.000Z')).toEqual(['2025-03-01', '2025-03-01']);
+  });
+});
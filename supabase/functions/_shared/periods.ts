@@ -0,0 +1,63 @@
+import { restGet } from './rest.ts';
+
+/** Thrown when a run or sync touches a month that has been closed. */
+export class PeriodClosedError extends Error {
+  constructor(public months: string[]) {
+    super(
+      `${months.length === 1 ? 'The period' : 'The periods'} starting ${months.join(', ')} ` +
+      `${months.length === 1 ? 'is' : 'are'} closed. Reopen ${months.length === 1 ? 'it' : 'them'} with a reason first.`
+    );
+    this.name = 'PeriodClosedError';
+  }
+}
+
+// Widest UTC offset in use; local month boundaries sent as UTC are at most this far off
+const MAX_UTC_OFFSET_MS = 14 * 60 * 60 * 1000;
+
+// First day of the UTC month containing `time`, as yyyy-MM-dd
+function monthOf(time: number): string {
+  return `${new Date(time).toISOString().slice(0, 7)}-01`;
+}
+
+/**
+ * First and last month (as yyyy-MM-dd month starts) a period covers. The app sends local
+ * month boundaries as UTC, so each end is pulled inwards by the widest UTC offset first:
+ * a March run from Europe starting at 23:00 UTC on Feb 28 doesn't touch February.
+ */
+export function monthRange(periodStart: string, periodEnd: string): [string, string] {
+  const start = new Date(periodStart).getTime();
+  const end = new Date(periodEnd).getTime();
+  if (end - start <= 2 * MAX_UTC_OFFSET_MS) {
+    return [monthOf(start), monthOf(end)];
+  }
+  return [monthOf(start + MAX_UTC_OFFSET_MS), monthOf(end - MAX_UTC_OFFSET_MS)];
+}
+
+/** The closed months that [periodStart, periodEnd] touches, as yyyy-MM-dd month starts. */
+export async function findClosedMonths(
+  supabaseUrl: string,
+  supabaseKey: string,
+  periodStart: string,
+  periodEnd: string
+): Promise<string[]> {
+  const [firstMonth, lastMonth] = monthRange(periodStart, periodEnd);
+  const periods: { month: string }[] = await restGet(
+    supabaseUrl,
+    supabaseKey,
+    `commission_periods?select=month&status=eq.closed&month=gte.${firstMonth}&month=lte.${lastMonth}&order=month`,
+    'commission periods'
+  );
+  return periods.map(p => p.month);
+}
+
+export async function assertPeriodOpen(
+  supabaseUrl: string,
+  supabaseKey: string,
+  periodStart: string,
+  periodEnd: string
+): Promise<void> {
+  const closed = await findClosedMonths(supabaseUrl, supabaseKey, periodStart, periodEnd);
+  if (closed.length > 0) {
+    throw new PeriodClosedError(closed);
+  }
+}
@@ -0,0 +1,98 @@
+import type { CommissionPlan, CommissionSettings, Team } from './commissionEngine.ts';
+import { restGet } from './rest.ts';
+import type { RepRow } from './reps.ts';
+import { PlanSettingsError, validateSettings } from './settingsValidation.ts';
+
+export interface PlanRow {
+  id: string;
+  name: string;
+  role: Team;
+  is_default: boolean;
+}
+
+/** Plans assigned to a whole HubSpot team. Individual reps carry their plan on the rep row. */
+export interface PlanAssignment {
+  plan_id: string;
+  assignee_type: 'team';
+  assignee_id: string;
+}
+
+export interface PlanVersion extends CommissionSettings {
+  id: string;
+  plan_id: string;
+  version: number;
+  effective_from: string;
+  effective_to: string | null;
+}
+
+/**
+ * Picks the plan that pays a rep: the plan set on the rep wins, then the first of the
+ * rep's HubSpot teams with an assignment, then the default plan for the rep's role.
+ */
+export function selectPlan(plans: PlanRow[], assignments: PlanAssignment[], rep: RepRow): PlanRow {
+  const byId = new Map(plans.map(p => [p.id, p]));
+
+  if (rep.plan_id && byId.has(rep.plan_id)) {
+    return byId.get(rep.plan_id)!;
+  }
+
+  for (const team of rep.hubspot_teams) {
+    const teamAssignment = assignments.find(a => a.assignee_type === 'team' && a.assignee_id === team.id);
+    if (teamAssignment && byId.has(teamAssignment.plan_id)) {
+      return byId.get(teamAssignment.plan_id)!;
+    }
+  }
+
+  const defaultPlan = plans.find(p => p.is_default && p.role === rep.role);
+  if (!defaultPlan) {
+    throw new Error(`No commission plan is assigned to ${rep.name} and there is no default ${rep.role} plan`);
+  }
+  return defaultPlan;
+}
+
+// Filter for the versions in force at `at`. Values inside or=() must be quoted because
+// timestamps contain reserved characters.
+function inForceFilter(at: string): string {
+  const iso = new Date(at).toISOString();
+  return `&effective_from=lte.${encodeURIComponent(iso)}` +
+    `&or=(effective_to.is.null,effective_to.gt.${encodeURIComponent(`"${iso}"`)})`;
+}
+
+export async function fetchPlans(supabaseUrl: string, supabaseKey: string): Promise<{ plans: PlanRow[]; assignments: PlanAssignment[] }> {
+  const [plans, assignments] = await Promise.all([
+    restGet(supabaseUrl, supabaseKey, 'commission_plans?select=*', 'commission plans'),
+    restGet(supabaseUrl, supabaseKey, 'commission_plan_assignments?select=*', 'commission plan assignments'),
+  ]);
+  return { plans, assignments };
+}
+
+/**
+ * Every plan's version in force at `at` (normally the period start), keyed by plan id, so
+ * recalculating an old period uses the rates that applied back then.
+ */
+export async function fetchPlanVersionsInForce(supabaseUrl: string, supabaseKey: string, at: string): Promise<Record<string, PlanVersion>> {
+  const versions: PlanVersion[] = await restGet(
+    supabaseUrl,
+    supabaseKey,
+    `commission_settings?select=*${inForceFilter(at)}&order=effective_from.desc,version.desc`,
+    'commission plan versions'
+  );
+
+  const byPlan: Record<string, PlanVersion> = {};
+  for (const version of versions) {
+    if (!byPlan[version.plan_id]) byPlan[version.plan_id] = version;
+  }
+  return byPlan;
+}
+
+/**
+ * The plan as the engine takes it. The version's settings are validated again here, since
+ * saved versions may predate validation or be written around the Settings page.
+ */
+export function toCommissionPlan(plan: PlanRow, version: PlanVersion): CommissionPlan {
+  const problems = validateSettings(version, { saved: true });
+  if (problems.length > 0) {
+    throw new PlanSettingsError(plan.name, version.version, problems);
+  }
+  return { id: plan.id, name: plan.name, role: plan.role, settings: version };
+}
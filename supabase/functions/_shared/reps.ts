@@ -0,0 +1,148 @@
+import type { Team } from './commissionEngine.ts';
+import type { HubSpotClient } from './hubspot.ts';
+import { restGet, restHeaders } from './rest.ts';
+
+export interface HubSpotTeamRef {
+  id: string;
+  name: string;
+}
+
+/**
+ * A row of the rep directory. name, email and hubspot_teams are synced from HubSpot;
+ * role, plan_id, start_date, active and manager_id are maintained by admins.
+ */
+export interface RepRow {
+  id: string;
+  hubspot_owner_id: string;
+  name: string;
+  email: string | null;
+  hubspot_teams: HubSpotTeamRef[];
+  role: Team;
+  plan_id: string | null;
+  start_date: string | null;
+  active: boolean;
+  manager_id: string | null;
+  last_synced_at: string | null;
+  /** The user who signs in as this rep, linked by email. */
+  user_id: string | null;
+}
+
+export async function fetchReps(supabaseUrl: string, supabaseKey: string): Promise<RepRow[]> {
+  return restGet(supabaseUrl, supabaseKey, 'reps?select=*&order=name', 'reps');
+}
+
+export async function fetchRep(supabaseUrl: string, supabaseKey: string, hubspotOwnerId: string): Promise<RepRow> {
+  const reps: RepRow[] = await restGet(
+    supabaseUrl,
+    supabaseKey,
+    `reps?select=*&hubspot_owner_id=eq.${encodeURIComponent(hubspotOwnerId)}`,
+    'rep'
+  );
+
+  if (!reps[0]) {
+    throw new Error(`HubSpot owner ${hubspotOwnerId} is not in the rep directory. Sync reps from HubSpot first.`);
+  }
+
+  return reps[0];
+}
+
+/** The rep a user signs in as, or null if their account isn't linked to one. */
+export async function fetchRepForUser(supabaseUrl: string, supabaseKey: string, userId: string): Promise<RepRow | null> {
+  const reps: RepRow[] = await restGet(
+    supabaseUrl,
+    supabaseKey,
+    `reps?select=*&user_id=eq.${encodeURIComponent(userId)}`,
+    'rep'
+  );
+  return reps[0] ?? null;
+}
+
+/** Whether a rep should be paid for a period ending at `periodEnd`. */
+export function isPayable(rep: RepRow, periodEnd: string): boolean {
+  if (!rep.active) return false;
+  return !rep.start_date || new Date(rep.start_date) <= new Date(periodEnd);
+}
+
+// Starting role for a rep seen for the first time, from their first HubSpot team name.
+// Only a guess: admins set the real role on the Reps page.
+function guessRole(teamName: string | undefined): Team {
+  const teamLower = (teamName || '').toLowerCase();
+  if (teamLower.includes('sdr')) return 'SDR';
+  if (teamLower.includes('marketing')) return 'Marketing';
+  return 'AE';
+}
+
+/**
+ * Pulls HubSpot owners into the rep directory and returns the whole directory.
+ *
+ * A new rep's role starts from their first HubSpot team name; after that the role, plan,
+ * start date and manager are only changed by admins. Reps whose owner has been removed
+ * from HubSpot are deactivated, and reactivated if the owner comes back.
+ */
+export async function syncRepsFromHubSpot(supabaseUrl: string, supabaseKey: string, hubspot: HubSpotClient): Promise<RepRow[]> {
+  const [owners, existing] = await Promise.all([
+    hubspot.listOwners(),
+    fetchReps(supabaseUrl, supabaseKey),
+  ]);
+  console.log(`Syncing ${owners.length} HubSpot owners into ${existing.length} reps`);
+
+  const existingByOwner = new Map(existing.map(r => [r.hubspot_owner_id, r]));
+  const syncedAt = new Date().toISOString();
+
+  // Reps missing from HubSpot aren't synced, so an inactive rep last synced before the latest
+  // sync was deactivated for being missing rather than by an admin
+  const syncTime = (rep: RepRow) => (rep.last_synced_at ? new Date(rep.last_synced_at).getTime() : 0);
+  const lastSync = Math.max(0, ...existing.map(syncTime));
+  const cameBack = (rep: RepRow) => !rep.active && syncTime(rep) < lastSync;
+
+  const rows = owners.map(owner => {
+    const ownerId = owner.id.toString();
+    const rep = existingByOwner.get(ownerId);
+    const teams: HubSpotTeamRef[] = (owner.teams || []).map(t => ({ id: t.id.toString(), name: t.name }));
+    return {
+      hubspot_owner_id: ownerId,
+      name: `${owner.firstName || ''} ${owner.lastName || ''}`.trim() || owner.email || ownerId,
+      email: owner.email || null,
+      hubspot_teams: teams,
+      // Re-sent unchanged for existing reps so the upsert never overwrites an admin's choice
+      role: rep?.role ?? guessRole(teams[0]?.name),
+      active: !rep || rep.active || cameBack(rep),
+      last_synced_at: syncedAt,
+    };
+  });
+
+  if (rows.length > 0) {
+    const upsertResponse = await fetch(`${supabaseUrl}/rest/v1/reps?on_conflict=hubspot_owner_id`, {
+      method: 'POST',
+      headers: {
+        ...restHeaders(supabaseKey),
+        'Prefer': 'resolution=merge-duplicates,return=minimal',
+      },
+      body: JSON.stringify(rows),
+    });
+
+    if (!upsertResponse.ok) {
+      const errorText = await upsertResponse.text();
+      console.error('Rep sync failed:', errorText);
+      throw new Error(`Failed to sync reps: ${upsertResponse.status}`);
+    }
+
+    const ownerIds = rows.map(r => `"${r.hubspot_owner_id}"`).join(',');
+    const deactivateResponse = await fetch(
+      `${supabaseUrl}/rest/v1/reps?active=eq.true&hubspot_owner_id=not.in.(${encodeURIComponent(ownerIds)})`,
+      {
+        method: 'PATCH',
+        headers: restHeaders(supabaseKey),
+        body: JSON.stringify({ active: false }),
+      }
+    );
+
+    if (!deactivateResponse.ok) {
+      const errorText = await deactivateResponse.text();
+      console.error('Deactivating removed reps failed:', errorText);
+      throw new Error(`Failed to deactivate removed reps: ${deactivateResponse.status}`);
+    }
+  }
+
+  return fetchReps(supabaseUrl, supabaseKey);
+}
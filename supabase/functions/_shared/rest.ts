@@ -0,0 +1,80 @@
+// Minimal PostgREST helpers for edge functions, which talk to the database with the service role key.
+
+export function restHeaders(supabaseKey: string): Record<string, string> {
+  return {
+    'apikey': supabaseKey,
+    'Authorization': `Bearer ${supabaseKey}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+export async function restGet(supabaseUrl: string, supabaseKey: string, path: string, what: string) {
+  const response = await fetch(`${supabaseUrl}/rest/v1/${path}`, {
+    headers: restHeaders(supabaseKey),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`${what} lookup failed:`, errorText);
+    throw new Error(`Failed to fetch ${what}: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/** Sends a write and returns the affected rows. */
+export async function restWrite(
+  supabaseUrl: string,
+  supabaseKey: string,
+  method: 'POST' | 'PATCH' | 'DELETE',
+  path: string,
+  body: unknown,
+  what: string,
+  prefer = 'return=representation'
+) {
+  const response = await fetch(`${supabaseUrl}/rest/v1/${path}`, {
+    method,
+    headers: {
+      ...restHeaders(supabaseKey),
+      'Prefer': prefer,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`${what} failed:`, errorText);
+    throw new Error(`Failed to ${what}: ${response.status}`);
+  }
+
+  return prefer.includes('return=representation') ? response.json() : null;
+}
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Calls a set-returning database function and reads every row, a page at a time, since
+ * PostgREST caps each response. `query` holds filters and must include an order.
+ */
+export async function restRpcAll<T>(
+  supabaseUrl: string,
+  supabaseKey: string,
+  fn: string,
+  args: Record<string, unknown>,
+  query: string,
+  what: string
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page: T[] = await restWrite(
+      supabaseUrl,
+      supabaseKey,
+      'POST',
+      `rpc/${fn}?${query}&limit=${PAGE_SIZE}&offset=${offset}`,
+      args,
+      `fetch ${what}`
+    );
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) return rows;
+  }
+}
@@ -0,0 +1,69 @@
+import type { CommissionResult } from './commissionEngine.ts';
+import { restWrite } from './rest.ts';
+
+export interface RunLogContext {
+  repId: string;
+  repName: string;
+  team: string;
+  periodStart: string;
+  periodEnd: string;
+  planId: string;
+  planVersionId: string;
+  crmSyncRunId: number;
+  /** The job task the run belongs to, for runs made by the job worker. */
+  jobTaskId?: string;
+}
+
+export interface RecordedRun {
+  runLogId: string;
+  statementId: string;
+  /** The rep's approved, locked or paid statement for the period, when the run's own statement was superseded by it */
+  approvedStatementId: string | null;
+}
+
+/**
+ * Logs a successful run, writes its line items (adjustments included) against it and opens a draft statement
+ * for review. The line items live in commission_line_items rather than in commission_json. Everything is
+ * written by record_commission_run in one transaction, so a run log always comes with its statement. When the
+ * rep's statement for the period is already approved, the new one is written as superseded rather than as a draft.
+ */
+export async function recordSuccessfulRun(
+  supabaseUrl: string,
+  supabaseKey: string,
+  context: RunLogContext,
+  result: CommissionResult
+): Promise<RecordedRun> {
+  const { lineItems, ...totals } = result;
+
+  const recorded: { run_log_id: string; statement_id: string; approved_statement_id: string | null } = await restWrite(supabaseUrl, supabaseKey, 'POST', 'rpc/record_commission_run', {
+    p_run: {
+      rep_id: context.repId,
+      rep_name: context.repName,
+      team: context.team,
+      period_start: context.periodStart,
+      period_end: context.periodEnd,
+      commission_json: totals,
+      plan_id: context.planId,
+      plan_version_id: context.planVersionId,
+      crm_sync_run_id: context.crmSyncRunId,
+      job_task_id: context.jobTaskId ?? null,
+    },
+    p_line_items: lineItems.map(line => ({
+      source_type: line.sourceType,
+      hubspot_id: line.hubspotId ?? null,
+      adjustment_id: line.adjustmentId ?? null,
+      description: line.description,
+      amount: line.amount,
+      rule: line.rule,
+      rate: line.rate,
+      commission: line.commission,
+    })),
+    p_total_commission: result.totalCommission,
+  }, 'record commission run');
+
+  return {
+    runLogId: recorded.run_log_id,
+    statementId: recorded.statement_id,
+    approvedStatementId: recorded.approved_statement_id,
+  };
+}
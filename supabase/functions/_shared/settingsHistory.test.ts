@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { diffSettings } from './settingsHistory.ts';
+
+const base = {
+  ae_brackets: [
+    { min: 0, max: 50000, percent: 5 },
+    { min: 50000, max: null, percent: 7.5 },
+  ],
+  ae_bracket_mode: 'flat',
+  sdr_closed_won_percent: 2,
+  marketing_same_as_sdr: true,
+  clawback_percent: 100,
+};
+
+describe('diffSettings', () => {
+  it('reports nothing when the versions match', () => {
+    expect(diffSettings(base, { ...base, ae_brackets: base.ae_brackets.map(row => ({ ...row })) })).toEqual([]);
+  });
+
+  it('labels bracket changes by row and key', () => {
+    const after = { ...base, ae_brackets: [base.ae_brackets[0], { ...base.ae_brackets[1], percent: 8 }] };
+    expect(diffSettings(base, after)).toEqual([
+      { field: 'ae_brackets', label: 'AE bracket 2 percent', before: '7.5', after: '8' },
+    ]);
+  });
+
+  it('shows added and removed rows whole', () => {
+    const after = {
+      ...base,
+      ae_brackets: [
+        { min: 0, max: 50000, percent: 5 },
+        { min: 50000, max: 100000, percent: 7.5 },
+        { min: 100000, max: null, percent: 10 },
+      ],
+    };
+    expect(diffSettings(base, after)).toEqual([
+      { field: 'ae_brackets', label: 'AE bracket 2 max', before: 'none', after: '100000' },
+      { field: 'ae_brackets', label: 'AE bracket 3', before: null, after: 'min 100000, max none, percent 10' },
+    ]);
+    expect(diffSettings(after, base)).toContainEqual({
+      field: 'ae_brackets',
+      label: 'AE bracket 3',
+      before: 'min 100000, max none, percent 10',
+      after: null,
+    });
+  });
+
+  it('compares scalars by value and lists every field for a first version', () => {
+    expect(diffSettings(base, { ...base, clawback_percent: '100', marketing_same_as_sdr: false })).toEqual([
+      { field: 'marketing_same_as_sdr', label: 'Marketing paid like SDRs', before: 'yes', after: 'no' },
+    ]);
+    expect(diffSettings(null, { clawback_percent: 50 })).toContainEqual({
+      field: 'clawback_percent',
+      label: 'Clawback percent',
+      before: null,
+      after: '50',
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import type { CommissionSettings } from './commissionEngine.ts';
+
+/** A plan version's rates as a history row snapshots them. Older rows may lack newer fields. */
+export type SettingsSnapshot = Partial<Record<keyof CommissionSettings, unknown>>;
+
+/** One field that changed between two versions, e.g. "AE bracket 2 percent" from "7.5" to "8". */
+export interface SettingsChange {
+  field: keyof CommissionSettings;
+  label: string;
+  /** null when a bracket or tier was added (before) or removed (after) */
+  before: string | null;
+  after: string | null;
+}
+
+// In the order the Settings page shows them. Bracket and tier lists are labelled per row.
+export const SETTINGS_FIELD_LABELS: Record<keyof CommissionSettings, string> = {
+  ae_brackets: 'AE bracket',
+  ae_bracket_mode: 'AE bracket mode',
+  ae_bracket_basis: 'AE bracket basis',
+  ae_revenue_multiplier_brackets: 'AE revenue multiplier',
+  ae_payment_term_bonuses: 'AE payment term bonus',
+  sdr_meeting_tiers: 'SDR meeting tier',
+  sdr_closed_won_percent: 'SDR closed won percent',
+  sdr_revenue_multiplier_brackets: 'SDR revenue multiplier',
+  marketing_same_as_sdr: 'Marketing paid like SDRs',
+  marketing_inbound_percent: 'Marketing inbound percent',
+  marketing_revenue_multiplier_brackets: 'Marketing revenue multiplier',
+  clawback_window_days: 'Clawback window days',
+  clawback_percent: 'Clawback percent',
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return 'none';
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  return String(value);
+}
+
+function formatRow(row: Record<string, unknown>): string {
+  return Object.entries(row)
+    .map(([key, value]) => `${key.replace(/_/g, ' ')} ${formatValue(value)}`)
+    .join(', ');
+}
+
+/**
+ * The field-level changes from one version to the next. Brackets and tiers are compared row by
+ * row, so raising the second AE bracket's rate reads "AE bracket 2 percent: 7.5 → 8". With no
+ * `before` (a plan's first version) every field counts as set.
+ */
+export function diffSettings(before: SettingsSnapshot | null, after: SettingsSnapshot): SettingsChange[] {
+  const changes: SettingsChange[] = [];
+
+  for (const field of Object.keys(SETTINGS_FIELD_LABELS) as (keyof CommissionSettings)[]) {
+    const label = SETTINGS_FIELD_LABELS[field];
+    const from = before?.[field];
+    const to = after[field];
+
+    if (Array.isArray(from) || Array.isArray(to)) {
+      const fromRows = (Array.isArray(from) ? from : []) as Record<string, unknown>[];
+      const toRows = (Array.isArray(to) ? to : []) as Record<string, unknown>[];
+
+      for (let i = 0; i < Math.max(fromRows.length, toRows.length); i++) {
+        const rowLabel = `${label} ${i + 1}`;
+        if (!fromRows[i]) {
+          changes.push({ field, label: rowLabel, before: null, after: formatRow(toRows[i]) });
+        } else if (!toRows[i]) {
+          changes.push({ field, label: rowLabel, before: formatRow(fromRows[i]), after: null });
+        } else {
+          for (const key of new Set([...Object.keys(fromRows[i]), ...Object.keys(toRows[i])])) {
+            const was = formatValue(fromRows[i][key]);
+            const now = formatValue(toRows[i][key]);
+            if (was !== now) {
+              changes.push({ field, label: `${rowLabel} ${key.replace(/_/g, ' ')}`, before: was, after: now });
+            }
+          }
+        }
+      }
+    } else if (!before || formatValue(from) !== formatValue(to)) {
+      changes.push({ field, label, before: before ? formatValue(from) : null, after: formatValue(to) });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import type { CommissionSettings } from './commissionEngine.ts';
+import { validateSettings } from './settingsValidation.ts';
+
+const valid: CommissionSettings = {
+  ae_brackets: [
+    { min: 0, max: 50000, percent: 5 },
+    { min: 50000, max: 100000, percent: 7.5 },
+    { min: 100000, max: null, percent: 10 },
+  ],
+  ae_bracket_mode: 'flat',
+  ae_bracket_basis: 'amount',
+  ae_payment_term_bonuses: [{ term: '12 months', bonus_percent: 3 }],
+  ae_revenue_multiplier_brackets: [],
+  sdr_meeting_tiers: [
+    { min: 0, max: 5, bonus_amount: 50 },
+    { min: 6, max: null, bonus_amount: 100 },
+  ],
+  sdr_closed_won_percent: 5,
+  sdr_revenue_multiplier_brackets: [],
+  marketing_same_as_sdr: true,
+  marketing_inbound_percent: 3,
+  marketing_revenue_multiplier_brackets: [],
+  clawback_window_days: 90,
+  clawback_percent: 100,
+};
+
+function withBrackets(ae_brackets: CommissionSettings['ae_brackets']) {
+  return validateSettings({ ...valid, ae_brackets });
+}
+
+describe('validateSettings', () => {
+  it('accepts contiguous brackets with an open-ended top and empty lists', () => {
+    expect(validateSettings(valid)).toEqual([]);
+  });
+
+  it('flags overlaps and gaps on the bracket that starts in the wrong place', () => {
+    expect(withBrackets([
+      { min: 0, max: 50000, percent: 5 },
+      { min: 40000, max: 100000, percent: 7.5 },
+      { min: 120000, max: null, percent: 10 },
+    ])).toEqual([
+      { path: 'ae_brackets.1.min', label: 'AE bracket 2 min', message: 'Overlaps the one before, which ends at 50000' },
+      { path: 'ae_brackets.2.min', label: 'AE bracket 3 min', message: 'Leaves a gap after the one before, which ends at 100000' },
+    ]);
+  });
+
+  it('starts each meeting tier one above the max of the tier before, which it includes', () => {
+    expect(validateSettings({
+      ...valid,
+      sdr_meeting_tiers: [
+        { min: 0, max: 5, bonus_amount: 50 },
+        { min: 5, max: 5, bonus_amount: 75 },
+        { min: 7, max: null, bonus_amount: 100 },
+      ],
+    })).toEqual([
+      { path: 'sdr_meeting_tiers.1.min', label: 'SDR meeting tier 2 min', message: 'Overlaps the one before, which ends at 5' },
+      { path: 'sdr_meeting_tiers.2.min', label: 'SDR meeting tier 3 min', message: 'Leaves a gap after the one before, which ends at 5' },
+    ]);
+  });
+
+  it('still reads saved meeting tiers that start on the max of the tier before', () => {
+    const legacy = {
+      ...valid,
+      sdr_meeting_tiers: [
+        { min: 0, max: 5, bonus_amount: 50 },
+        { min: 5, max: 10, bonus_amount: 100 },
+        { min: 10, max: null, bonus_amount: 150 },
+      ],
+    };
+    expect(validateSettings(legacy, { saved: true })).toEqual([]);
+    expect(validateSettings(legacy).map(problem => problem.path)).toEqual(['sdr_meeting_tiers.1.min', 'sdr_meeting_tiers.2.min']);
+  });
+
+  it('needs exactly one open-ended bracket, at the top', () => {
+    expect(withBrackets([
+      { min: 0, max: null, percent: 5 },
+      { min: 50000, max: 100000, percent: 7.5 },
+    ]).map(problem => problem.path)).toEqual(['ae_brackets.0.max', 'ae_brackets.1.max']);
+  });
+
+  it('rejects NaN, negative and out-of-range values', () => {
+    const problems = validateSettings({
+      ...valid,
+      ae_brackets: [{ min: 0, max: null, percent: NaN }],
+      sdr_meeting_tiers: [{ min: -1, max: null, bonus_amount: 50 }],
+      clawback_percent: 150,
+      clawback_window_days: 1.5,
+    });
+    expect(problems).toEqual([
+      { path: 'ae_brackets.0.percent', label: 'AE bracket 1 percent', message: 'Enter a number' },
+      { path: 'sdr_meeting_tiers.0.min', label: 'SDR meeting tier 1 min', message: 'Must be 0 or more' },
+      { path: 'clawback_window_days', label: 'Clawback window days', message: 'Enter whole days' },
+      { path: 'clawback_percent', label: 'Clawback percent', message: 'Must be 100 or less' },
+    ]);
+  });
+
+  it('rejects a payment term listed twice', () => {
+    expect(validateSettings({
+      ...valid,
+      ae_payment_term_bonuses: [{ term: '12 months', bonus_percent: 3 }, { term: '12 Months', bonus_percent: 4 }],
+    })).toEqual([
+      { path: 'ae_payment_term_bonuses.1.term', label: 'AE payment term bonus 2 term', message: 'This term already has a bonus' },
+    ]);
+  });
+});
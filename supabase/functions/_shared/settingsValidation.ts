@@ -0,0 +1,133 @@
+// Plan settings validation, run by the Settings page before saving and by every calculation
+// before using a plan version. zod comes from node_modules in the app and through
+// supabase/functions/import_map.json in the edge functions.
+import { z } from 'zod';
+import type { CommissionSettings } from './commissionEngine.ts';
+import { SETTINGS_FIELD_LABELS } from './settingsHistory.ts';
+
+/** Something wrong with one value, e.g. path "ae_brackets.1.min", label "AE bracket 2 min". */
+export interface SettingsProblem {
+  path: string;
+  label: string;
+  message: string;
+}
+
+/** Thrown when a plan version's settings fail validation, so nothing is calculated from them. */
+export class PlanSettingsError extends Error {
+  constructor(planName: string, version: number, public problems: SettingsProblem[]) {
+    super(
+      `Plan "${planName}" v${version} has invalid settings: ` +
+      problems.map(problem => `${problem.label}: ${problem.message}`).join('; ')
+    );
+    this.name = 'PlanSettingsError';
+  }
+}
+
+// z.number() turns away NaN, so a cleared input (parseFloat('') is NaN) fails here rather than
+// matching no bracket later
+function amount(max = Infinity) {
+  let schema = z.number({ required_error: 'Required', invalid_type_error: 'Enter a number' })
+    .finite('Enter a number')
+    .min(0, 'Must be 0 or more');
+  if (max !== Infinity) schema = schema.max(max, `Must be ${max} or less`);
+  return schema;
+}
+
+const percent = () => amount(100);
+
+/**
+ * Brackets and tiers as the engine matches them: in order, each starting where the one before
+ * ends, with only the last left open-ended. Gaps and overlaps would silently pay nothing or pay
+ * the first match. Brackets stop short of their max, which starts the next one; meeting tiers
+ * include their max (maxInclusive), so the next tier starts one meeting higher. With
+ * sharedBoundary, a tier may also start on the max of the one before.
+ */
+function ranges<T extends z.ZodRawShape>(value: T, { maxInclusive = false, sharedBoundary = false } = {}) {
+  return z.array(z.object({ min: amount(), max: amount().nullable(), ...value })).superRefine((rows, ctx) => {
+    rows.forEach((row, i) => {
+      if (row.max !== null && (maxInclusive ? row.max < row.min : row.max <= row.min)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [i, 'max'],
+          message: maxInclusive ? 'Must be min or more' : 'Must be above min',
+        });
+      }
+      if (row.max === null && i < rows.length - 1) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [i, 'max'], message: 'Only the last one can be open-ended' });
+      }
+
+      const previous = rows[i - 1];
+      const expectedMin = previous && previous.max !== null ? previous.max + (maxInclusive ? 1 : 0) : null;
+      if (expectedMin !== null && row.min !== expectedMin && !(sharedBoundary && row.min === previous.max)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [i, 'min'],
+          message: row.min < expectedMin
+            ? `Overlaps the one before, which ends at ${previous.max}`
+            : `Leaves a gap after the one before, which ends at ${previous.max}`,
+        });
+      }
+    });
+
+    if (rows.length > 0 && rows[rows.length - 1].max !== null) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [rows.length - 1, 'max'], message: 'Leave the last one open-ended' });
+    }
+  });
+}
+
+/**
+ * The settings schema. Saved versions (`saved`) may have meeting tiers that start on the max of
+ * the tier before, as tiers were written before they were validated as inclusive; the engine
+ * pays that count from the lower tier, so they are still read as they are rather than rewritten.
+ */
+function settingsSchema({ saved }: { saved: boolean }) {
+  return z.object({
+    ae_brackets: ranges({ percent: percent() }),
+    ae_bracket_mode: z.enum(['flat', 'marginal']),
+    ae_bracket_basis: z.enum(['amount', 'attainment']),
+    ae_payment_term_bonuses: z
+      .array(z.object({ term: z.string().trim().min(1, 'Required'), bonus_percent: percent() }))
+      .superRefine((bonuses, ctx) => {
+        bonuses.forEach((bonus, i) => {
+          if (bonuses.findIndex(other => other.term.toLowerCase() === bonus.term.toLowerCase()) < i) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: [i, 'term'], message: 'This term already has a bonus' });
+          }
+        });
+      }),
+    ae_revenue_multiplier_brackets: ranges({ multiplier: amount(10) }),
+    sdr_meeting_tiers: ranges({ bonus_amount: amount() }, { maxInclusive: true, sharedBoundary: saved }),
+    sdr_closed_won_percent: percent(),
+    sdr_revenue_multiplier_brackets: ranges({ multiplier: amount(10) }),
+    marketing_same_as_sdr: z.boolean(),
+    marketing_inbound_percent: percent(),
+    marketing_revenue_multiplier_brackets: ranges({ multiplier: amount(10) }),
+    clawback_window_days: amount(3650).int('Enter whole days'),
+    clawback_percent: percent(),
+  });
+}
+
+export const commissionSettingsSchema = settingsSchema({ saved: false });
+const savedSettingsSchema = settingsSchema({ saved: true });
+
+// "ae_brackets.1.min" reads "AE bracket 2 min"
+function problemLabel(path: (string | number)[]): string {
+  const [field, row, key] = path;
+  const label = SETTINGS_FIELD_LABELS[field as keyof CommissionSettings] ?? String(field);
+  if (row === undefined) return label;
+  return [`${label} ${Number(row) + 1}`, key && String(key).replace(/_/g, ' ')].filter(Boolean).join(' ');
+}
+
+/**
+ * Every problem with a set of plan settings; empty when they're safe to save and calculate from.
+ * Pass `saved` when checking a version already saved, before calculating from it.
+ */
+export function validateSettings(settings: unknown, { saved = false } = {}): SettingsProblem[] {
+  const parsed = (saved ? savedSettingsSchema : commissionSettingsSchema).safeParse(settings);
+  if (parsed.success) return [];
+
+  return parsed.error.issues.map(issue => ({
+    path: issue.path.join('.'),
+    label: problemLabel(issue.path),
+    message: issue.message,
+  }));
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { type HubSpotClient, HubSpotError } from './hubspot.ts';
+import { hashProperties, upsertStatementRecord } from './statementSync.ts';
+
+const STATEMENT_OBJECT_TYPE = '2-49027397';
+
+// Records calls and fails updates of the given ids with a 404, as HubSpot does for deleted records
+function fakeClient(deletedIds: string[] = []) {
+  const calls: string[] = [];
+  const client = {
+    async updateObject(objectType: string, id: string) {
+      calls.push(`update ${objectType} ${id}`);
+      if (deletedIds.includes(id)) throw new HubSpotError('Not found', 404, {});
+      return { id };
+    },
+    async createObject(objectType: string) {
+      calls.push(`create ${objectType}`);
+      return { id: 'new-record' };
+    },
+  };
+  return { client: client as unknown as HubSpotClient, calls };
+}
+
+describe('hashProperties', () => {
+  it('hashes the same properties the same way whatever their order', async () => {
+    const a = await hashProperties({ rep_id: '1', deals_commission: '100' });
+    const b = await hashProperties({ deals_commission: '100', rep_id: '1' });
+    expect(a).toBe(b);
+    expect(a).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('changes when a value changes', async () => {
+    const a = await hashProperties({ rep_id: '1', deals_commission: '100' });
+    const b = await hashProperties({ rep_id: '1', deals_commission: '100.5' });
+    expect(a).not.toBe(b);
+  });
+});
+
+describe('upsertStatementRecord', () => {
+  it('updates the known record', async () => {
+    const { client, calls } = fakeClient();
+    expect(await upsertStatementRecord(client, STATEMENT_OBJECT_TYPE, 'rec-1', {})).toEqual({ recordId: 'rec-1', action: 'updated' });
+    expect(calls).toEqual([`update ${STATEMENT_OBJECT_TYPE} rec-1`]);
+  });
+
+  it('creates a record when there is none yet', async () => {
+    const { client, calls } = fakeClient();
+    expect(await upsertStatementRecord(client, STATEMENT_OBJECT_TYPE, null, {})).toEqual({ recordId: 'new-record', action: 'created' });
+    expect(calls).toEqual([`create ${STATEMENT_OBJECT_TYPE}`]);
+  });
+
+  it('creates a new record when the known one was deleted in HubSpot', async () => {
+    const { client, calls } = fakeClient(['rec-1']);
+    expect(await upsertStatementRecord(client, STATEMENT_OBJECT_TYPE, 'rec-1', {})).toEqual({ recordId: 'new-record', action: 'created' });
+    expect(calls).toEqual([`update ${STATEMENT_OBJECT_TYPE} rec-1`, `create ${STATEMENT_OBJECT_TYPE}`]);
+  });
+});
@@ -0,0 +1,138 @@
+import { blendedBracketPercent, type CommissionResult } from './commissionEngine.ts';
+import { type HubSpotClient, HubSpotError } from './hubspot.ts';
+import { restWrite } from './rest.ts';
+
+/** The properties every statement record is written with; the statement object must define them all. */
+export const STATEMENT_PROPERTIES = [
+  'deals_commission',
+  'deals_rate_applied',
+  'deals_total_amount',
+  'channel',
+  'total_meetings',
+  'period_start',
+  'period_end',
+  'rep_name',
+  'rep_id',
+  'deal_commission',
+  'meeting_bonus',
+  'adjustments_total',
+  'adjustment_lines',
+  'clawbacks_total',
+];
+
+const ADJUSTMENT_LABELS: Record<string, string> = {
+  spiff: 'SPIFF',
+  correction: 'Correction',
+  draw: 'Draw',
+  clawback: 'Clawback',
+};
+
+export interface AdjustmentLine {
+  rule: string;
+  commission: number;
+  description: string;
+}
+
+/** The properties a statement's HubSpot record holds, from its run's result and adjustment lines. */
+export function buildStatementProperties(
+  commissionResult: CommissionResult,
+  adjustmentLines: AdjustmentLine[]
+): Record<string, string> {
+  return {
+    deals_commission: commissionResult.totalCommission.toString(),
+    deals_rate_applied: blendedBracketPercent(commissionResult.bracketBreakdown).toString(),
+    deals_total_amount: commissionResult.totalRevenue.toString(),
+    channel: commissionResult.team,
+    total_meetings: commissionResult.totalMeetings.toString(),
+    period_start: commissionResult.periodStart,
+    period_end: commissionResult.periodEnd,
+    rep_name: commissionResult.repName,
+    rep_id: commissionResult.repId,
+    deal_commission: commissionResult.dealCommission.toString(),
+    meeting_bonus: commissionResult.meetingBonus.toString(),
+    adjustments_total: (commissionResult.adjustmentTotal ?? 0).toString(),
+    adjustment_lines: adjustmentLines
+      .map(line => `${ADJUSTMENT_LABELS[line.rule] || line.rule}: ${Number(line.commission).toFixed(2)} (${line.description})`)
+      .join('\n'),
+    clawbacks_total: (commissionResult.clawbackTotal ?? 0).toString(),
+  };
+}
+
+/** SHA-256 of the properties with their keys sorted, so the same figures always hash the same. */
+export async function hashProperties(properties: Record<string, string>): Promise<string> {
+  const canonical = JSON.stringify(Object.keys(properties).sort().map(key => [key, properties[key]]));
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/** The id of the HubSpot record already holding this rep's statement for the period, if any. */
+export async function findStatementRecord(
+  hubspot: HubSpotClient,
+  objectType: string,
+  repId: string,
+  periodStart: string,
+  periodEnd: string
+): Promise<string | null> {
+  const [record] = await hubspot.search(objectType, {
+    filterGroups: [{
+      filters: [
+        { propertyName: 'rep_id', operator: 'EQ', value: repId },
+        { propertyName: 'period_start', operator: 'EQ', value: periodStart },
+        { propertyName: 'period_end', operator: 'EQ', value: periodEnd },
+      ],
+    }],
+    properties: ['rep_id'],
+  });
+  return record?.id ?? null;
+}
+
+/**
+ * Updates the statement's HubSpot record, or creates it when there's none yet or the one we
+ * knew about has been deleted in HubSpot.
+ */
+export async function upsertStatementRecord(
+  hubspot: HubSpotClient,
+  objectType: string,
+  recordId: string | null,
+  properties: Record<string, string>
+): Promise<{ recordId: string; action: 'created' | 'updated' }> {
+  if (recordId) {
+    try {
+      await hubspot.updateObject(objectType, recordId, properties);
+      return { recordId, action: 'updated' };
+    } catch (error) {
+      if (!(error instanceof HubSpotError && error.status === 404)) throw error;
+      console.log(`HubSpot record ${recordId} no longer exists; creating a new one`);
+    }
+  }
+
+  const created = await hubspot.createObject(objectType, properties);
+  return { recordId: created.id, action: 'created' };
+}
+
+/** A rep's statements for a period, which share one HubSpot record. */
+export interface StatementPeriod {
+  rep_id: string;
+  period_start: string;
+  period_end: string;
+}
+
+/**
+ * Claims the rep's period for a sync, so no other sync searches for and creates its HubSpot
+ * record at the same time. False when another sync holds it.
+ */
+export async function claimStatementSync(supabaseUrl: string, supabaseKey: string, statement: StatementPeriod): Promise<boolean> {
+  return restWrite(supabaseUrl, supabaseKey, 'POST', 'rpc/claim_hubspot_statement_sync', {
+    p_rep_id: statement.rep_id,
+    p_period_start: statement.period_start,
+    p_period_end: statement.period_end,
+  }, 'claim HubSpot statement sync');
+}
+
+export async function releaseStatementSync(supabaseUrl: string, supabaseKey: string, statement: StatementPeriod): Promise<void> {
+  await restWrite(supabaseUrl, supabaseKey, 'POST', 'rpc/release_hubspot_statement_sync', {
+    p_rep_id: statement.rep_id,
+    p_period_start: statement.period_start,
+    p_period_end: statement.period_end,
+  }, 'release HubSpot statement sync', 'return=minimal');
+}
@@ -0,0 +1,48 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { AccessDeniedError, requireRole } from "../_shared/auth.ts";
+import { fetchJobStatus } from "../_shared/jobs.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Progress of a commission job for the UI to poll: the job, task counts by status and
+// each rep's outcome. Takes the job id as { jobId } in the body or ?jobId= in the URL.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    await requireRole(req, supabaseUrl, supabaseKey, ['admin', 'finance']);
+
+    const jobId = new URL(req.url).searchParams.get('jobId') ?? (req.method === 'POST' ? (await req.json()).jobId : null);
+    if (!jobId) {
+      return new Response(JSON.stringify({ error: 'jobId is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const status = await fetchJobStatus(supabaseUrl, supabaseKey, jobId);
+    if (!status) {
+      return new Response(JSON.stringify({ error: 'Commission job not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify(status), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error: any) {
+    console.error('Error reading commission job status:', error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: error instanceof AccessDeniedError ? error.status : 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -1,4 +1,6 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.83.0';
+import { AccessDeniedError, requireRole } from '../_shared/auth.ts';
+import { createHubSpotClient } from '../_shared/hubspot.ts';
+import { syncRepsFromHubSpot } from '../_shared/reps.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,41 +14,18 @@ Deno.serve(async (req) => {
   }
 
   try {
-    console.log('Fetching HubSpot owners...');
+    console.log('Syncing HubSpot owners into the rep directory...');
 
-    const hubspotToken = Deno.env.get('HUBSPOT_PRIVATE_TOKEN');
-    if (!hubspotToken) {
-      throw new Error('HUBSPOT_PRIVATE_TOKEN not configured');
-    }
+    const hubspot = createHubSpotClient();
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    await requireRole(req, supabaseUrl, supabaseKey, ['admin']);
 
-    // Fetch all HubSpot owners
-    const ownersResponse = await fetch('https://api.hubapi.com/crm/v3/owners/', {
-      headers: {
-        'Authorization': `Bearer ${hubspotToken}`,
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!ownersResponse.ok) {
-      const errorText = await ownersResponse.text();
-      console.error('HubSpot owners fetch failed:', errorText);
-      throw new Error(`Failed to fetch HubSpot owners: ${ownersResponse.status}`);
-    }
-
-    const ownersData = await ownersResponse.json();
-    console.log(`Successfully fetched ${ownersData.results?.length || 0} owners`);
-
-    // Map the owners to a simpler format
-    const owners = ownersData.results.map((owner: any) => ({
-      id: owner.id,
-      name: `${owner.firstName} ${owner.lastName}`,
-      email: owner.email,
-      // Extract team name from team object, or default to 'AE'
-      team: owner.teams?.[0]?.name || 'AE',
-    }));
+    const reps = await syncRepsFromHubSpot(supabaseUrl, supabaseKey, hubspot);
+    console.log(`Rep directory now has ${reps.length} reps`);
 
     return new Response(
-      JSON.stringify({ owners }),
+      JSON.stringify({ reps }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         status: 200,
@@ -54,13 +33,13 @@ Deno.serve(async (req) => {
     );
 
   } catch (error) {
-    console.error('Error fetching HubSpot owners:', error);
+    console.error('Error syncing HubSpot owners:', error);
     const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
     return new Response(
       JSON.stringify({ error: errorMessage }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500,
+        status: error instanceof AccessDeniedError ? error.status : 500,
       }
     );
   }
@@ -0,0 +1,61 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { AccessDeniedError, requireRole } from "../_shared/auth.ts";
+import { createHubSpotClient } from "../_shared/hubspot.ts";
+import {
+  DEFAULT_HUBSPOT_MAPPING,
+  type HubSpotMapping,
+  type HubSpotMappingField,
+  validateHubSpotMapping,
+} from "../_shared/hubspotMapping.ts";
+import { restGet, restWrite } from "../_shared/rest.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Checks a HubSpot mapping against the portal's properties and, when asked to and nothing is
+// wrong with it, saves it. Problems come back per field rather than as an error.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { mapping: submitted, save } = await req.json();
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    await requireRole(req, supabaseUrl, supabaseKey, ['admin']);
+
+    // Only the mapping's own fields are taken from the request
+    const mapping = {} as HubSpotMapping;
+    for (const field of Object.keys(DEFAULT_HUBSPOT_MAPPING) as HubSpotMappingField[]) {
+      mapping[field] = (submitted?.[field] ?? '').toString().trim();
+    }
+
+    const problems = await validateHubSpotMapping(createHubSpotClient(), mapping);
+    let saved = false;
+
+    if (save && problems.length === 0) {
+      const [existing]: { id: string }[] = await restGet(supabaseUrl, supabaseKey, 'hubspot_mapping?select=id&limit=1', 'HubSpot mapping');
+      if (existing) {
+        await restWrite(supabaseUrl, supabaseKey, 'PATCH', `hubspot_mapping?id=eq.${existing.id}`, mapping, 'save HubSpot mapping', 'return=minimal');
+      } else {
+        await restWrite(supabaseUrl, supabaseKey, 'POST', 'hubspot_mapping', mapping, 'save HubSpot mapping', 'return=minimal');
+      }
+      saved = true;
+      console.log('Saved HubSpot mapping:', mapping);
+    }
+
+    return new Response(JSON.stringify({ valid: problems.length === 0, problems, saved }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error: any) {
+    console.error('Error checking HubSpot mapping:', error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: error instanceof AccessDeniedError ? error.status : 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,78 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { AccessDeniedError, requireRole } from "../_shared/auth.ts";
+import { InviteError, parseInvite } from "../_shared/invites.ts";
+import { restGet, restHeaders, restWrite } from "../_shared/rest.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Invites a user by email with the roles they'll get, or sends a pending invite again. The
+// invite is recorded before the email goes out, since accounts without one are turned away;
+// when they accept, they're linked to the HubSpot owner with the same email.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { email: requestedEmail, roles: requestedRoles, redirectTo } = await req.json();
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const invitedBy = await requireRole(req, supabaseUrl, supabaseKey, ['admin']);
+
+    const [settings]: { allowed_email_domains: string[] }[] = await restGet(
+      supabaseUrl,
+      supabaseKey,
+      'access_settings?select=allowed_email_domains&limit=1',
+      'access settings'
+    );
+    const { email, roles } = parseInvite(requestedEmail, requestedRoles, settings?.allowed_email_domains ?? []);
+
+    const [existing]: { accepted_at: string | null }[] = await restGet(
+      supabaseUrl,
+      supabaseKey,
+      `user_invites?select=accepted_at&email=eq.${encodeURIComponent(email)}`,
+      'user invite'
+    );
+    if (existing?.accepted_at) {
+      throw new InviteError(`${email} has already accepted an invite`, 409);
+    }
+
+    await restWrite(supabaseUrl, supabaseKey, 'POST', 'user_invites?on_conflict=email', {
+      email,
+      roles,
+      invited_by: invitedBy,
+      invited_at: new Date().toISOString(),
+    }, 'record user invite', 'resolution=merge-duplicates,return=minimal');
+
+    const query = redirectTo ? `?redirect_to=${encodeURIComponent(redirectTo)}` : '';
+    const response = await fetch(`${supabaseUrl}/auth/v1/invite${query}`, {
+      method: 'POST',
+      headers: restHeaders(supabaseKey),
+      body: JSON.stringify({ email }),
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Invite email failed:', errorText);
+      // Auth answers 422 for an email that already has an account
+      if (response.status === 422) {
+        throw new InviteError(`${email} already has an account`, 409);
+      }
+      throw new Error(`Failed to send invite: ${response.status}`);
+    }
+
+    console.log(`Invited ${email} as ${roles.join(', ')}`);
+    return new Response(JSON.stringify({ success: true, email, roles }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error: any) {
+    console.error('Error inviting user:', error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: error instanceof AccessDeniedError || error instanceof InviteError ? error.status : 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -1,4 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { AccessDeniedError, requireRole } from "../_shared/auth.ts";
+import { fetchLatestSnapshot, syncCrmSnapshot } from "../_shared/crmSnapshot.ts";
+import { createHubSpotClient } from "../_shared/hubspot.ts";
+import { enqueueCommissionJob, triggerJobWorker } from "../_shared/jobs.ts";
+import { findClosedMonths, PeriodClosedError } from "../_shared/periods.ts";
+import { fetchReps, isPayable } from "../_shared/reps.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,10 +19,7 @@ serve(async (req) => {
   try {
     console.log('Starting monthly commission run...');
 
-    const hubspotToken = Deno.env.get('HUBSPOT_PRIVATE_TOKEN');
-    if (!hubspotToken) {
-      throw new Error('HubSpot token not configured');
-    }
+    const hubspot = createHubSpotClient();
 
     // Calculate previous month
     const now = new Date();
@@ -28,437 +31,62 @@ serve(async (req) => {
 
     console.log(`Processing period: ${startDate} to ${endDate}`);
 
-    // Fetch all HubSpot owners
-    const ownersResponse = await fetch('https://api.hubapi.com/crm/v3/owners/', {
-      headers: {
-        'Authorization': `Bearer ${hubspotToken}`,
-      },
-    });
-
-    const ownersData = await ownersResponse.json();
-    const owners = ownersData.results || [];
-
-    console.log(`Found ${owners.length} owners to process`);
-
-    // Fetch settings
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    // The scheduler calls with the service role key; an admin can also start the run by hand
+    await requireRole(req, supabaseUrl, supabaseKey, ['admin']);
+
+    // A closed month has already been paid; leave it alone rather than writing new drafts for it
+    const closedMonths = await findClosedMonths(supabaseUrl, supabaseKey, startDate, endDate);
+    if (closedMonths.length > 0) {
+      console.log(`Period ${startDate} to ${endDate} is closed, skipping the run`);
+      return new Response(JSON.stringify({ success: true, skipped: true, reason: new PeriodClosedError(closedMonths).message }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
 
-    const settingsResponse = await fetch(`${supabaseUrl}/rest/v1/commission_settings?select=*&limit=1`, {
-      headers: {
-        'apikey': supabaseKey,
-        'Authorization': `Bearer ${supabaseKey}`,
-      },
-    });
-
-    const settings = (await settingsResponse.json())[0];
-
-    // Process each owner
-    const results = [];
-    for (const owner of owners) {
-      try {
-        console.log(`Processing owner: ${owner.email}`);
-
-        // Determine team (this would need to be customized based on your HubSpot setup)
-        const team = owner.teams?.[0]?.name || 'AE'; // Default to AE if team not found
-        
-        // Normalize team name for comparison
-        const teamLower = team.toLowerCase();
-        const isAE = teamLower.includes('ae');
-        const isSDR = teamLower.includes('sdr');
-        const isMarketing = teamLower.includes('marketing');
-        
-        console.log(`Owner ${owner.email} - Team: ${team} (isAE: ${isAE}, isSDR: ${isSDR}, isMarketing: ${isMarketing})`);
-
-        // For SDR, we already have owner details from the owners list
-        const ownerEmail = owner.email;
-        const ownerFullName = `${owner.firstName} ${owner.lastName}`;
-
-        // Fetch deals with date filters only - we'll filter by team after
-        let dealFilters: any[] = [
-          {
-            propertyName: 'closedate',
-            operator: 'GTE',
-            value: firstDayPrevMonth.getTime(),
-          },
-          {
-            propertyName: 'closedate',
-            operator: 'LTE',
-            value: lastDayPrevMonth.getTime(),
-          },
-        ];
-
-        const dealsResponse = await fetch('https://api.hubapi.com/crm/v3/objects/deals/search', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${hubspotToken}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            filterGroups: [
-              {
-                filters: dealFilters,
-              },
-            ],
-            properties: ['amount', 'closedate', 'dealstage', 'hubspot_owner_id', 'deal_channel', 'payment_terms', 'sdr_sde'],
-            limit: 100,
-          }),
-        });
-
-        const dealsData = await dealsResponse.json();
-        console.log(`Fetched ${dealsData.results?.length || 0} raw deals for ${owner.email} (${team})`);
-        
-        // Step 1: Map all deals with properties (no pre-filtering)
-        let allDeals = dealsData.results?.map((d: any) => ({
-          amount: parseFloat(d.properties.amount) || 0,
-          closedate: d.properties.closedate,
-          dealstage: d.properties.dealstage,
-          hubspot_owner_id: d.properties.hubspot_owner_id,
-          sdr_sde: d.properties.sdr_sde,
-          deal_channel: d.properties.deal_channel,
-          payment_terms: d.properties.payment_terms,
-          assignedTo: [] as string[], // Will hold ["AE"], ["SDR"], ["Marketing"], or combinations
-        })) || [];
-        
-        console.log(`Fetched ${allDeals.length} total deals for classification`);
-        
-        // Step 2: Normalize identifiers for matching
-        const normalizedRepId = owner.id?.toString().trim().toLowerCase() || '';
-        const normalizedEmail = ownerEmail?.toString().trim().toLowerCase() || '';
-        const normalizedFullName = ownerFullName?.toString().trim().toLowerCase() || '';
-        
-        // Step 3: Classify each deal using attribution rules
-        allDeals.forEach((deal: any) => {
-          const normalized = {
-            ownerId: deal.hubspot_owner_id?.toString().trim().toLowerCase() || '',
-            channel: deal.deal_channel?.toString().trim().toLowerCase() || '',
-            sdr: deal.sdr_sde?.toString().trim().toLowerCase() || '',
-          };
-          
-          // A) SDR attribution: sdr_sde matches SDR name or email
-          if (isSDR && normalized.sdr && (
-            normalized.sdr === normalizedFullName ||
-            normalized.sdr.includes(normalizedFullName) ||
-            normalized.sdr === normalizedEmail ||
-            normalized.sdr.includes(normalizedEmail)
-          )) {
-            deal.assignedTo.push('SDR');
-          }
-          
-          // B) AE attribution: hubspot_owner_id matches rep ID
-          if (isAE && normalized.ownerId === normalizedRepId) {
-            deal.assignedTo.push('AE');
-          }
-          
-          // C) Marketing attribution: inbound channel with no SDR
-          if (isMarketing && !normalized.sdr && normalized.channel === 'inbound') {
-            deal.assignedTo.push('Marketing');
-          }
-        });
-        
-        // Step 4: Filter deals based on team
-        let deals: any[] = [];
-        if (isAE) {
-          deals = allDeals.filter((d: any) => d.assignedTo.includes('AE'));
-          console.log(`AE filter: ${deals.length} deals assigned to AE`);
-        } else if (isSDR) {
-          deals = allDeals.filter((d: any) => d.assignedTo.includes('SDR'));
-          console.log(`SDR filter: ${deals.length} deals assigned to SDR`);
-        } else if (isMarketing) {
-          deals = allDeals.filter((d: any) => d.assignedTo.includes('Marketing'));
-          console.log(`Marketing filter: ${deals.length} deals assigned to Marketing`);
-        }
-        
-        console.log(`Final: Team=${team}, OwnerID=${owner.id}, Deals=${deals.length}`);
-
-        // Fetch meetings (only for SDR team)
-        let meetings: any[] = [];
-        if (isSDR) {
-          const meetingsResponse = await fetch('https://api.hubapi.com/crm/v3/objects/meetings/search', {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${hubspotToken}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              filterGroups: [
-                {
-                  filters: [
-                    {
-                      propertyName: 'hubspot_owner_id',
-                      operator: 'EQ',
-                      value: owner.id,
-                    },
-                    {
-                      propertyName: 'hs_meeting_start_time',
-                      operator: 'GTE',
-                      value: firstDayPrevMonth.getTime(),
-                    },
-                    {
-                      propertyName: 'hs_meeting_start_time',
-                      operator: 'LTE',
-                      value: lastDayPrevMonth.getTime(),
-                    },
-                  ],
-                },
-              ],
-              properties: ['hs_meeting_start_time', 'hs_meeting_type', 'hs_meeting_outcome'],
-              limit: 1000,
-            }),
-          });
-
-          const meetingsData = await meetingsResponse.json();
-          console.log(`Fetched ${meetingsData.results?.length || 0} raw meetings for ${ownerFullName}`);
-          
-          // Filter for "sales discovery meeting" type with "completed" outcome
-          meetings = meetingsData.results
-            ?.filter((m: any) => {
-              const meetingType = m.properties.hs_meeting_type?.toLowerCase() || '';
-              const outcome = m.properties.hs_meeting_outcome?.toLowerCase() || '';
-              const isMatch = meetingType.includes('sales discovery meeting') && outcome === 'completed';
-              return isMatch;
-            })
-            .map((m: any) => ({
-              timestamp: new Date(parseInt(m.properties.hs_meeting_start_time)).toISOString(),
-            })) || [];
-          
-          console.log(`After filtering: ${meetings.length} qualifying meetings (sales discovery + completed)`);
-        }
-
-        // Calculate commission
-        const commissionResult = calculateCommission(
-          owner.id,
-          owner.email,
-          team,
-          deals,
-          meetings,
-          settings,
-          startDate,
-          endDate
-        );
-
-        // Write back to HubSpot
-        await fetch('https://api.hubapi.com/crm/v3/objects/commission_statement', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${hubspotToken}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            properties: {
-              deals_commission: commissionResult.totalCommission,
-              deals_rate_applied: commissionResult.usedBracketPercent || 0,
-              deals_total_amount: commissionResult.totalRevenue,
-              channel: commissionResult.team,
-              total_meetings: commissionResult.totalMeetings,
-            },
-          }),
-        });
-
-        // Log to database
-        await fetch(`${supabaseUrl}/rest/v1/commission_run_logs`, {
-          method: 'POST',
-          headers: {
-            'apikey': supabaseKey,
-            'Authorization': `Bearer ${supabaseKey}`,
-            'Content-Type': 'application/json',
-            'Prefer': 'return=minimal',
-          },
-          body: JSON.stringify({
-            rep_id: owner.id,
-            rep_name: owner.email,
-            team,
-            period_start: startDate,
-            period_end: endDate,
-            commission_json: commissionResult,
-            success: true,
-          }),
-        });
-
-        results.push({ owner: owner.email, status: 'success' });
-      } catch (error: any) {
-        console.error(`Error processing owner ${owner.email}:`, error);
-
-        // Log error to database
-        await fetch(`${supabaseUrl}/rest/v1/commission_run_logs`, {
-          method: 'POST',
-          headers: {
-            'apikey': supabaseKey,
-            'Authorization': `Bearer ${supabaseKey}`,
-            'Content-Type': 'application/json',
-            'Prefer': 'return=minimal',
-          },
-          body: JSON.stringify({
-            rep_id: owner.id,
-            rep_name: owner.email,
-            team: 'Unknown',
-            period_start: startDate,
-            period_end: endDate,
-            commission_json: {},
-            success: false,
-            error_message: error.message,
-          }),
-        });
-
-        results.push({ owner: owner.email, status: 'error', error: error.message });
-      }
+    // Refresh the CRM snapshot (and with it the rep directory) from HubSpot. If HubSpot can't be
+    // reached, compute from the last successful snapshot rather than skipping the month.
+    let snapshot;
+    try {
+      snapshot = await syncCrmSnapshot(supabaseUrl, supabaseKey, hubspot);
+    } catch (error: any) {
+      console.error('CRM sync failed, falling back to the last snapshot:', error);
+      snapshot = await fetchLatestSnapshot(supabaseUrl, supabaseKey);
+    }
+    console.log(`Using CRM snapshot ${snapshot.id}`);
+
+    // Pay every active rep who had started by the period end
+    const allReps = await fetchReps(supabaseUrl, supabaseKey);
+    const reps = allReps.filter(rep => isPayable(rep, endDate));
+    console.log(`Found ${reps.length} of ${allReps.length} reps to process`);
+    if (reps.length === 0) {
+      return new Response(JSON.stringify({ success: true, skipped: true, reason: 'No payable reps for the period' }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
     }
 
-    console.log('Monthly commission run completed');
+    // Queue a task per rep; the job worker calculates them a chunk at a time, so the run no
+    // longer has to fit in this request however many reps there are
+    const job = await enqueueCommissionJob(supabaseUrl, supabaseKey, {
+      periodStart: startDate,
+      periodEnd: endDate,
+      repIds: reps.map(rep => rep.hubspot_owner_id),
+      crmSyncRunId: snapshot.id,
+      source: 'cron',
+    });
+    console.log(`Queued commission job ${job.id}`);
+
+    await triggerJobWorker(supabaseUrl, supabaseKey);
 
-    return new Response(JSON.stringify({ success: true, results }), {
+    return new Response(JSON.stringify({ success: true, jobId: job.id }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   } catch (error: any) {
     console.error('Error in monthly commission cron:', error);
     return new Response(JSON.stringify({ error: error.message }), {
-      status: 500,
+      status: error instanceof AccessDeniedError ? error.status : 500,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
 });
-
-function calculateCommission(
-  repId: string,
-  repName: string,
-  team: string,
-  deals: any[],
-  meetings: any[],
-  settings: any,
-  startDate: string,
-  endDate: string
-) {
-  let totalRevenue = 0;
-  let dealCommission = 0;
-  let meetingBonus = 0;
-  let weeklyBreakdown: any[] = [];
-
-  const closedWonDeals = deals.filter(d => 
-    d.dealstage?.toLowerCase().includes('closed') && 
-    d.dealstage?.toLowerCase().includes('won')
-  );
-
-  totalRevenue = closedWonDeals.reduce((sum, deal) => sum + deal.amount, 0);
-
-  const teamLower = team.toLowerCase();
-  const isAE = teamLower.includes('ae');
-  const isSDR = teamLower.includes('sdr');
-  const isMarketing = teamLower.includes('marketing');
-
-  // Apply revenue multiplier based on team
-  let adjustedRevenue = totalRevenue;
-  if (isAE && settings.ae_revenue_multiplier_brackets) {
-    const multiplierBracket = settings.ae_revenue_multiplier_brackets.find((b: any) =>
-      totalRevenue >= b.min && (b.max === null || totalRevenue < b.max)
-    );
-    if (multiplierBracket) {
-      adjustedRevenue = totalRevenue * multiplierBracket.multiplier;
-    }
-  } else if (isSDR && settings.sdr_revenue_multiplier_brackets) {
-    const multiplierBracket = settings.sdr_revenue_multiplier_brackets.find((b: any) =>
-      totalRevenue >= b.min && (b.max === null || totalRevenue < b.max)
-    );
-    if (multiplierBracket) {
-      adjustedRevenue = totalRevenue * multiplierBracket.multiplier;
-    }
-  } else if (isMarketing && settings.marketing_revenue_multiplier_brackets) {
-    const multiplierBracket = settings.marketing_revenue_multiplier_brackets.find((b: any) =>
-      totalRevenue >= b.min && (b.max === null || totalRevenue < b.max)
-    );
-    if (multiplierBracket) {
-      adjustedRevenue = totalRevenue * multiplierBracket.multiplier;
-    }
-  }
-
-  if (isAE) {
-    const bracket = settings.ae_brackets.find((b: any) => 
-      adjustedRevenue >= b.min && (b.max === null || adjustedRevenue < b.max)
-    );
-
-    if (bracket) {
-      dealCommission = adjustedRevenue * (bracket.percent / 100);
-    }
-
-    closedWonDeals.forEach(deal => {
-      if (deal.payment_terms) {
-        const bonus = settings.ae_payment_term_bonuses.find((b: any) => 
-          b.term.toLowerCase() === deal.payment_terms?.toLowerCase()
-        );
-        if (bonus) {
-          dealCommission += deal.amount * (bonus.bonus_percent / 100);
-        }
-      }
-    });
-  } else if (isSDR || (isMarketing && settings.marketing_same_as_sdr)) {
-    const weeklyMeetings: Record<number, any[]> = {};
-    meetings.forEach(meeting => {
-      const date = new Date(meeting.timestamp);
-      const weekNum = getISOWeek(date);
-      if (!weeklyMeetings[weekNum]) weeklyMeetings[weekNum] = [];
-      weeklyMeetings[weekNum].push(meeting);
-    });
-
-    Object.entries(weeklyMeetings).forEach(([week, weekMeetings]) => {
-      const meetingCount = weekMeetings.length;
-      const tier = settings.sdr_meeting_tiers.find((t: any) => 
-        meetingCount >= t.min && (t.max === null || meetingCount < t.max)
-      );
-      if (tier) {
-        meetingBonus += tier.bonus_amount;
-        weeklyBreakdown.push({ week: parseInt(week), meetings: meetingCount, bonus: tier.bonus_amount });
-      }
-    });
-
-    dealCommission = adjustedRevenue * (settings.sdr_closed_won_percent / 100);
-  } else if (isMarketing && !settings.marketing_same_as_sdr) {
-    const inboundDeals = closedWonDeals.filter(d => d.deal_channel?.toLowerCase() === 'inbound');
-    const inboundRevenue = inboundDeals.reduce((sum, deal) => sum + deal.amount, 0);
-    
-    // Apply multiplier to inbound revenue
-    let adjustedInboundRevenue = inboundRevenue;
-    if (settings.marketing_revenue_multiplier_brackets) {
-      const multiplierBracket = settings.marketing_revenue_multiplier_brackets.find((b: any) =>
-        inboundRevenue >= b.min && (b.max === null || inboundRevenue < b.max)
-      );
-      if (multiplierBracket) {
-        adjustedInboundRevenue = inboundRevenue * multiplierBracket.multiplier;
-      }
-    }
-    
-    dealCommission = adjustedInboundRevenue * (settings.marketing_inbound_percent / 100);
-  }
-
-  let usedBracketPercent: number | undefined;
-
-  if (team === 'AE') {
-    const bracket = settings.ae_brackets.find((b: any) => 
-      totalRevenue >= b.min && (b.max === null || totalRevenue < b.max)
-    );
-    if (bracket) {
-      usedBracketPercent = bracket.percent;
-    }
-  }
-
-  return {
-    repId,
-    repName,
-    team,
-    periodStart: startDate,
-    periodEnd: endDate,
-    totalRevenue,
-    totalCommission: dealCommission + meetingBonus,
-    dealCommission,
-    meetingBonus,
-    totalMeetings: meetings.length,
-    weeklyBreakdown,
-    usedBracketPercent,
-  };
-}
-
-function getISOWeek(date: Date): number {
-  const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
-  const dayNum = d.getUTCDay() || 7;
-  d.setUTCDate(d.getUTCDate() + 4 - dayNum);
-  const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
-  return Math.ceil((((d.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
-}
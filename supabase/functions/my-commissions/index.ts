@@ -0,0 +1,61 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { AccessDeniedError, requireRole } from "../_shared/auth.ts";
+import { bracketStanding } from "../_shared/commissionEngine.ts";
+import { fetchLatestSnapshot } from "../_shared/crmSnapshot.ts";
+import { calculateRepCommission, loadPeriodInputs } from "../_shared/periodRun.ts";
+import { fetchRepForUser } from "../_shared/reps.ts";
+import { PlanSettingsError } from "../_shared/settingsValidation.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// The signed-in rep's commission for the month so far, as of the latest CRM snapshot, and where
+// they stand in their brackets or tiers. Nothing is recorded: statements still come from runs.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const userId = await requireRole(req, supabaseUrl, supabaseKey, ['admin', 'finance', 'manager', 'rep']);
+    if (!userId) {
+      throw new AccessDeniedError('Sign in as a rep to see your commissions', 401);
+    }
+
+    // Users are linked to their HubSpot owner by email when either signs up or syncs
+    const rep = await fetchRepForUser(supabaseUrl, supabaseKey, userId);
+    if (!rep) {
+      return new Response(JSON.stringify({ rep: null }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const now = new Date();
+    const periodStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+    const periodEnd = now.toISOString();
+
+    const snapshot = await fetchLatestSnapshot(supabaseUrl, supabaseKey);
+    const inputs = await loadPeriodInputs(supabaseUrl, supabaseKey, periodStart, periodEnd, snapshot.id);
+    const { plan, result, meetings } = await calculateRepCommission(supabaseUrl, supabaseKey, inputs, rep);
+    console.log(`Running total for ${rep.name}: ${result.totalCommission} as of snapshot ${snapshot.id}`);
+
+    return new Response(JSON.stringify({
+      rep: { id: rep.hubspot_owner_id, name: rep.name, role: rep.role },
+      result,
+      standing: bracketStanding(plan, result, meetings),
+      syncedAt: snapshot.finished_at,
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error: any) {
+    console.error('Error calculating running commission:', error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: error instanceof AccessDeniedError ? error.status : error instanceof PlanSettingsError ? 422 : 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
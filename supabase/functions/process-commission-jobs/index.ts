@@ -0,0 +1,143 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { AccessDeniedError, requireRole } from "../_shared/auth.ts";
+import {
+  claimJobTasks,
+  type CommissionJob,
+  finishJobTask,
+  hasPendingJobTasks,
+  runInBackground,
+  triggerJobWorker,
+} from "../_shared/jobs.ts";
+import { loadPeriodInputs, type PeriodInputs, recordFailedRun, resolveRepPlan, runRepCommission } from "../_shared/periodRun.ts";
+import { assertPeriodOpen, PeriodClosedError } from "../_shared/periods.ts";
+import { fetchReps } from "../_shared/reps.ts";
+import { restGet } from "../_shared/rest.ts";
+import { PlanSettingsError } from "../_shared/settingsValidation.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Reps calculated per invocation; each chunk hands the rest to a fresh invocation
+const CHUNK_SIZE = 5;
+// A task that fails this many times, or whose worker stops on the last try, is left failed
+const MAX_ATTEMPTS = 3;
+
+// Works through one chunk of queued tasks and reports whether any are still waiting
+async function processChunk(supabaseUrl: string, supabaseKey: string): Promise<boolean> {
+  const tasks = await claimJobTasks(supabaseUrl, supabaseKey, CHUNK_SIZE, MAX_ATTEMPTS);
+  if (tasks.length === 0) {
+    console.log('No commission job tasks to run');
+    return false;
+  }
+  console.log(`Claimed ${tasks.length} commission job tasks`);
+
+  const jobIds = [...new Set(tasks.map(task => task.job_id))];
+  const jobs: CommissionJob[] = await restGet(
+    supabaseUrl,
+    supabaseKey,
+    `commission_jobs?select=*&id=in.(${jobIds.join(',')})`,
+    'commission jobs'
+  );
+  const jobsById = new Map(jobs.map(job => [job.id, job]));
+  const repsById = new Map((await fetchReps(supabaseUrl, supabaseKey)).map(rep => [rep.hubspot_owner_id, rep]));
+
+  // Plans, quotas, adjustments and deals are read once per job and shared by its tasks
+  const inputsByJob = new Map<string, PeriodInputs>();
+
+  for (const task of tasks) {
+    const job = jobsById.get(task.job_id)!;
+    const rep = repsById.get(task.rep_id);
+    let inputs: PeriodInputs | undefined;
+    let planVersionId: string | null = null;
+
+    try {
+      // A task picked up again after its worker stopped may already have recorded its run, which
+      // record_commission_run writes together with its statement
+      const existing: { id: string }[] = await restGet(
+        supabaseUrl,
+        supabaseKey,
+        `commission_run_logs?select=id&job_task_id=eq.${task.id}`,
+        'commission run log'
+      );
+      if (existing.length > 0) {
+        console.log(`Task ${task.id} (${task.rep_name}) already recorded run ${existing[0].id}`);
+        await finishJobTask(supabaseUrl, supabaseKey, task.id, 'succeeded');
+        continue;
+      }
+
+      // The period may have been closed while the job was waiting
+      await assertPeriodOpen(supabaseUrl, supabaseKey, job.period_start, job.period_end);
+
+      if (!rep) {
+        throw new Error(`${task.rep_name} is no longer in the rep directory`);
+      }
+
+      inputs = inputsByJob.get(job.id);
+      if (!inputs) {
+        inputs = await loadPeriodInputs(supabaseUrl, supabaseKey, job.period_start, job.period_end, job.crm_sync_run_id);
+        inputsByJob.set(job.id, inputs);
+      }
+
+      planVersionId = resolveRepPlan(inputs, rep).version.id;
+      console.log(`Processing rep: ${rep.name} (job ${job.id}, attempt ${task.attempts})`);
+      const { runLogId } = await runRepCommission(supabaseUrl, supabaseKey, inputs, rep, task.id);
+      console.log(`Recorded run ${runLogId} for ${rep.name}`);
+
+      await finishJobTask(supabaseUrl, supabaseKey, task.id, 'succeeded');
+    } catch (error: any) {
+      console.error(`Error processing rep ${task.rep_name}:`, error);
+
+      // A closed period won't open and invalid plan settings won't fix themselves, so only other
+      // errors are worth another attempt
+      const retry = !(error instanceof PeriodClosedError || error instanceof PlanSettingsError) && task.attempts < MAX_ATTEMPTS;
+      if (!retry && rep) {
+        await recordFailedRun(
+          supabaseUrl,
+          supabaseKey,
+          inputs ?? { periodStart: job.period_start, periodEnd: job.period_end, crmSyncRunId: job.crm_sync_run_id },
+          rep,
+          planVersionId,
+          error.message
+        ).catch(logError => console.error('Could not log the failed run:', logError));
+      }
+      await finishJobTask(supabaseUrl, supabaseKey, task.id, retry ? 'pending' : 'failed', error.message);
+    }
+  }
+
+  return hasPendingJobTasks(supabaseUrl, supabaseKey);
+}
+
+// Runs queued commission jobs a chunk at a time. Started by whoever queues a job, it answers
+// straight away and hands the next chunk to a new invocation of itself. It can also be
+// scheduled, so work left behind by a stopped invocation is picked up again.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    await requireRole(req, supabaseUrl, supabaseKey, ['admin', 'finance']);
+
+    const work = processChunk(supabaseUrl, supabaseKey)
+      .then(async (remaining) => {
+        if (remaining) await triggerJobWorker(supabaseUrl, supabaseKey);
+      })
+      .catch(error => console.error('Error processing commission jobs:', error));
+    await runInBackground(work);
+
+    return new Response(JSON.stringify({ accepted: true }), {
+      status: 202,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error: any) {
+    console.error('Error starting commission job worker:', error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: error instanceof AccessDeniedError ? error.status : 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,36 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { AccessDeniedError, requireRole } from "../_shared/auth.ts";
+import { syncCrmSnapshot } from "../_shared/crmSnapshot.ts";
+import { createHubSpotClient } from "../_shared/hubspot.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Mirrors HubSpot owners, deals and meetings into the local CRM snapshot that commissions are computed from
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const hubspot = createHubSpotClient();
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    await requireRole(req, supabaseUrl, supabaseKey, ['admin', 'finance']);
+
+    const run = await syncCrmSnapshot(supabaseUrl, supabaseKey, hubspot);
+    console.log(`CRM sync ${run.id} finished: ${run.deals_synced} deals, ${run.meetings_synced} meetings, ${run.owners_synced} owners`);
+
+    return new Response(JSON.stringify({ run }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error: any) {
+    console.error('Error syncing CRM snapshot:', error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: error instanceof AccessDeniedError ? error.status : 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -1,4 +1,18 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { AccessDeniedError, requireRole } from "../_shared/auth.ts";
+import { createHubSpotClient } from "../_shared/hubspot.ts";
+import { fetchHubSpotMapping } from "../_shared/hubspotMapping.ts";
+import { assertPeriodOpen, PeriodClosedError } from "../_shared/periods.ts";
+import { restGet, restWrite } from "../_shared/rest.ts";
+import {
+  type AdjustmentLine,
+  buildStatementProperties,
+  claimStatementSync,
+  findStatementRecord,
+  hashProperties,
+  releaseStatementSync,
+  upsertStatementRecord,
+} from "../_shared/statementSync.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -11,59 +25,105 @@ serve(async (req) => {
   }
 
   try {
-    const commissionResult = await req.json();
+    const { statementId } = await req.json();
 
-    const hubspotToken = Deno.env.get('HUBSPOT_PRIVATE_TOKEN');
-    if (!hubspotToken) {
-      throw new Error('HubSpot token not configured');
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    await requireRole(req, supabaseUrl, supabaseKey, ['admin', 'finance']);
+
+    // The statement is read from the database, not the request, so only the approved figures are synced
+    const [statement] = await restGet(
+      supabaseUrl,
+      supabaseKey,
+      `commission_statements?select=*,commission_run_logs(commission_json)&id=eq.${encodeURIComponent(statementId)}`,
+      'commission statement'
+    );
+
+    if (!statement) {
+      return new Response(JSON.stringify({ error: `Commission statement ${statementId} not found` }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
     }
 
-    // Prepare commission data for HubSpot
-    const recordData = {
-      properties: {
-        deals_commission: commissionResult.totalCommission.toString(),
-        deals_rate_applied: (commissionResult.usedBracketPercent || 0).toString(),
-        deals_total_amount: commissionResult.totalRevenue.toString(),
-        channel: commissionResult.team,
-        total_meetings: commissionResult.totalMeetings.toString(),
-        period_start: commissionResult.periodStart,
-        period_end: commissionResult.periodEnd,
-        rep_name: commissionResult.repName,
-        rep_id: commissionResult.repId,
-        deal_commission: commissionResult.dealCommission.toString(),
-        meeting_bonus: commissionResult.meetingBonus.toString(),
-      },
-    };
-
-    console.log('Syncing to HubSpot:', recordData);
-
-    // Sync to HubSpot custom object (Commission Statements)
-    const response = await fetch('https://api.hubapi.com/crm/v3/objects/2-49027397', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${hubspotToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(recordData),
-    });
+    if (statement.status !== 'approved') {
+      return new Response(JSON.stringify({ error: `Only approved statements can be synced; this one is ${statement.status}` }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // A closed month's figures stay as they were paid until the month is reopened
+    await assertPeriodOpen(supabaseUrl, supabaseKey, statement.period_start, statement.period_end);
+
+    const commissionResult = statement.commission_run_logs.commission_json;
+    const hubspot = createHubSpotClient();
+    const { statement_object_type: objectType } = await fetchHubSpotMapping(supabaseUrl, supabaseKey);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('HubSpot API error:', errorText);
-      throw new Error(`HubSpot API error: ${response.status}`);
+    // Adjustments go to HubSpot one per line, as recorded with the run, in a fixed order so the hash is stable
+    const adjustmentLines: AdjustmentLine[] = await restGet(
+      supabaseUrl,
+      supabaseKey,
+      `commission_line_items?select=rule,commission,description&run_log_id=eq.${statement.run_log_id}&source_type=eq.adjustment&order=created_at,id`,
+      'adjustment line items'
+    );
+
+    const properties = buildStatementProperties(commissionResult, adjustmentLines);
+    const hash = await hashProperties(properties);
+
+    // Two syncs of the rep's period at once would both find no record and both create one
+    if (!await claimStatementSync(supabaseUrl, supabaseKey, statement)) {
+      return new Response(JSON.stringify({ error: `${statement.rep_name}'s statement for the period is already being synced; try again shortly` }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
     }
 
-    const result = await response.json();
+    let recordId: string;
+    let action: 'created' | 'updated' | 'unchanged';
+    try {
+      // The rep's statement for the period last synced, whichever statement that was
+      const [lastSynced]: { hubspot_record_id: string; hubspot_synced_hash: string }[] = await restGet(
+        supabaseUrl,
+        supabaseKey,
+        `commission_statements?select=hubspot_record_id,hubspot_synced_hash` +
+          `&rep_id=eq.${encodeURIComponent(statement.rep_id)}` +
+          `&period_start=eq.${encodeURIComponent(statement.period_start)}` +
+          `&period_end=eq.${encodeURIComponent(statement.period_end)}` +
+          `&hubspot_record_id=not.is.null&order=hubspot_synced_at.desc&limit=1`,
+        'last synced statement'
+      );
+
+      if (lastSynced && lastSynced.hubspot_synced_hash === hash) {
+        // HubSpot already holds these exact figures
+        recordId = lastSynced.hubspot_record_id;
+        action = 'unchanged';
+      } else {
+        // Records synced before we kept their ids are found by rep and period instead
+        const knownId = lastSynced?.hubspot_record_id ??
+          await findStatementRecord(hubspot, objectType, commissionResult.repId, commissionResult.periodStart, commissionResult.periodEnd);
+        console.log('Syncing to HubSpot:', { recordId: knownId, properties });
+        ({ recordId, action } = await upsertStatementRecord(hubspot, objectType, knownId, properties));
+      }
+
+      await restWrite(supabaseUrl, supabaseKey, 'PATCH', `commission_statements?id=eq.${statement.id}`, {
+        hubspot_record_id: recordId,
+        hubspot_synced_hash: hash,
+        hubspot_synced_at: new Date().toISOString(),
+      }, 'record HubSpot sync', 'return=minimal');
+    } finally {
+      await releaseStatementSync(supabaseUrl, supabaseKey, statement);
+    }
 
-    console.log('Successfully created commission record in HubSpot:', result.id);
+    console.log(`HubSpot commission record ${recordId} ${action}`);
 
-    return new Response(JSON.stringify({ success: true, recordId: result.id }), {
+    return new Response(JSON.stringify({ success: true, recordId, action }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   } catch (error: any) {
     console.error('Error syncing to HubSpot:', error);
     return new Response(JSON.stringify({ error: error.message }), {
-      status: 500,
+      status: error instanceof AccessDeniedError ? error.status : error instanceof PeriodClosedError ? 409 : 500,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
@@ -0,0 +1,3 @@
+-- AE bracket mode: 'flat' pays all revenue at one bracket's rate, 'marginal' pays each slice at its own rate
+ALTER TABLE commission_settings
+ADD COLUMN ae_bracket_mode text NOT NULL DEFAULT 'flat' CHECK (ae_bracket_mode IN ('flat', 'marginal'));
@@ -0,0 +1,41 @@
+-- AE bracket basis: 'amount' brackets are dollar ranges, 'attainment' brackets are percent of the rep's quota
+ALTER TABLE commission_settings
+ADD COLUMN ae_bracket_basis text NOT NULL DEFAULT 'amount' CHECK (ae_bracket_basis IN ('amount', 'attainment'));
+
+-- Per-rep quota, keyed by HubSpot owner id
+CREATE TABLE public.rep_quotas (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rep_id TEXT NOT NULL UNIQUE,
+  rep_name TEXT NOT NULL,
+  period TEXT NOT NULL DEFAULT 'monthly' CHECK (period IN ('monthly', 'quarterly')),
+  quota_amount NUMERIC(12,2) NOT NULL CHECK (quota_amount >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.rep_quotas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated users to view rep quotas"
+  ON public.rep_quotas FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Allow authenticated users to insert rep quotas"
+  ON public.rep_quotas FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Allow authenticated users to update rep quotas"
+  ON public.rep_quotas FOR UPDATE
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Allow authenticated users to delete rep quotas"
+  ON public.rep_quotas FOR DELETE
+  TO authenticated
+  USING (true);
+
+CREATE TRIGGER update_rep_quotas_updated_at
+  BEFORE UPDATE ON public.rep_quotas
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,57 @@
+-- Turn commission_settings into immutable, effective-dated plan versions.
+-- Saving settings now inserts a new version; the previous open version is closed at the new effective_from.
+ALTER TABLE public.commission_settings
+ADD COLUMN version INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN effective_from TIMESTAMPTZ NOT NULL DEFAULT '2000-01-01T00:00:00Z',
+ADD COLUMN effective_to TIMESTAMPTZ;
+
+ALTER TABLE public.commission_settings ALTER COLUMN effective_from DROP DEFAULT;
+
+ALTER TABLE public.commission_settings
+ADD CONSTRAINT commission_settings_version_unique UNIQUE (version),
+ADD CONSTRAINT commission_settings_effective_range CHECK (effective_to IS NULL OR effective_to >= effective_from);
+
+CREATE INDEX idx_commission_settings_effective ON public.commission_settings(effective_from DESC, version DESC);
+
+-- Versions are immutable once written
+DROP POLICY "Allow authenticated users to update commission settings" ON public.commission_settings;
+DROP TRIGGER update_commission_settings_updated_at ON public.commission_settings;
+
+-- Number the new version and close the one it supersedes
+CREATE OR REPLACE FUNCTION public.commission_settings_new_version()
+RETURNS TRIGGER AS $$
+DECLARE
+  latest public.commission_settings%ROWTYPE;
+BEGIN
+  SELECT * INTO latest FROM public.commission_settings
+  ORDER BY version DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF FOUND THEN
+    IF NEW.effective_from < latest.effective_from THEN
+      RAISE EXCEPTION 'New plan version must take effect on or after % (version %)', latest.effective_from, latest.version;
+    END IF;
+
+    UPDATE public.commission_settings
+    SET effective_to = NEW.effective_from
+    WHERE id = latest.id;
+
+    NEW.version = latest.version + 1;
+  ELSE
+    NEW.version = 1;
+  END IF;
+
+  NEW.effective_to = NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER commission_settings_new_version
+  BEFORE INSERT ON public.commission_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.commission_settings_new_version();
+
+-- Record which plan version each run used
+ALTER TABLE public.commission_run_logs
+ADD COLUMN plan_version_id UUID REFERENCES public.commission_settings(id);
@@ -0,0 +1,140 @@
+-- Named commission plans. Each plan has a role (which rule set it pays with) and its own
+-- effective-dated versions in commission_settings, and is assigned to HubSpot owners or teams.
+CREATE TABLE public.commission_plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  role TEXT NOT NULL CHECK (role IN ('AE', 'SDR', 'Marketing')),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- The default plan for a role pays reps that have no assignment
+CREATE UNIQUE INDEX idx_commission_plans_default_role ON public.commission_plans(role) WHERE is_default;
+
+CREATE TABLE public.commission_plan_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id UUID NOT NULL REFERENCES public.commission_plans(id) ON DELETE CASCADE,
+  assignee_type TEXT NOT NULL CHECK (assignee_type IN ('owner', 'team')),
+  assignee_id TEXT NOT NULL,
+  assignee_name TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (assignee_type, assignee_id)
+);
+
+CREATE INDEX idx_commission_plan_assignments_plan_id ON public.commission_plan_assignments(plan_id);
+
+ALTER TABLE public.commission_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.commission_plan_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated users to view commission plans"
+  ON public.commission_plans FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Allow authenticated users to insert commission plans"
+  ON public.commission_plans FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Allow authenticated users to update commission plans"
+  ON public.commission_plans FOR UPDATE
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Allow authenticated users to view plan assignments"
+  ON public.commission_plan_assignments FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Allow authenticated users to insert plan assignments"
+  ON public.commission_plan_assignments FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Allow authenticated users to delete plan assignments"
+  ON public.commission_plan_assignments FOR DELETE
+  TO authenticated
+  USING (true);
+
+CREATE TRIGGER update_commission_plans_updated_at
+  BEFORE UPDATE ON public.commission_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed one default plan per existing team and give each a copy of the version history
+INSERT INTO public.commission_plans (name, role, is_default) VALUES
+  ('AE', 'AE', true),
+  ('SDR', 'SDR', true),
+  ('Marketing', 'Marketing', true);
+
+ALTER TABLE public.commission_settings
+ADD COLUMN plan_id UUID REFERENCES public.commission_plans(id) ON DELETE CASCADE;
+
+ALTER TABLE public.commission_settings DROP CONSTRAINT commission_settings_version_unique;
+
+UPDATE public.commission_settings
+SET plan_id = (SELECT id FROM public.commission_plans WHERE name = 'AE');
+
+ALTER TABLE public.commission_settings DISABLE TRIGGER commission_settings_new_version;
+
+INSERT INTO public.commission_settings (
+  plan_id, version, effective_from, effective_to,
+  ae_brackets, ae_bracket_mode, ae_bracket_basis, ae_payment_term_bonuses, ae_revenue_multiplier_brackets,
+  sdr_meeting_tiers, sdr_closed_won_percent, sdr_revenue_multiplier_brackets,
+  marketing_same_as_sdr, marketing_inbound_percent, marketing_revenue_multiplier_brackets,
+  created_at, updated_at
+)
+SELECT
+  p.id, s.version, s.effective_from, s.effective_to,
+  s.ae_brackets, s.ae_bracket_mode, s.ae_bracket_basis, s.ae_payment_term_bonuses, s.ae_revenue_multiplier_brackets,
+  s.sdr_meeting_tiers, s.sdr_closed_won_percent, s.sdr_revenue_multiplier_brackets,
+  s.marketing_same_as_sdr, s.marketing_inbound_percent, s.marketing_revenue_multiplier_brackets,
+  s.created_at, s.updated_at
+FROM public.commission_settings s
+CROSS JOIN public.commission_plans p
+WHERE p.name IN ('SDR', 'Marketing');
+
+ALTER TABLE public.commission_settings ENABLE TRIGGER commission_settings_new_version;
+
+ALTER TABLE public.commission_settings
+ALTER COLUMN plan_id SET NOT NULL,
+ADD CONSTRAINT commission_settings_plan_version_unique UNIQUE (plan_id, version);
+
+DROP INDEX public.idx_commission_settings_effective;
+CREATE INDEX idx_commission_settings_effective ON public.commission_settings(plan_id, effective_from DESC, version DESC);
+
+-- Versions are now numbered and closed per plan
+CREATE OR REPLACE FUNCTION public.commission_settings_new_version()
+RETURNS TRIGGER AS $$
+DECLARE
+  latest public.commission_settings%ROWTYPE;
+BEGIN
+  SELECT * INTO latest FROM public.commission_settings
+  WHERE plan_id = NEW.plan_id
+  ORDER BY version DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF FOUND THEN
+    IF NEW.effective_from < latest.effective_from THEN
+      RAISE EXCEPTION 'New plan version must take effect on or after % (version %)', latest.effective_from, latest.version;
+    END IF;
+
+    UPDATE public.commission_settings
+    SET effective_to = NEW.effective_from
+    WHERE id = latest.id;
+
+    NEW.version = latest.version + 1;
+  ELSE
+    NEW.version = 1;
+  END IF;
+
+  NEW.effective_to = NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Record which plan each run used
+ALTER TABLE public.commission_run_logs
+ADD COLUMN plan_id UUID REFERENCES public.commission_plans(id);
@@ -0,0 +1,49 @@
+-- Rep directory synced from HubSpot owners. HubSpot owns name, email and teams; role, plan,
+-- start date, active flag and manager are set here and never overwritten by a sync.
+CREATE TABLE public.reps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  hubspot_owner_id TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  email TEXT,
+  hubspot_teams JSONB NOT NULL DEFAULT '[]'::jsonb,
+  role TEXT NOT NULL CHECK (role IN ('AE', 'SDR', 'Marketing')),
+  plan_id UUID REFERENCES public.commission_plans(id) ON DELETE SET NULL,
+  start_date DATE,
+  active BOOLEAN NOT NULL DEFAULT true,
+  manager_id UUID REFERENCES public.reps(id) ON DELETE SET NULL,
+  last_synced_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_reps_plan_id ON public.reps(plan_id);
+
+ALTER TABLE public.reps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated users to view reps"
+  ON public.reps FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Allow authenticated users to update reps"
+  ON public.reps FOR UPDATE
+  TO authenticated
+  USING (true);
+
+CREATE TRIGGER update_reps_updated_at
+  BEFORE UPDATE ON public.reps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A rep's plan now lives on the rep, so owner-level plan assignments move into the directory
+INSERT INTO public.reps (hubspot_owner_id, name, role, plan_id)
+SELECT a.assignee_id, a.assignee_name, p.role, a.plan_id
+FROM public.commission_plan_assignments a
+JOIN public.commission_plans p ON p.id = a.plan_id
+WHERE a.assignee_type = 'owner';
+
+DELETE FROM public.commission_plan_assignments WHERE assignee_type = 'owner';
+
+ALTER TABLE public.commission_plan_assignments
+DROP CONSTRAINT commission_plan_assignments_assignee_type_check,
+ADD CONSTRAINT commission_plan_assignments_assignee_type_check CHECK (assignee_type = 'team');
@@ -0,0 +1,85 @@
+-- Local snapshot of the HubSpot CRM data commissions are computed from. Every sync run
+-- appends a new version of each deal and meeting modified since the previous run, so the
+-- state as of any run can be rebuilt and a calculation reproduced later.
+CREATE TABLE public.crm_sync_runs (
+  id BIGSERIAL PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ,
+  -- High-water marks of hs_lastmodifieddate; the next run picks up from here
+  deals_cursor TIMESTAMPTZ,
+  meetings_cursor TIMESTAMPTZ,
+  deals_synced INTEGER NOT NULL DEFAULT 0,
+  meetings_synced INTEGER NOT NULL DEFAULT 0,
+  owners_synced INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT
+);
+
+CREATE TABLE public.crm_deals (
+  hubspot_id TEXT NOT NULL,
+  sync_run_id BIGINT NOT NULL REFERENCES public.crm_sync_runs(id),
+  closedate TIMESTAMPTZ,
+  last_modified_at TIMESTAMPTZ,
+  properties JSONB NOT NULL,
+  PRIMARY KEY (hubspot_id, sync_run_id)
+);
+
+CREATE TABLE public.crm_meetings (
+  hubspot_id TEXT NOT NULL,
+  sync_run_id BIGINT NOT NULL REFERENCES public.crm_sync_runs(id),
+  start_time TIMESTAMPTZ,
+  last_modified_at TIMESTAMPTZ,
+  properties JSONB NOT NULL,
+  -- Deals associated with the meeting when this version was synced
+  deal_ids TEXT[] NOT NULL DEFAULT '{}',
+  PRIMARY KEY (hubspot_id, sync_run_id)
+);
+
+CREATE INDEX idx_crm_deals_latest ON public.crm_deals(hubspot_id, sync_run_id DESC);
+CREATE INDEX idx_crm_deals_closedate ON public.crm_deals(closedate);
+CREATE INDEX idx_crm_meetings_latest ON public.crm_meetings(hubspot_id, sync_run_id DESC);
+CREATE INDEX idx_crm_meetings_start_time ON public.crm_meetings(start_time);
+
+ALTER TABLE public.crm_sync_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.crm_deals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.crm_meetings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated users to view CRM sync runs"
+  ON public.crm_sync_runs FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Allow authenticated users to view CRM deals"
+  ON public.crm_deals FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Allow authenticated users to view CRM meetings"
+  ON public.crm_meetings FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- The latest version of every deal and meeting as of a sync run, ignoring rows left by failed
+-- runs. Callers filter the result (e.g. on closedate) so a record that has since moved out of
+-- range isn't read from an older version.
+CREATE OR REPLACE FUNCTION public.crm_deals_as_of(p_sync_run_id BIGINT)
+RETURNS SETOF public.crm_deals AS $$
+  SELECT DISTINCT ON (hubspot_id) *
+  FROM public.crm_deals
+  WHERE sync_run_id <= p_sync_run_id
+    AND sync_run_id IN (SELECT id FROM public.crm_sync_runs WHERE status = 'succeeded')
+  ORDER BY hubspot_id, sync_run_id DESC;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.crm_meetings_as_of(p_sync_run_id BIGINT)
+RETURNS SETOF public.crm_meetings AS $$
+  SELECT DISTINCT ON (hubspot_id) *
+  FROM public.crm_meetings
+  WHERE sync_run_id <= p_sync_run_id
+    AND sync_run_id IN (SELECT id FROM public.crm_sync_runs WHERE status = 'succeeded')
+  ORDER BY hubspot_id, sync_run_id DESC;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Record which snapshot each run computed from
+ALTER TABLE public.commission_run_logs
+ADD COLUMN crm_sync_run_id BIGINT REFERENCES public.crm_sync_runs(id);
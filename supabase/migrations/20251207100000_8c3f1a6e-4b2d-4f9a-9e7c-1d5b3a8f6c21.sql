@@ -0,0 +1,39 @@
+-- Every deal and meeting credited in a commission run and what it earned, so a rep can
+-- dispute a single line and finance can trace each dollar of a run's total. Lines are
+-- written once with their run and never changed.
+CREATE TABLE public.commission_line_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  run_log_id UUID NOT NULL REFERENCES public.commission_run_logs(id),
+  source_type TEXT NOT NULL CHECK (source_type IN ('deal', 'meeting')),
+  hubspot_id TEXT,
+  description TEXT NOT NULL,
+  -- Deal amount; null on meeting lines
+  amount NUMERIC,
+  rule TEXT NOT NULL,
+  -- Percent of amount on deal lines, dollars per meeting on meeting lines
+  rate NUMERIC NOT NULL,
+  commission NUMERIC NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_commission_line_items_run_log_id ON public.commission_line_items(run_log_id);
+CREATE INDEX idx_commission_line_items_hubspot_id ON public.commission_line_items(hubspot_id);
+
+ALTER TABLE public.commission_line_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated users to view commission line items"
+  ON public.commission_line_items FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION public.prevent_commission_line_item_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Commission line items are immutable';
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prevent_commission_line_item_changes
+BEFORE UPDATE OR DELETE ON public.commission_line_items
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_commission_line_item_changes();
@@ -0,0 +1,105 @@
+-- Commission statements: every successful run produces a draft statement that has to be
+-- reviewed and approved before it can be synced to HubSpot, then is locked and marked paid.
+CREATE TABLE public.commission_statements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  run_log_id UUID NOT NULL UNIQUE REFERENCES public.commission_run_logs(id),
+  rep_id TEXT NOT NULL,
+  rep_name TEXT NOT NULL,
+  team TEXT NOT NULL,
+  period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  total_commission NUMERIC NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'submitted', 'approved', 'locked', 'paid')),
+  status_changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Null while the statement is still the draft written by a run
+  status_changed_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One row per status change, with who made it and when
+CREATE TABLE public.commission_statement_transitions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  statement_id UUID NOT NULL REFERENCES public.commission_statements(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  -- Null for the draft created by a commission run
+  actor_id UUID REFERENCES auth.users(id),
+  actor_email TEXT,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_commission_statements_rep_period ON public.commission_statements(rep_id, period_start);
+CREATE INDEX idx_commission_statements_status ON public.commission_statements(status);
+CREATE INDEX idx_commission_statement_transitions_statement_id ON public.commission_statement_transitions(statement_id);
+
+ALTER TABLE public.commission_statements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.commission_statement_transitions ENABLE ROW LEVEL SECURITY;
+
+-- Statuses only change through transition_commission_statement, so there are no update policies
+CREATE POLICY "Allow authenticated users to view commission statements"
+  ON public.commission_statements FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Allow authenticated users to view commission statement transitions"
+  ON public.commission_statement_transitions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE TRIGGER update_commission_statements_updated_at
+  BEFORE UPDATE ON public.commission_statements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Moves a statement along draft -> submitted -> approved -> locked -> paid, recording the
+-- signed-in user as the actor. A submitted statement can also be sent back to draft.
+CREATE OR REPLACE FUNCTION public.transition_commission_statement(
+  p_statement_id UUID,
+  p_to_status TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.commission_statements AS $$
+DECLARE
+  v_statement public.commission_statements;
+  v_from_status TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Statement status changes must be made by a signed-in user';
+  END IF;
+
+  SELECT * INTO v_statement
+  FROM public.commission_statements
+  WHERE id = p_statement_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Commission statement % not found', p_statement_id;
+  END IF;
+
+  v_from_status := v_statement.status;
+
+  IF (v_from_status, p_to_status) NOT IN (
+    ('draft', 'submitted'),
+    ('submitted', 'draft'),
+    ('submitted', 'approved'),
+    ('approved', 'locked'),
+    ('locked', 'paid')
+  ) THEN
+    RAISE EXCEPTION 'A % statement cannot be moved to %', v_from_status, p_to_status;
+  END IF;
+
+  UPDATE public.commission_statements
+  SET status = p_to_status,
+      status_changed_at = now(),
+      status_changed_by = auth.uid()
+  WHERE id = p_statement_id
+  RETURNING * INTO v_statement;
+
+  INSERT INTO public.commission_statement_transitions (statement_id, from_status, to_status, actor_id, actor_email, note)
+  VALUES (p_statement_id, v_from_status, p_to_status, auth.uid(), auth.jwt() ->> 'email', p_note);
+
+  RETURN v_statement;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
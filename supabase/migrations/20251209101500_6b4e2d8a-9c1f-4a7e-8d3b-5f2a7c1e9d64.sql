@@ -0,0 +1,112 @@
+-- Calendar months that can be closed once paid. A closed month can't be recomputed or synced
+-- to HubSpot until it is reopened, and every close and reopen is logged with its reason.
+CREATE TABLE public.commission_periods (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- First day of the month
+  month DATE NOT NULL UNIQUE CHECK (EXTRACT(DAY FROM month) = 1),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  closed_at TIMESTAMP WITH TIME ZONE,
+  closed_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.commission_period_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  period_id UUID NOT NULL REFERENCES public.commission_periods(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('close', 'reopen')),
+  reason TEXT,
+  actor_id UUID REFERENCES auth.users(id),
+  actor_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (action = 'close' OR length(trim(coalesce(reason, ''))) > 0)
+);
+
+CREATE INDEX idx_commission_period_events_period_id ON public.commission_period_events(period_id);
+
+ALTER TABLE public.commission_periods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.commission_period_events ENABLE ROW LEVEL SECURITY;
+
+-- Periods only change through close_commission_period and reopen_commission_period
+CREATE POLICY "Allow authenticated users to view commission periods"
+  ON public.commission_periods FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Allow authenticated users to view commission period events"
+  ON public.commission_period_events FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE TRIGGER update_commission_periods_updated_at
+  BEFORE UPDATE ON public.commission_periods
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.close_commission_period(p_month DATE, p_reason TEXT DEFAULT NULL)
+RETURNS public.commission_periods AS $$
+DECLARE
+  v_period public.commission_periods;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Periods must be closed by a signed-in user';
+  END IF;
+
+  INSERT INTO public.commission_periods (month)
+  VALUES (date_trunc('month', p_month)::date)
+  ON CONFLICT (month) DO NOTHING;
+
+  SELECT * INTO v_period
+  FROM public.commission_periods
+  WHERE month = date_trunc('month', p_month)::date
+  FOR UPDATE;
+
+  IF v_period.status = 'closed' THEN
+    RAISE EXCEPTION 'The period starting % is already closed', v_period.month;
+  END IF;
+
+  UPDATE public.commission_periods
+  SET status = 'closed', closed_at = now(), closed_by = auth.uid()
+  WHERE id = v_period.id
+  RETURNING * INTO v_period;
+
+  INSERT INTO public.commission_period_events (period_id, action, reason, actor_id, actor_email)
+  VALUES (v_period.id, 'close', p_reason, auth.uid(), auth.jwt() ->> 'email');
+
+  RETURN v_period;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.reopen_commission_period(p_month DATE, p_reason TEXT)
+RETURNS public.commission_periods AS $$
+DECLARE
+  v_period public.commission_periods;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Periods must be reopened by a signed-in user';
+  END IF;
+
+  IF length(trim(coalesce(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A reason is required to reopen a period';
+  END IF;
+
+  SELECT * INTO v_period
+  FROM public.commission_periods
+  WHERE month = date_trunc('month', p_month)::date
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_period.status <> 'closed' THEN
+    RAISE EXCEPTION 'The period starting % is not closed', date_trunc('month', p_month)::date;
+  END IF;
+
+  UPDATE public.commission_periods
+  SET status = 'open', closed_at = NULL, closed_by = NULL
+  WHERE id = v_period.id
+  RETURNING * INTO v_period;
+
+  INSERT INTO public.commission_period_events (period_id, action, reason, actor_id, actor_email)
+  VALUES (v_period.id, 'reopen', p_reason, auth.uid(), auth.jwt() ->> 'email');
+
+  RETURN v_period;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,50 @@
+-- Manual amounts on top of a rep's computed commission for a month: SPIFFs, corrections,
+-- draws and clawbacks. They're picked up by every run covering the month and paid as their
+-- own line items. Adjustments are never edited or deleted; a mistake is fixed with a correction.
+CREATE TABLE public.commission_adjustments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- HubSpot owner id, as on commission_run_logs and rep_quotas
+  rep_id TEXT NOT NULL,
+  -- First day of the month the adjustment is paid in
+  month DATE NOT NULL CHECK (EXTRACT(DAY FROM month) = 1),
+  type TEXT NOT NULL CHECK (type IN ('spiff', 'correction', 'draw', 'clawback')),
+  amount NUMERIC NOT NULL CHECK (amount <> 0),
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_by_email TEXT DEFAULT (auth.jwt() ->> 'email'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- SPIFFs and draws are paid out, clawbacks taken back; corrections go either way
+  CHECK (type NOT IN ('spiff', 'draw') OR amount > 0),
+  CHECK (type <> 'clawback' OR amount < 0)
+);
+
+CREATE INDEX idx_commission_adjustments_rep_month ON public.commission_adjustments(rep_id, month);
+
+ALTER TABLE public.commission_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated users to view commission adjustments"
+  ON public.commission_adjustments FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Closed months are settled, so nothing new can be added to them
+CREATE POLICY "Allow authenticated users to add adjustments to open periods"
+  ON public.commission_adjustments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    NOT EXISTS (
+      SELECT 1 FROM public.commission_periods
+      WHERE commission_periods.month = commission_adjustments.month
+        AND commission_periods.status = 'closed'
+    )
+  );
+
+-- Adjustments become line items of the runs that pay them
+ALTER TABLE public.commission_line_items
+DROP CONSTRAINT commission_line_items_source_type_check;
+
+ALTER TABLE public.commission_line_items
+ADD CONSTRAINT commission_line_items_source_type_check CHECK (source_type IN ('deal', 'meeting', 'adjustment'));
+
+ALTER TABLE public.commission_line_items
+ADD COLUMN adjustment_id UUID REFERENCES public.commission_adjustments(id);
@@ -0,0 +1,9 @@
+-- Clawbacks: when a deal paid in an earlier period leaves closed won or drops in amount within
+-- the plan's clawback window, the lost share of its commission is taken back in the next run.
+ALTER TABLE public.commission_settings
+ADD COLUMN clawback_window_days INTEGER NOT NULL DEFAULT 90,
+ADD COLUMN clawback_percent NUMERIC NOT NULL DEFAULT 100;
+
+ALTER TABLE public.commission_settings
+ADD CONSTRAINT commission_settings_clawback_window_days_check CHECK (clawback_window_days >= 0),
+ADD CONSTRAINT commission_settings_clawback_percent_check CHECK (clawback_percent >= 0 AND clawback_percent <= 100);
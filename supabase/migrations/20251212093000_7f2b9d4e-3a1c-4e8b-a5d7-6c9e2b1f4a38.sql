@@ -0,0 +1,239 @@
+-- Commission jobs: a batch run is queued as one task per rep and worked through a chunk at a
+-- time by the process-commission-jobs function, so no single request has to cover every rep.
+CREATE TABLE public.commission_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  crm_sync_run_id BIGINT REFERENCES public.crm_sync_runs(id),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'cron')),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  -- Null for jobs queued by the monthly cron
+  created_by UUID REFERENCES auth.users(id),
+  created_by_email TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.commission_job_tasks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.commission_jobs(id) ON DELETE CASCADE,
+  rep_id TEXT NOT NULL,
+  rep_name TEXT NOT NULL,
+  -- rep:period_start:period_end; at most one pending or running task per key, across all jobs
+  idempotency_key TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'succeeded', 'failed', 'skipped')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  -- Set while a worker holds the task; a running task whose lock has gone stale is picked up again
+  locked_at TIMESTAMP WITH TIME ZONE,
+  error TEXT,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_commission_job_tasks_active_key
+  ON public.commission_job_tasks(idempotency_key)
+  WHERE status IN ('pending', 'running');
+CREATE INDEX idx_commission_job_tasks_job_id ON public.commission_job_tasks(job_id);
+CREATE INDEX idx_commission_job_tasks_status ON public.commission_job_tasks(status, created_at);
+CREATE INDEX idx_commission_jobs_created_at ON public.commission_jobs(created_at DESC);
+
+-- A task writes at most one run log, so a task picked up again after a crash finds its
+-- earlier result instead of writing a second statement
+ALTER TABLE public.commission_run_logs
+ADD COLUMN job_task_id UUID UNIQUE REFERENCES public.commission_job_tasks(id);
+
+ALTER TABLE public.commission_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.commission_job_tasks ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are queued through enqueue_commission_job and only the worker changes them
+CREATE POLICY "Allow authenticated users to view commission jobs"
+  ON public.commission_jobs FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Allow authenticated users to view commission job tasks"
+  ON public.commission_job_tasks FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE TRIGGER update_commission_jobs_updated_at
+  BEFORE UPDATE ON public.commission_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_commission_job_tasks_updated_at
+  BEFORE UPDATE ON public.commission_job_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Queues a job with a task per rep, computed from the given CRM snapshot or else the latest
+-- successful one. A rep whose run for the same period is already pending or running in
+-- another job gets a skipped task pointing at it instead of a second run.
+CREATE OR REPLACE FUNCTION public.enqueue_commission_job(
+  p_period_start TIMESTAMP WITH TIME ZONE,
+  p_period_end TIMESTAMP WITH TIME ZONE,
+  p_rep_ids TEXT[],
+  p_crm_sync_run_id BIGINT DEFAULT NULL,
+  p_source TEXT DEFAULT 'manual'
+)
+RETURNS public.commission_jobs AS $$
+DECLARE
+  v_job public.commission_jobs;
+  v_rep RECORD;
+  v_key TEXT;
+  v_active_job_id UUID;
+  v_pending INTEGER;
+BEGIN
+  IF auth.uid() IS NULL AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Commission jobs must be queued by a signed-in user';
+  END IF;
+
+  IF p_period_end < p_period_start THEN
+    RAISE EXCEPTION 'The period must end after it starts';
+  END IF;
+
+  IF coalesce(array_length(p_rep_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Select at least one rep to run';
+  END IF;
+
+  INSERT INTO public.commission_jobs (period_start, period_end, crm_sync_run_id, source, created_by, created_by_email)
+  VALUES (
+    p_period_start,
+    p_period_end,
+    coalesce(
+      p_crm_sync_run_id,
+      (SELECT id FROM public.crm_sync_runs WHERE status = 'succeeded' ORDER BY id DESC LIMIT 1)
+    ),
+    p_source,
+    auth.uid(),
+    auth.jwt() ->> 'email'
+  )
+  RETURNING * INTO v_job;
+
+  IF v_job.crm_sync_run_id IS NULL THEN
+    RAISE EXCEPTION 'No CRM data has been synced yet. Sync before running a calculation.';
+  END IF;
+
+  FOR v_rep IN
+    SELECT r.hubspot_owner_id, r.name
+    FROM public.reps r
+    WHERE r.hubspot_owner_id = ANY(p_rep_ids)
+    ORDER BY r.name
+  LOOP
+    v_key := v_rep.hubspot_owner_id
+      || ':' || to_char(p_period_start AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS')
+      || ':' || to_char(p_period_end AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS');
+
+    SELECT job_id INTO v_active_job_id
+    FROM public.commission_job_tasks
+    WHERE idempotency_key = v_key AND status IN ('pending', 'running');
+
+    IF FOUND THEN
+      INSERT INTO public.commission_job_tasks (job_id, rep_id, rep_name, idempotency_key, status, error, finished_at)
+      VALUES (v_job.id, v_rep.hubspot_owner_id, v_rep.name, v_key, 'skipped',
+              'Already queued in job ' || v_active_job_id, now());
+    ELSE
+      INSERT INTO public.commission_job_tasks (job_id, rep_id, rep_name, idempotency_key)
+      VALUES (v_job.id, v_rep.hubspot_owner_id, v_rep.name, v_key);
+    END IF;
+  END LOOP;
+
+  SELECT count(*) INTO v_pending FROM public.commission_job_tasks WHERE job_id = v_job.id AND status = 'pending';
+  IF v_pending = 0 THEN
+    UPDATE public.commission_jobs
+    SET status = 'succeeded', finished_at = now()
+    WHERE id = v_job.id
+    RETURNING * INTO v_job;
+  END IF;
+
+  RETURN v_job;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Hands the worker up to p_limit tasks, oldest first: pending ones, and running ones whose
+-- worker stopped before finishing them. Concurrent workers never get the same task.
+CREATE OR REPLACE FUNCTION public.claim_commission_job_tasks(
+  p_limit INTEGER,
+  p_stale_after INTERVAL DEFAULT '10 minutes'
+)
+RETURNS SETOF public.commission_job_tasks AS $$
+BEGIN
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE public.commission_job_tasks t
+    SET status = 'running',
+        locked_at = now(),
+        attempts = t.attempts + 1
+    WHERE t.id IN (
+      SELECT id
+      FROM public.commission_job_tasks
+      WHERE status = 'pending'
+         OR (status = 'running' AND locked_at < now() - p_stale_after)
+      ORDER BY created_at
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING t.*
+  ), started AS (
+    UPDATE public.commission_jobs j
+    SET status = 'running',
+        started_at = coalesce(j.started_at, now())
+    WHERE j.id IN (SELECT job_id FROM claimed)
+      AND j.status = 'queued'
+  )
+  SELECT * FROM claimed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Records a task's outcome (pending again to retry it), and finishes its job once no task
+-- is left to run: succeeded when none failed, failed otherwise.
+CREATE OR REPLACE FUNCTION public.finish_commission_job_task(
+  p_task_id UUID,
+  p_status TEXT,
+  p_error TEXT DEFAULT NULL
+)
+RETURNS public.commission_job_tasks AS $$
+DECLARE
+  v_task public.commission_job_tasks;
+BEGIN
+  IF p_status NOT IN ('pending', 'succeeded', 'failed') THEN
+    RAISE EXCEPTION 'A task cannot be finished as %', p_status;
+  END IF;
+
+  UPDATE public.commission_job_tasks
+  SET status = p_status,
+      error = p_error,
+      locked_at = NULL,
+      finished_at = CASE WHEN p_status = 'pending' THEN NULL ELSE now() END
+  WHERE id = p_task_id
+  RETURNING * INTO v_task;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Commission job task % not found', p_task_id;
+  END IF;
+
+  -- Lock the job so two workers finishing its last tasks don't both miss the other's
+  PERFORM 1 FROM public.commission_jobs WHERE id = v_task.job_id FOR UPDATE;
+
+  UPDATE public.commission_jobs j
+  SET status = CASE
+        WHEN EXISTS (SELECT 1 FROM public.commission_job_tasks WHERE job_id = j.id AND status = 'failed') THEN 'failed'
+        ELSE 'succeeded'
+      END,
+      finished_at = now()
+  WHERE j.id = v_task.job_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.commission_job_tasks
+      WHERE job_id = j.id AND status IN ('pending', 'running')
+    );
+
+  RETURN v_task;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the worker, with the service role key, claims and finishes tasks
+REVOKE EXECUTE ON FUNCTION public.claim_commission_job_tasks(INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.finish_commission_job_task(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
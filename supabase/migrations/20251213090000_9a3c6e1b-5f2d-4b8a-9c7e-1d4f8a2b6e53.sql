@@ -0,0 +1,7 @@
+-- HubSpot sync state per statement. Statements for the same rep and period share one HubSpot
+-- record, which later syncs update in place; the hash of the properties last sent tells
+-- whether a statement's figures are what HubSpot holds.
+ALTER TABLE public.commission_statements
+ADD COLUMN hubspot_record_id TEXT,
+ADD COLUMN hubspot_synced_hash TEXT,
+ADD COLUMN hubspot_synced_at TIMESTAMP WITH TIME ZONE;
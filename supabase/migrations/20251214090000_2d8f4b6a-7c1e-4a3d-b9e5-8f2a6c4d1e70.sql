@@ -0,0 +1,42 @@
+-- HubSpot mapping (single row): the object statements are written to and the deal and
+-- meeting properties commissions are read from. Saved through the hubspot-mapping
+-- function, which checks every name against HubSpot first.
+CREATE TABLE public.hubspot_mapping (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  statement_object_type TEXT NOT NULL DEFAULT '2-49027397',
+  deal_amount_property TEXT NOT NULL DEFAULT 'amount',
+  deal_sdr_owner_property TEXT NOT NULL DEFAULT 'sdr_sde',
+  deal_channel_property TEXT NOT NULL DEFAULT 'deal_channel',
+  deal_payment_terms_property TEXT NOT NULL DEFAULT 'payment_terms',
+  meeting_type_property TEXT NOT NULL DEFAULT 'hs_activity_type',
+  meeting_outcome_property TEXT NOT NULL DEFAULT 'hs_meeting_outcome',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.hubspot_mapping ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated users to view HubSpot mapping"
+  ON public.hubspot_mapping FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE TRIGGER update_hubspot_mapping_updated_at
+  BEFORE UPDATE ON public.hubspot_mapping
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.hubspot_mapping DEFAULT VALUES;
+
+-- The properties each CRM sync requested. When the mapping points at a property an earlier
+-- sync didn't request, the next sync reads every record again instead of only changed ones.
+ALTER TABLE public.crm_sync_runs
+ADD COLUMN deal_properties TEXT[],
+ADD COLUMN meeting_properties TEXT[];
+
+UPDATE public.crm_sync_runs
+SET deal_properties = ARRAY['amount', 'closedate', 'dealstage', 'dealname', 'hubspot_owner_id', 'channel',
+                            'deal_channel', 'payment_terms', 'sdr_owner', 'sdr_sde', 'hs_mrr', 'hs_lastmodifieddate'],
+    meeting_properties = ARRAY['hs_meeting_start_time', 'hs_activity_type', 'hs_meeting_outcome', 'hs_meeting_title',
+                               'hs_meeting_body', 'hs_created_by', 'hubspot_owner_id', 'hs_createdate',
+                               'hs_internal_meeting_notes', 'hs_lastmodifieddate'];
@@ -0,0 +1,571 @@
+-- Role-based access. Admins manage plans, settings, the HubSpot mapping and users; finance
+-- runs, approves and pays commissions and sees everyone's; managers see their own and their
+-- direct reports' commissions; reps see only their own. A user with no role sees nothing.
+CREATE TYPE public.app_role AS ENUM ('admin', 'finance', 'manager', 'rep');
+
+CREATE TABLE public.user_roles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.app_role NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+-- The user who signs in as a rep; managers are reps too, and see the reps whose manager they are
+ALTER TABLE public.reps
+ADD COLUMN user_id UUID UNIQUE REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Role checks run as definer so policies on user_roles and reps don't recurse into themselves
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role public.app_role)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = _user_id AND role = _role);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.has_any_role(_user_id UUID, _roles public.app_role[])
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = _user_id AND role = ANY(_roles));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether the signed-in user is a manager and the rep (by HubSpot owner id) reports to them
+CREATE OR REPLACE FUNCTION public.manages_rep(_rep_id TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT public.has_role(auth.uid(), 'manager') AND EXISTS (
+    SELECT 1
+    FROM public.reps r
+    JOIN public.reps m ON m.id = r.manager_id
+    WHERE r.hubspot_owner_id = _rep_id AND m.user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether the signed-in user may see a rep's commissions
+CREATE OR REPLACE FUNCTION public.can_view_rep(_rep_id TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT public.has_any_role(auth.uid(), ARRAY['admin', 'finance']::public.app_role[])
+    OR public.manages_rep(_rep_id)
+    OR (
+      public.has_any_role(auth.uid(), ARRAY['manager', 'rep']::public.app_role[])
+      AND EXISTS (SELECT 1 FROM public.reps WHERE hubspot_owner_id = _rep_id AND user_id = auth.uid())
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Existing users keep access: the first one to sign up administers the rest, and users whose
+-- email matches a rep are linked to that rep and see their own commissions
+INSERT INTO public.user_roles (user_id, role)
+SELECT id, 'admin' FROM auth.users ORDER BY created_at LIMIT 1;
+
+UPDATE public.reps r
+SET user_id = u.id
+FROM auth.users u
+WHERE lower(u.email) = lower(r.email);
+
+INSERT INTO public.user_roles (user_id, role)
+SELECT user_id, 'rep' FROM public.reps WHERE user_id IS NOT NULL
+ON CONFLICT (user_id, role) DO NOTHING;
+
+-- Roles change only through update_user_access
+CREATE POLICY "Allow users to view their own roles"
+  ON public.user_roles FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR public.has_role(auth.uid(), 'admin'));
+
+-- Plans and their versions: readable by anyone with a role, edited by admins
+DROP POLICY "Allow authenticated users to view commission settings" ON public.commission_settings;
+DROP POLICY "Allow authenticated users to insert commission settings" ON public.commission_settings;
+
+CREATE POLICY "Allow users with a role to view commission settings"
+  ON public.commission_settings FOR SELECT
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'finance', 'manager', 'rep']::public.app_role[]));
+
+CREATE POLICY "Allow admins to insert commission settings"
+  ON public.commission_settings FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+DROP POLICY "Allow authenticated users to view commission plans" ON public.commission_plans;
+DROP POLICY "Allow authenticated users to insert commission plans" ON public.commission_plans;
+DROP POLICY "Allow authenticated users to update commission plans" ON public.commission_plans;
+
+CREATE POLICY "Allow users with a role to view commission plans"
+  ON public.commission_plans FOR SELECT
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'finance', 'manager', 'rep']::public.app_role[]));
+
+CREATE POLICY "Allow admins to insert commission plans"
+  ON public.commission_plans FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Allow admins to update commission plans"
+  ON public.commission_plans FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+DROP POLICY "Allow authenticated users to view plan assignments" ON public.commission_plan_assignments;
+DROP POLICY "Allow authenticated users to insert plan assignments" ON public.commission_plan_assignments;
+DROP POLICY "Allow authenticated users to delete plan assignments" ON public.commission_plan_assignments;
+
+CREATE POLICY "Allow users with a role to view plan assignments"
+  ON public.commission_plan_assignments FOR SELECT
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'finance', 'manager', 'rep']::public.app_role[]));
+
+CREATE POLICY "Allow admins to insert plan assignments"
+  ON public.commission_plan_assignments FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Assigning a team that's already on another plan moves it, which is an update
+CREATE POLICY "Allow admins to update plan assignments"
+  ON public.commission_plan_assignments FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Allow admins to delete plan assignments"
+  ON public.commission_plan_assignments FOR DELETE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Quotas: seen with the rep's commissions, set by admins
+DROP POLICY "Allow authenticated users to view rep quotas" ON public.rep_quotas;
+DROP POLICY "Allow authenticated users to insert rep quotas" ON public.rep_quotas;
+DROP POLICY "Allow authenticated users to update rep quotas" ON public.rep_quotas;
+DROP POLICY "Allow authenticated users to delete rep quotas" ON public.rep_quotas;
+
+CREATE POLICY "Allow users to view quotas of reps they can see"
+  ON public.rep_quotas FOR SELECT
+  TO authenticated
+  USING (public.can_view_rep(rep_id));
+
+CREATE POLICY "Allow admins to insert rep quotas"
+  ON public.rep_quotas FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Allow admins to update rep quotas"
+  ON public.rep_quotas FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Allow admins to delete rep quotas"
+  ON public.rep_quotas FOR DELETE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- The rep directory
+DROP POLICY "Allow authenticated users to view reps" ON public.reps;
+DROP POLICY "Allow authenticated users to update reps" ON public.reps;
+
+CREATE POLICY "Allow users to view reps they can see"
+  ON public.reps FOR SELECT
+  TO authenticated
+  USING (public.can_view_rep(hubspot_owner_id));
+
+CREATE POLICY "Allow admins to update reps"
+  ON public.reps FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Runs, their line items and statements: each rep's are seen by whoever can see the rep.
+-- Runs are only ever written by the edge functions.
+DROP POLICY "Allow authenticated users to view commission run logs" ON public.commission_run_logs;
+DROP POLICY "Allow authenticated users to insert commission run logs" ON public.commission_run_logs;
+
+CREATE POLICY "Allow users to view runs of reps they can see"
+  ON public.commission_run_logs FOR SELECT
+  TO authenticated
+  USING (public.can_view_rep(rep_id));
+
+DROP POLICY "Allow authenticated users to view commission line items" ON public.commission_line_items;
+
+CREATE POLICY "Allow users to view line items of reps they can see"
+  ON public.commission_line_items FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.commission_run_logs l
+    WHERE l.id = commission_line_items.run_log_id AND public.can_view_rep(l.rep_id)
+  ));
+
+DROP POLICY "Allow authenticated users to view commission statements" ON public.commission_statements;
+DROP POLICY "Allow authenticated users to view commission statement transitions" ON public.commission_statement_transitions;
+
+CREATE POLICY "Allow users to view statements of reps they can see"
+  ON public.commission_statements FOR SELECT
+  TO authenticated
+  USING (public.can_view_rep(rep_id));
+
+CREATE POLICY "Allow users to view transitions of statements they can see"
+  ON public.commission_statement_transitions FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.commission_statements s
+    WHERE s.id = commission_statement_transitions.statement_id AND public.can_view_rep(s.rep_id)
+  ));
+
+-- Adjustments: seen with the rep's commissions, entered by finance and admins
+DROP POLICY "Allow authenticated users to view commission adjustments" ON public.commission_adjustments;
+DROP POLICY "Allow authenticated users to add adjustments to open periods" ON public.commission_adjustments;
+
+CREATE POLICY "Allow users to view adjustments of reps they can see"
+  ON public.commission_adjustments FOR SELECT
+  TO authenticated
+  USING (public.can_view_rep(rep_id));
+
+-- Closed months are settled, so nothing new can be added to them
+CREATE POLICY "Allow finance to add adjustments to open periods"
+  ON public.commission_adjustments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.has_any_role(auth.uid(), ARRAY['admin', 'finance']::public.app_role[])
+    AND NOT EXISTS (
+      SELECT 1 FROM public.commission_periods
+      WHERE commission_periods.month = commission_adjustments.month
+        AND commission_periods.status = 'closed'
+    )
+  );
+
+-- Periods are visible to everyone with a role, so reps can tell whether a month is settled
+DROP POLICY "Allow authenticated users to view commission periods" ON public.commission_periods;
+DROP POLICY "Allow authenticated users to view commission period events" ON public.commission_period_events;
+
+CREATE POLICY "Allow users with a role to view commission periods"
+  ON public.commission_periods FOR SELECT
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'finance', 'manager', 'rep']::public.app_role[]));
+
+CREATE POLICY "Allow finance to view commission period events"
+  ON public.commission_period_events FOR SELECT
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'finance']::public.app_role[]));
+
+-- The CRM snapshot, jobs and the HubSpot mapping are only for the people who run commissions
+DROP POLICY "Allow authenticated users to view CRM sync runs" ON public.crm_sync_runs;
+DROP POLICY "Allow authenticated users to view CRM deals" ON public.crm_deals;
+DROP POLICY "Allow authenticated users to view CRM meetings" ON public.crm_meetings;
+DROP POLICY "Allow authenticated users to view commission jobs" ON public.commission_jobs;
+DROP POLICY "Allow authenticated users to view commission job tasks" ON public.commission_job_tasks;
+DROP POLICY "Allow authenticated users to view HubSpot mapping" ON public.hubspot_mapping;
+
+CREATE POLICY "Allow finance to view CRM sync runs"
+  ON public.crm_sync_runs FOR SELECT
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'finance']::public.app_role[]));
+
+CREATE POLICY "Allow finance to view CRM deals"
+  ON public.crm_deals FOR SELECT
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'finance']::public.app_role[]));
+
+CREATE POLICY "Allow finance to view CRM meetings"
+  ON public.crm_meetings FOR SELECT
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'finance']::public.app_role[]));
+
+CREATE POLICY "Allow finance to view commission jobs"
+  ON public.commission_jobs FOR SELECT
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'finance']::public.app_role[]));
+
+CREATE POLICY "Allow finance to view commission job tasks"
+  ON public.commission_job_tasks FOR SELECT
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'finance']::public.app_role[]));
+
+CREATE POLICY "Allow admins to view HubSpot mapping"
+  ON public.hubspot_mapping FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Statement moves by role: finance and admins make every move; a manager can submit their
+-- team's drafts for review. Nobody approves a statement of their own.
+CREATE OR REPLACE FUNCTION public.transition_commission_statement(
+  p_statement_id UUID,
+  p_to_status TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.commission_statements AS $$
+DECLARE
+  v_statement public.commission_statements;
+  v_from_status TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Statement status changes must be made by a signed-in user';
+  END IF;
+
+  SELECT * INTO v_statement
+  FROM public.commission_statements
+  WHERE id = p_statement_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_view_rep(v_statement.rep_id) THEN
+    RAISE EXCEPTION 'Commission statement % not found', p_statement_id;
+  END IF;
+
+  v_from_status := v_statement.status;
+
+  IF (v_from_status, p_to_status) NOT IN (
+    ('draft', 'submitted'),
+    ('submitted', 'draft'),
+    ('submitted', 'approved'),
+    ('approved', 'locked'),
+    ('locked', 'paid')
+  ) THEN
+    RAISE EXCEPTION 'A % statement cannot be moved to %', v_from_status, p_to_status;
+  END IF;
+
+  IF NOT public.has_any_role(auth.uid(), ARRAY['admin', 'finance']::public.app_role[])
+     AND NOT (p_to_status = 'submitted' AND public.manages_rep(v_statement.rep_id)) THEN
+    RAISE EXCEPTION 'You are not allowed to move this statement to %', p_to_status;
+  END IF;
+
+  IF p_to_status = 'approved'
+     AND EXISTS (SELECT 1 FROM public.reps WHERE hubspot_owner_id = v_statement.rep_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'You cannot approve your own statement';
+  END IF;
+
+  UPDATE public.commission_statements
+  SET status = p_to_status,
+      status_changed_at = now(),
+      status_changed_by = auth.uid()
+  WHERE id = p_statement_id
+  RETURNING * INTO v_statement;
+
+  INSERT INTO public.commission_statement_transitions (statement_id, from_status, to_status, actor_id, actor_email, note)
+  VALUES (p_statement_id, v_from_status, p_to_status, auth.uid(), auth.jwt() ->> 'email', p_note);
+
+  RETURN v_statement;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.close_commission_period(p_month DATE, p_reason TEXT DEFAULT NULL)
+RETURNS public.commission_periods AS $$
+DECLARE
+  v_period public.commission_periods;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Periods must be closed by a signed-in user';
+  END IF;
+
+  IF NOT public.has_any_role(auth.uid(), ARRAY['admin', 'finance']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Only finance and admins can close periods';
+  END IF;
+
+  INSERT INTO public.commission_periods (month)
+  VALUES (date_trunc('month', p_month)::date)
+  ON CONFLICT (month) DO NOTHING;
+
+  SELECT * INTO v_period
+  FROM public.commission_periods
+  WHERE month = date_trunc('month', p_month)::date
+  FOR UPDATE;
+
+  IF v_period.status = 'closed' THEN
+    RAISE EXCEPTION 'The period starting % is already closed', v_period.month;
+  END IF;
+
+  UPDATE public.commission_periods
+  SET status = 'closed', closed_at = now(), closed_by = auth.uid()
+  WHERE id = v_period.id
+  RETURNING * INTO v_period;
+
+  INSERT INTO public.commission_period_events (period_id, action, reason, actor_id, actor_email)
+  VALUES (v_period.id, 'close', p_reason, auth.uid(), auth.jwt() ->> 'email');
+
+  RETURN v_period;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.reopen_commission_period(p_month DATE, p_reason TEXT)
+RETURNS public.commission_periods AS $$
+DECLARE
+  v_period public.commission_periods;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Periods must be reopened by a signed-in user';
+  END IF;
+
+  IF NOT public.has_any_role(auth.uid(), ARRAY['admin', 'finance']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Only finance and admins can reopen periods';
+  END IF;
+
+  IF length(trim(coalesce(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A reason is required to reopen a period';
+  END IF;
+
+  SELECT * INTO v_period
+  FROM public.commission_periods
+  WHERE month = date_trunc('month', p_month)::date
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_period.status <> 'closed' THEN
+    RAISE EXCEPTION 'The period starting % is not closed', date_trunc('month', p_month)::date;
+  END IF;
+
+  UPDATE public.commission_periods
+  SET status = 'open', closed_at = NULL, closed_by = NULL
+  WHERE id = v_period.id
+  RETURNING * INTO v_period;
+
+  INSERT INTO public.commission_period_events (period_id, action, reason, actor_id, actor_email)
+  VALUES (v_period.id, 'reopen', p_reason, auth.uid(), auth.jwt() ->> 'email');
+
+  RETURN v_period;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.enqueue_commission_job(
+  p_period_start TIMESTAMP WITH TIME ZONE,
+  p_period_end TIMESTAMP WITH TIME ZONE,
+  p_rep_ids TEXT[],
+  p_crm_sync_run_id BIGINT DEFAULT NULL,
+  p_source TEXT DEFAULT 'manual'
+)
+RETURNS public.commission_jobs AS $$
+DECLARE
+  v_job public.commission_jobs;
+  v_rep RECORD;
+  v_key TEXT;
+  v_active_job_id UUID;
+  v_pending INTEGER;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND NOT public.has_any_role(auth.uid(), ARRAY['admin', 'finance']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Only finance and admins can run commissions';
+  END IF;
+
+  IF p_period_end < p_period_start THEN
+    RAISE EXCEPTION 'The period must end after it starts';
+  END IF;
+
+  IF coalesce(array_length(p_rep_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Select at least one rep to run';
+  END IF;
+
+  INSERT INTO public.commission_jobs (period_start, period_end, crm_sync_run_id, source, created_by, created_by_email)
+  VALUES (
+    p_period_start,
+    p_period_end,
+    coalesce(
+      p_crm_sync_run_id,
+      (SELECT id FROM public.crm_sync_runs WHERE status = 'succeeded' ORDER BY id DESC LIMIT 1)
+    ),
+    p_source,
+    auth.uid(),
+    auth.jwt() ->> 'email'
+  )
+  RETURNING * INTO v_job;
+
+  IF v_job.crm_sync_run_id IS NULL THEN
+    RAISE EXCEPTION 'No CRM data has been synced yet. Sync before running a calculation.';
+  END IF;
+
+  FOR v_rep IN
+    SELECT r.hubspot_owner_id, r.name
+    FROM public.reps r
+    WHERE r.hubspot_owner_id = ANY(p_rep_ids)
+    ORDER BY r.name
+  LOOP
+    v_key := v_rep.hubspot_owner_id
+      || ':' || to_char(p_period_start AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS')
+      || ':' || to_char(p_period_end AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS');
+
+    SELECT job_id INTO v_active_job_id
+    FROM public.commission_job_tasks
+    WHERE idempotency_key = v_key AND status IN ('pending', 'running');
+
+    IF FOUND THEN
+      INSERT INTO public.commission_job_tasks (job_id, rep_id, rep_name, idempotency_key, status, error, finished_at)
+      VALUES (v_job.id, v_rep.hubspot_owner_id, v_rep.name, v_key, 'skipped',
+              'Already queued in job ' || v_active_job_id, now());
+    ELSE
+      INSERT INTO public.commission_job_tasks (job_id, rep_id, rep_name, idempotency_key)
+      VALUES (v_job.id, v_rep.hubspot_owner_id, v_rep.name, v_key);
+    END IF;
+  END LOOP;
+
+  SELECT count(*) INTO v_pending FROM public.commission_job_tasks WHERE job_id = v_job.id AND status = 'pending';
+  IF v_pending = 0 THEN
+    UPDATE public.commission_jobs
+    SET status = 'succeeded', finished_at = now()
+    WHERE id = v_job.id
+    RETURNING * INTO v_job;
+  END IF;
+
+  RETURN v_job;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Every user with their roles and the rep they're linked to, for admins to manage access
+CREATE OR REPLACE FUNCTION public.list_users_with_access()
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  last_sign_in_at TIMESTAMP WITH TIME ZONE,
+  roles public.app_role[],
+  rep_id TEXT,
+  rep_name TEXT
+) AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage users';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    u.id,
+    u.email::TEXT,
+    u.created_at,
+    u.last_sign_in_at,
+    coalesce(array_agg(ur.role ORDER BY ur.role) FILTER (WHERE ur.role IS NOT NULL), '{}'),
+    r.hubspot_owner_id,
+    r.name
+  FROM auth.users u
+  LEFT JOIN public.user_roles ur ON ur.user_id = u.id
+  LEFT JOIN public.reps r ON r.user_id = u.id
+  GROUP BY u.id, u.email, u.created_at, u.last_sign_in_at, r.hubspot_owner_id, r.name
+  ORDER BY u.email;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Replaces a user's roles and the rep they sign in as (null for none). Admins can't take
+-- their own admin role away, so there's always someone left to manage access.
+CREATE OR REPLACE FUNCTION public.update_user_access(
+  p_user_id UUID,
+  p_roles public.app_role[],
+  p_rep_id TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage users';
+  END IF;
+
+  IF p_user_id = auth.uid() AND NOT ('admin' = ANY(p_roles)) THEN
+    RAISE EXCEPTION 'You cannot remove your own admin role';
+  END IF;
+
+  IF ('manager' = ANY(p_roles) OR 'rep' = ANY(p_roles)) AND p_rep_id IS NULL THEN
+    RAISE EXCEPTION 'Managers and reps must be linked to a rep';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.reps WHERE hubspot_owner_id = p_rep_id AND user_id <> p_user_id) THEN
+    RAISE EXCEPTION 'That rep is already linked to another user';
+  END IF;
+
+  DELETE FROM public.user_roles WHERE user_id = p_user_id AND NOT (role = ANY(p_roles));
+  INSERT INTO public.user_roles (user_id, role)
+  SELECT p_user_id, unnest(p_roles)
+  ON CONFLICT (user_id, role) DO NOTHING;
+
+  UPDATE public.reps SET user_id = NULL WHERE user_id = p_user_id AND hubspot_owner_id IS DISTINCT FROM p_rep_id;
+  IF p_rep_id IS NOT NULL THEN
+    UPDATE public.reps SET user_id = p_user_id WHERE hubspot_owner_id = p_rep_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'HubSpot owner % is not in the rep directory', p_rep_id;
+    END IF;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
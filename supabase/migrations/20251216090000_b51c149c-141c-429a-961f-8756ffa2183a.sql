@@ -0,0 +1,69 @@
+-- Links a user to the rep with the same email, whichever appears first: a rep confirming their
+-- sign-up after their HubSpot owner was synced, or an owner synced after the rep signed up.
+-- Only confirmed emails count, so nobody can claim a rep's commissions by signing up as them.
+-- A user with no role yet becomes a rep and can open My Commissions straight away.
+
+CREATE OR REPLACE FUNCTION public.link_user_to_rep_by_email()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_rep_id UUID;
+BEGIN
+  IF NEW.email_confirmed_at IS NULL OR EXISTS (SELECT 1 FROM public.reps WHERE user_id = NEW.id) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id INTO v_rep_id
+  FROM public.reps
+  WHERE user_id IS NULL AND lower(email) = lower(NEW.email)
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF v_rep_id IS NOT NULL THEN
+    UPDATE public.reps SET user_id = NEW.id WHERE id = v_rep_id;
+    INSERT INTO public.user_roles (user_id, role)
+    SELECT NEW.id, 'rep'
+    WHERE NOT EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER link_user_to_rep_by_email
+AFTER INSERT OR UPDATE OF email_confirmed_at ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.link_user_to_rep_by_email();
+
+CREATE OR REPLACE FUNCTION public.link_rep_to_user_by_email()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  IF NEW.user_id IS NOT NULL OR NEW.email IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT u.id INTO v_user_id
+  FROM auth.users u
+  WHERE lower(u.email) = lower(NEW.email)
+    AND u.email_confirmed_at IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM public.reps r WHERE r.user_id = u.id)
+  LIMIT 1;
+
+  IF v_user_id IS NOT NULL THEN
+    NEW.user_id := v_user_id;
+    INSERT INTO public.user_roles (user_id, role)
+    SELECT v_user_id, 'rep'
+    WHERE NOT EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = v_user_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The owner sync upserts every rep's email, so reps synced before their user confirmed are
+-- picked up on the next sync too
+CREATE TRIGGER link_rep_to_user_by_email
+BEFORE INSERT OR UPDATE OF email ON public.reps
+FOR EACH ROW
+EXECUTE FUNCTION public.link_rep_to_user_by_email();
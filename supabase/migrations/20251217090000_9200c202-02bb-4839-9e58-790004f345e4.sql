@@ -0,0 +1,123 @@
+-- Invite-only sign-up. Admins invite users by email through the invite-user function, with
+-- the roles they'll get; nobody else can create an account. Optionally only emails at the
+-- allowed domains can be invited at all.
+
+-- Access settings (single row). No allowed domains means any domain can be invited.
+CREATE TABLE public.access_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  allowed_email_domains TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.access_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow admins to view access settings"
+  ON public.access_settings FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Allow admins to update access settings"
+  ON public.access_settings FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_access_settings_updated_at
+  BEFORE UPDATE ON public.access_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.access_settings DEFAULT VALUES;
+
+-- One invite per email, kept once accepted as a record of who was let in and by whom
+CREATE TABLE public.user_invites (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  email TEXT NOT NULL UNIQUE CHECK (email = lower(email)),
+  roles public.app_role[] NOT NULL CHECK (cardinality(roles) > 0),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  invited_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+ALTER TABLE public.user_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow admins to view user invites"
+  ON public.user_invites FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Revoking an invite deletes it; accepted ones stay
+CREATE POLICY "Allow admins to revoke pending user invites"
+  ON public.user_invites FOR DELETE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin') AND accepted_at IS NULL);
+
+-- Turns away any new account without a pending invite at an allowed domain, whichever way it
+-- is created. The very first account is let in so a new project can get its first admin.
+CREATE OR REPLACE FUNCTION public.require_user_invite()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_domains TEXT[];
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM auth.users) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.user_invites WHERE email = lower(NEW.email) AND accepted_at IS NULL) THEN
+    RAISE EXCEPTION 'Sign-up is by invitation only';
+  END IF;
+
+  SELECT allowed_email_domains INTO v_domains FROM public.access_settings LIMIT 1;
+  IF cardinality(v_domains) > 0 AND NOT (lower(split_part(NEW.email, '@', 2)) = ANY(v_domains)) THEN
+    RAISE EXCEPTION 'Email addresses at % can''t be used', split_part(NEW.email, '@', 2);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER require_user_invite
+BEFORE INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.require_user_invite();
+
+-- Gives an invited user their invite's roles once they accept it (which confirms their email).
+-- Runs before link_user_to_rep_by_email, as triggers fire in name order, so the matching
+-- HubSpot owner is linked afterwards without also making an invited admin a rep.
+CREATE OR REPLACE FUNCTION public.accept_user_invite()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_roles public.app_role[];
+BEGIN
+  IF NEW.email_confirmed_at IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id <> NEW.id) THEN
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, 'admin')
+    ON CONFLICT (user_id, role) DO NOTHING;
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.user_invites
+  SET accepted_at = now(), user_id = NEW.id
+  WHERE email = lower(NEW.email) AND accepted_at IS NULL
+  RETURNING roles INTO v_roles;
+
+  IF v_roles IS NOT NULL THEN
+    INSERT INTO public.user_roles (user_id, role)
+    SELECT NEW.id, unnest(v_roles)
+    ON CONFLICT (user_id, role) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER accept_user_invite
+AFTER INSERT OR UPDATE OF email_confirmed_at ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.accept_user_invite();
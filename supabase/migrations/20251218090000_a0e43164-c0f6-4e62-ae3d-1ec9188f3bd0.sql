@@ -0,0 +1,112 @@
+-- A change history for plan settings: every saved version records who saved it and the rates
+-- before and after, so the Settings page can show field-level diffs and revert to any version.
+CREATE TABLE public.commission_settings_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  plan_id UUID NOT NULL REFERENCES public.commission_plans(id) ON DELETE CASCADE,
+  settings_id UUID NOT NULL UNIQUE REFERENCES public.commission_settings(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  -- The rates of the version this one superseded; NULL for a plan's first version
+  before JSONB,
+  after JSONB NOT NULL,
+  -- Set when the version was saved by reverting to an earlier one
+  reverted_to_version INTEGER,
+  changed_by UUID REFERENCES auth.users(id),
+  changed_by_email TEXT,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_commission_settings_history_plan ON public.commission_settings_history(plan_id, version DESC);
+
+ALTER TABLE public.commission_settings_history ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the trigger below and revert_commission_settings
+CREATE POLICY "Allow admins to view commission settings history"
+  ON public.commission_settings_history FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- A version's rates, without its id, numbering and dates
+CREATE OR REPLACE FUNCTION public.commission_settings_snapshot(s public.commission_settings)
+RETURNS JSONB AS $$
+  SELECT to_jsonb(s) - ARRAY['id', 'plan_id', 'version', 'effective_from', 'effective_to', 'created_at', 'updated_at'];
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.record_commission_settings_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  previous public.commission_settings;
+BEGIN
+  SELECT * INTO previous FROM public.commission_settings
+  WHERE plan_id = NEW.plan_id AND version = NEW.version - 1;
+
+  INSERT INTO public.commission_settings_history (plan_id, settings_id, version, before, after, changed_by, changed_by_email)
+  VALUES (
+    NEW.plan_id,
+    NEW.id,
+    NEW.version,
+    CASE WHEN FOUND THEN public.commission_settings_snapshot(previous) END,
+    public.commission_settings_snapshot(NEW),
+    auth.uid(),
+    auth.jwt() ->> 'email'
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_commission_settings_change
+  AFTER INSERT ON public.commission_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_commission_settings_change();
+
+-- Versions saved before the history existed, with no one to attribute them to
+INSERT INTO public.commission_settings_history (plan_id, settings_id, version, before, after, changed_at)
+SELECT
+  s.plan_id,
+  s.id,
+  s.version,
+  (SELECT public.commission_settings_snapshot(p) FROM public.commission_settings p
+   WHERE p.plan_id = s.plan_id AND p.version = s.version - 1),
+  public.commission_settings_snapshot(s),
+  s.created_at
+FROM public.commission_settings s;
+
+-- Saves a copy of an earlier version's rates as the plan's newest version
+CREATE OR REPLACE FUNCTION public.revert_commission_settings(p_settings_id UUID, p_effective_from TIMESTAMP WITH TIME ZONE)
+RETURNS public.commission_settings AS $$
+DECLARE
+  v_source public.commission_settings;
+  v_version public.commission_settings;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can revert plan settings';
+  END IF;
+
+  SELECT * INTO v_source FROM public.commission_settings WHERE id = p_settings_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Plan version % not found', p_settings_id;
+  END IF;
+
+  INSERT INTO public.commission_settings (
+    plan_id, effective_from,
+    ae_brackets, ae_bracket_mode, ae_bracket_basis, ae_payment_term_bonuses, ae_revenue_multiplier_brackets,
+    sdr_meeting_tiers, sdr_closed_won_percent, sdr_revenue_multiplier_brackets,
+    marketing_same_as_sdr, marketing_inbound_percent, marketing_revenue_multiplier_brackets,
+    clawback_window_days, clawback_percent
+  )
+  VALUES (
+    v_source.plan_id, p_effective_from,
+    v_source.ae_brackets, v_source.ae_bracket_mode, v_source.ae_bracket_basis, v_source.ae_payment_term_bonuses, v_source.ae_revenue_multiplier_brackets,
+    v_source.sdr_meeting_tiers, v_source.sdr_closed_won_percent, v_source.sdr_revenue_multiplier_brackets,
+    v_source.marketing_same_as_sdr, v_source.marketing_inbound_percent, v_source.marketing_revenue_multiplier_brackets,
+    v_source.clawback_window_days, v_source.clawback_percent
+  )
+  RETURNING * INTO v_version;
+
+  UPDATE public.commission_settings_history
+  SET reverted_to_version = v_source.version
+  WHERE settings_id = v_version.id;
+
+  RETURN v_version;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
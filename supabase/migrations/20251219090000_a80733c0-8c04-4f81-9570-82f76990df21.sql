@@ -0,0 +1,21 @@
+-- Deals deleted in HubSpot never show up in the incremental sync, so each sync also reads
+-- the archive and stores a tombstone version of every deleted deal. A deal whose latest
+-- version is a tombstone is left out of the snapshot from that run on.
+ALTER TABLE public.crm_deals
+ADD COLUMN archived BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.crm_sync_runs
+ADD COLUMN deals_archived INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.crm_deals_as_of(p_sync_run_id BIGINT)
+RETURNS SETOF public.crm_deals AS $$
+  SELECT *
+  FROM (
+    SELECT DISTINCT ON (hubspot_id) *
+    FROM public.crm_deals
+    WHERE sync_run_id <= p_sync_run_id
+      AND sync_run_id IN (SELECT id FROM public.crm_sync_runs WHERE status = 'succeeded')
+    ORDER BY hubspot_id, sync_run_id DESC
+  ) latest
+  WHERE NOT latest.archived;
+$$ LANGUAGE sql STABLE SET search_path = public;
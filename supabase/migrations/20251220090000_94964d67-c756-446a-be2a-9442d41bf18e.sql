@@ -0,0 +1,140 @@
+-- Every recalculation writes a new draft statement, so a rep and period could collect several
+-- statements that each go on to be approved and paid. A new statement now supersedes the rep's
+-- earlier drafts for the period, and only one statement per rep and period can be approved,
+-- locked or paid.
+ALTER TABLE public.commission_statements DROP CONSTRAINT commission_statements_status_check;
+ALTER TABLE public.commission_statements ADD CONSTRAINT commission_statements_status_check
+  CHECK (status IN ('draft', 'submitted', 'approved', 'locked', 'paid', 'superseded'));
+
+-- Statements already past review for the same rep and period: keep the one furthest along
+-- (the latest of those), supersede the rest so the unique index below can be built
+WITH ranked AS (
+  SELECT
+    id,
+    status,
+    row_number() OVER (
+      PARTITION BY rep_id, period_start, period_end
+      ORDER BY CASE status WHEN 'paid' THEN 3 WHEN 'locked' THEN 2 ELSE 1 END DESC, created_at DESC
+    ) AS position
+  FROM public.commission_statements
+  WHERE status IN ('approved', 'locked', 'paid')
+),
+superseded AS (
+  UPDATE public.commission_statements s
+  SET status = 'superseded', status_changed_at = now(), status_changed_by = NULL
+  FROM ranked
+  WHERE s.id = ranked.id AND ranked.position > 1
+  RETURNING s.id, ranked.status AS from_status
+)
+INSERT INTO public.commission_statement_transitions (statement_id, from_status, to_status, note)
+SELECT id, from_status, 'superseded', 'Duplicate of another statement for the same rep and period'
+FROM superseded;
+
+CREATE UNIQUE INDEX idx_commission_statements_one_approved
+  ON public.commission_statements(rep_id, period_start, period_end)
+  WHERE status IN ('approved', 'locked', 'paid');
+
+-- Earlier drafts and submissions for the rep and period give way to the newly written statement
+CREATE OR REPLACE FUNCTION public.supersede_earlier_statements()
+RETURNS TRIGGER AS $$
+BEGIN
+  WITH earlier AS (
+    SELECT id, status FROM public.commission_statements
+    WHERE rep_id = NEW.rep_id
+      AND period_start = NEW.period_start
+      AND period_end = NEW.period_end
+      AND id <> NEW.id
+      AND status IN ('draft', 'submitted')
+    FOR UPDATE
+  ),
+  superseded AS (
+    UPDATE public.commission_statements s
+    SET status = 'superseded', status_changed_at = now(), status_changed_by = NULL
+    FROM earlier
+    WHERE s.id = earlier.id
+    RETURNING s.id, earlier.status AS from_status
+  )
+  INSERT INTO public.commission_statement_transitions (statement_id, from_status, to_status, note)
+  SELECT id, from_status, 'superseded', 'Superseded by a newer commission run'
+  FROM superseded;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER supersede_earlier_statements
+  AFTER INSERT ON public.commission_statements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.supersede_earlier_statements();
+
+-- As in 20251215090000, plus a readable error when the rep already has an approved statement
+-- for the period (the unique index would refuse it anyway)
+CREATE OR REPLACE FUNCTION public.transition_commission_statement(
+  p_statement_id UUID,
+  p_to_status TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.commission_statements AS $$
+DECLARE
+  v_statement public.commission_statements;
+  v_from_status TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Statement status changes must be made by a signed-in user';
+  END IF;
+
+  SELECT * INTO v_statement
+  FROM public.commission_statements
+  WHERE id = p_statement_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_view_rep(v_statement.rep_id) THEN
+    RAISE EXCEPTION 'Commission statement % not found', p_statement_id;
+  END IF;
+
+  v_from_status := v_statement.status;
+
+  IF (v_from_status, p_to_status) NOT IN (
+    ('draft', 'submitted'),
+    ('submitted', 'draft'),
+    ('submitted', 'approved'),
+    ('approved', 'locked'),
+    ('locked', 'paid')
+  ) THEN
+    RAISE EXCEPTION 'A % statement cannot be moved to %', v_from_status, p_to_status;
+  END IF;
+
+  IF NOT public.has_any_role(auth.uid(), ARRAY['admin', 'finance']::public.app_role[])
+     AND NOT (p_to_status = 'submitted' AND public.manages_rep(v_statement.rep_id)) THEN
+    RAISE EXCEPTION 'You are not allowed to move this statement to %', p_to_status;
+  END IF;
+
+  IF p_to_status = 'approved'
+     AND EXISTS (SELECT 1 FROM public.reps WHERE hubspot_owner_id = v_statement.rep_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'You cannot approve your own statement';
+  END IF;
+
+  IF p_to_status = 'approved'
+     AND EXISTS (
+       SELECT 1 FROM public.commission_statements
+       WHERE rep_id = v_statement.rep_id
+         AND period_start = v_statement.period_start
+         AND period_end = v_statement.period_end
+         AND status IN ('approved', 'locked', 'paid')
+     ) THEN
+    RAISE EXCEPTION '% already has an approved statement for this period', v_statement.rep_name;
+  END IF;
+
+  UPDATE public.commission_statements
+  SET status = p_to_status,
+      status_changed_at = now(),
+      status_changed_by = auth.uid()
+  WHERE id = p_statement_id
+  RETURNING * INTO v_statement;
+
+  INSERT INTO public.commission_statement_transitions (statement_id, from_status, to_status, actor_id, actor_email, note)
+  VALUES (p_statement_id, v_from_status, p_to_status, auth.uid(), auth.jwt() ->> 'email', p_note);
+
+  RETURN v_statement;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
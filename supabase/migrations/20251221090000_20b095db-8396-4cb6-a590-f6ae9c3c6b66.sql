@@ -0,0 +1,43 @@
+-- Records a successful run in one transaction: the run log, its line items, the draft statement
+-- and the statement's first transition. Written one by one, a worker stopping part-way left a
+-- run log with no statement, and the job worker took the run log as proof the task was done.
+CREATE OR REPLACE FUNCTION public.record_commission_run(
+  p_run JSONB,
+  p_line_items JSONB,
+  p_total_commission NUMERIC
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_run public.commission_run_logs;
+  v_statement_id UUID;
+BEGIN
+  INSERT INTO public.commission_run_logs (
+    rep_id, rep_name, team, period_start, period_end, commission_json,
+    plan_id, plan_version_id, crm_sync_run_id, job_task_id, success
+  )
+  SELECT
+    r.rep_id, r.rep_name, r.team, r.period_start, r.period_end, r.commission_json,
+    r.plan_id, r.plan_version_id, r.crm_sync_run_id, r.job_task_id, true
+  FROM jsonb_populate_record(NULL::public.commission_run_logs, p_run) r
+  RETURNING * INTO v_run;
+
+  INSERT INTO public.commission_line_items (
+    run_log_id, source_type, hubspot_id, adjustment_id, description, amount, rule, rate, commission
+  )
+  SELECT
+    v_run.id, l.source_type, l.hubspot_id, l.adjustment_id, l.description, l.amount, l.rule, l.rate, l.commission
+  FROM jsonb_populate_recordset(NULL::public.commission_line_items, coalesce(p_line_items, '[]'::jsonb)) l;
+
+  INSERT INTO public.commission_statements (run_log_id, rep_id, rep_name, team, period_start, period_end, total_commission)
+  VALUES (v_run.id, v_run.rep_id, v_run.rep_name, v_run.team, v_run.period_start, v_run.period_end, p_total_commission)
+  RETURNING id INTO v_statement_id;
+
+  INSERT INTO public.commission_statement_transitions (statement_id, to_status, note)
+  VALUES (v_statement_id, 'draft', 'Created by commission run');
+
+  RETURN jsonb_build_object('run_log_id', v_run.id, 'statement_id', v_statement_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only edge functions, with the service role key, record runs
+REVOKE EXECUTE ON FUNCTION public.record_commission_run(JSONB, JSONB, NUMERIC) FROM PUBLIC, anon, authenticated;
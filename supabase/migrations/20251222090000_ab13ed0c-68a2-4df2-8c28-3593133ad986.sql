@@ -0,0 +1,58 @@
+-- A task whose worker stopped on its last attempt was reclaimed, and counted up again, every
+-- time the worker ran. Stale tasks that have used up their attempts are now failed instead,
+-- finishing their job once nothing else is left to run.
+DROP FUNCTION public.claim_commission_job_tasks(INTEGER, INTERVAL);
+
+CREATE OR REPLACE FUNCTION public.claim_commission_job_tasks(
+  p_limit INTEGER,
+  p_max_attempts INTEGER,
+  p_stale_after INTERVAL DEFAULT '10 minutes'
+)
+RETURNS SETOF public.commission_job_tasks AS $$
+DECLARE
+  v_task_id UUID;
+BEGIN
+  FOR v_task_id IN
+    SELECT id
+    FROM public.commission_job_tasks
+    WHERE status = 'running'
+      AND locked_at < now() - p_stale_after
+      AND attempts >= p_max_attempts
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM public.finish_commission_job_task(
+      v_task_id,
+      'failed',
+      format('The worker stopped during attempt %s of %s', p_max_attempts, p_max_attempts)
+    );
+  END LOOP;
+
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE public.commission_job_tasks t
+    SET status = 'running',
+        locked_at = now(),
+        attempts = t.attempts + 1
+    WHERE t.id IN (
+      SELECT id
+      FROM public.commission_job_tasks
+      WHERE status = 'pending'
+         OR (status = 'running' AND locked_at < now() - p_stale_after AND attempts < p_max_attempts)
+      ORDER BY created_at
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING t.*
+  ), started AS (
+    UPDATE public.commission_jobs j
+    SET status = 'running',
+        started_at = coalesce(j.started_at, now())
+    WHERE j.id IN (SELECT job_id FROM claimed)
+      AND j.status = 'queued'
+  )
+  SELECT * FROM claimed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the worker, with the service role key, claims tasks
+REVOKE EXECUTE ON FUNCTION public.claim_commission_job_tasks(INTEGER, INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,47 @@
+-- Two syncs of the same rep and period at once could both find no HubSpot record and both
+-- create one. A sync now claims the rep and period first; the claim is released when the sync
+-- finishes and lapses on its own if the sync never does.
+CREATE TABLE public.hubspot_statement_sync_claims (
+  rep_id TEXT NOT NULL,
+  period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  claimed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (rep_id, period_start, period_end)
+);
+
+-- Only sync-to-hubspot, with the service role key, reads and writes claims
+ALTER TABLE public.hubspot_statement_sync_claims ENABLE ROW LEVEL SECURITY;
+
+-- True when the caller now holds the claim: nobody held it, or the last holder's claim lapsed
+CREATE OR REPLACE FUNCTION public.claim_hubspot_statement_sync(
+  p_rep_id TEXT,
+  p_period_start TIMESTAMP WITH TIME ZONE,
+  p_period_end TIMESTAMP WITH TIME ZONE,
+  p_stale_after INTERVAL DEFAULT '5 minutes'
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  INSERT INTO public.hubspot_statement_sync_claims (rep_id, period_start, period_end)
+  VALUES (p_rep_id, p_period_start, p_period_end)
+  ON CONFLICT (rep_id, period_start, period_end) DO UPDATE
+  SET claimed_at = now()
+  WHERE hubspot_statement_sync_claims.claimed_at < now() - p_stale_after;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.release_hubspot_statement_sync(
+  p_rep_id TEXT,
+  p_period_start TIMESTAMP WITH TIME ZONE,
+  p_period_end TIMESTAMP WITH TIME ZONE
+)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM public.hubspot_statement_sync_claims
+  WHERE rep_id = p_rep_id AND period_start = p_period_start AND period_end = p_period_end;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.claim_hubspot_statement_sync(TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, INTERVAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_hubspot_statement_sync(TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,20 @@
+-- Meetings deleted in HubSpot are stored as tombstones the same way deals are, so a deleted
+-- meeting stops earning its SDR bonus from the run that records it.
+ALTER TABLE public.crm_meetings
+ADD COLUMN archived BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.crm_sync_runs
+ADD COLUMN meetings_archived INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.crm_meetings_as_of(p_sync_run_id BIGINT)
+RETURNS SETOF public.crm_meetings AS $$
+  SELECT *
+  FROM (
+    SELECT DISTINCT ON (hubspot_id) *
+    FROM public.crm_meetings
+    WHERE sync_run_id <= p_sync_run_id
+      AND sync_run_id IN (SELECT id FROM public.crm_sync_runs WHERE status = 'succeeded')
+    ORDER BY hubspot_id, sync_run_id DESC
+  ) latest
+  WHERE NOT latest.archived;
+$$ LANGUAGE sql STABLE SET search_path = public;
@@ -0,0 +1,73 @@
+-- As in 20251221090000, except when the rep already has an approved, locked or paid statement
+-- for the period. Only one of those is allowed per rep and period, so a later run's statement
+-- could never be approved; it is written as superseded instead, pointing at the approved one.
+CREATE OR REPLACE FUNCTION public.record_commission_run(
+  p_run JSONB,
+  p_line_items JSONB,
+  p_total_commission NUMERIC
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_run public.commission_run_logs;
+  v_statement_id UUID;
+  v_approved public.commission_statements;
+BEGIN
+  INSERT INTO public.commission_run_logs (
+    rep_id, rep_name, team, period_start, period_end, commission_json,
+    plan_id, plan_version_id, crm_sync_run_id, job_task_id, success
+  )
+  SELECT
+    r.rep_id, r.rep_name, r.team, r.period_start, r.period_end, r.commission_json,
+    r.plan_id, r.plan_version_id, r.crm_sync_run_id, r.job_task_id, true
+  FROM jsonb_populate_record(NULL::public.commission_run_logs, p_run) r
+  RETURNING * INTO v_run;
+
+  INSERT INTO public.commission_line_items (
+    run_log_id, source_type, hubspot_id, adjustment_id, description, amount, rule, rate, commission
+  )
+  SELECT
+    v_run.id, l.source_type, l.hubspot_id, l.adjustment_id, l.description, l.amount, l.rule, l.rate, l.commission
+  FROM jsonb_populate_recordset(NULL::public.commission_line_items, coalesce(p_line_items, '[]'::jsonb)) l;
+
+  SELECT * INTO v_approved
+  FROM public.commission_statements
+  WHERE rep_id = v_run.rep_id
+    AND period_start = v_run.period_start
+    AND period_end = v_run.period_end
+    AND status IN ('approved', 'locked', 'paid')
+  FOR UPDATE;
+
+  IF FOUND THEN
+    INSERT INTO public.commission_statements (
+      run_log_id, rep_id, rep_name, team, period_start, period_end, total_commission, status, status_changed_at
+    )
+    VALUES (
+      v_run.id, v_run.rep_id, v_run.rep_name, v_run.team, v_run.period_start, v_run.period_end, p_total_commission,
+      'superseded', now()
+    )
+    RETURNING id INTO v_statement_id;
+
+    INSERT INTO public.commission_statement_transitions (statement_id, to_status, note)
+    VALUES (
+      v_statement_id,
+      'superseded',
+      format('Created by commission run after statement %s was %s for this period', v_approved.id, v_approved.status)
+    );
+  ELSE
+    INSERT INTO public.commission_statements (run_log_id, rep_id, rep_name, team, period_start, period_end, total_commission)
+    VALUES (v_run.id, v_run.rep_id, v_run.rep_name, v_run.team, v_run.period_start, v_run.period_end, p_total_commission)
+    RETURNING id INTO v_statement_id;
+
+    INSERT INTO public.commission_statement_transitions (statement_id, to_status, note)
+    VALUES (v_statement_id, 'draft', 'Created by commission run');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'run_log_id', v_run.id,
+    'statement_id', v_statement_id,
+    'approved_statement_id', v_approved.id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.record_commission_run(JSONB, JSONB, NUMERIC) FROM PUBLIC, anon, authenticated;